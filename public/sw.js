@@ -0,0 +1,76 @@
+// App shell cache so the app (and the crisis screens in it) opens with no
+// connectivity. Supabase data is not cached here: contacts and strategies are
+// kept in IndexedDB by the app itself, where edits update the offline copy.
+
+const CACHE_NAME = 'recovery-companion-v1';
+const APP_SHELL = ['/', '/manifest.webmanifest', '/icon-192.png', '/icon-512.png'];
+
+// Build chunks are otherwise only cached as they're fetched through the worker,
+// which misses everything the first visit loaded before it took control
+const isStaticAsset = (url) => url.origin === self.location.origin && url.pathname.startsWith('/_next/static/');
+
+const cacheStaticAssets = (cache, urls) =>
+  Promise.all(
+    urls
+      .filter((url) => isStaticAsset(new URL(url, self.location.origin)))
+      .map((url) => cache.match(url).then((cached) => cached || cache.add(url).catch(() => {})))
+  );
+
+// The shell page references the build's scripts and styles, so precache those too
+const cacheAppShell = async () => {
+  const cache = await caches.open(CACHE_NAME);
+  await cache.addAll(APP_SHELL);
+  const html = await (await cache.match('/')).text();
+  await cacheStaticAssets(cache, [...new Set(html.match(/\/_next\/static\/[^"'\s\\)]+/g) || [])]);
+};
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(cacheAppShell());
+  self.skipWaiting();
+});
+
+// The page sends the chunks it has already loaded, including lazily loaded ones
+self.addEventListener('message', (event) => {
+  if (event.data?.type !== 'CACHE_URLS') return;
+  event.waitUntil(caches.open(CACHE_NAME).then((cache) => cacheStaticAssets(cache, event.data.urls)));
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then((keys) => Promise.all(keys.filter((key) => key !== CACHE_NAME).map((key) => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+const putInCache = (request, response) => {
+  if (response.ok) {
+    const copy = response.clone();
+    caches.open(CACHE_NAME).then((cache) => cache.put(request, copy));
+  }
+  return response;
+};
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+
+  if (request.method !== 'GET' || url.origin !== self.location.origin) return;
+
+  // Build output is content-hashed, so a cached copy is always correct
+  if (isStaticAsset(url)) {
+    event.respondWith(
+      caches.match(request).then((cached) => cached || fetch(request).then((response) => putInCache(request, response)))
+    );
+    return;
+  }
+
+  // Everything else prefers the network so deploys show up immediately
+  event.respondWith(
+    fetch(request)
+      .then((response) => putInCache(request, response))
+      .catch(() =>
+        caches.match(request).then((cached) => cached || (request.mode === 'navigate' ? caches.match('/') : Response.error()))
+      )
+  );
+});
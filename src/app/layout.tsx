@@ -1,13 +1,26 @@
-import type { Metadata } from 'next';
+import type { Metadata, Viewport } from 'next';
 import { Inter } from 'next/font/google';
 import './globals.css';
 import { Toaster } from 'sonner';
+import ServiceWorkerRegistration from '@/components/ServiceWorkerRegistration';
 
 const inter = Inter({ subsets: ['latin'] });
 
 export const metadata: Metadata = {
   title: 'Daily Recovery Companion',
   description: 'Your personal recovery support app',
+  appleWebApp: {
+    capable: true,
+    title: 'Recovery',
+    statusBarStyle: 'default',
+  },
+  icons: {
+    apple: '/icon-192.png',
+  },
+};
+
+export const viewport: Viewport = {
+  themeColor: '#2563eb',
 };
 
 export default function RootLayout({
@@ -20,6 +33,7 @@ export default function RootLayout({
       <body className={inter.className}>
         {children}
         <Toaster position="top-center" />
+        <ServiceWorkerRegistration />
       </body>
     </html>
   );
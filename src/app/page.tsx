@@ -9,17 +9,39 @@ import CopingStrategies from '@/components/CopingStrategies';
 import EmergencyContacts from '@/components/EmergencyContacts';
 import GoalsMilestones from '@/components/GoalsMilestones';
 import Settings from '@/components/Settings';
+import UseLog from '@/components/UseLog';
+import MomentaryLog from '@/components/MomentaryLog';
+import CheckInCalendar from '@/components/CheckInCalendar';
+import TriggerManager from '@/components/TriggerManager';
+import Questionnaires from '@/components/Questionnaires';
+import UrgeSurfer from '@/components/UrgeSurfer';
+import SafetyPlan from '@/components/SafetyPlan';
+import SosMode from '@/components/SosMode';
+import SupporterDashboard from '@/components/SupporterDashboard';
+import { DayContext, DEFAULT_DAY_CONTEXT, fetchDayContext, formatDay, getDaysAgo, getRecoveryDay } from '@/lib/recoveryDay';
+import { fetchStreakSummary } from '@/lib/streaks';
+import { clearQueue, flushQueue, getQueuedWrites, startBackgroundSync, subscribeToQueue } from '@/lib/offlineQueue';
+import { clearSnapshots } from '@/lib/offlineCache';
+import { toast } from 'sonner';
 
-type ViewType = 'dashboard' | 'checkin' | 'progress' | 'strategies' | 'contacts' | 'goals' | 'settings';
+type ViewType = 'dashboard' | 'checkin' | 'history' | 'progress' | 'strategies' | 'contacts' | 'goals' | 'uselog' | 'triggers' | 'questionnaires' | 'safetyplan' | 'supporting' | 'settings';
 
 export default function HomePage() {
   const [user, setUser] = useState<User | null>(null);
   const [loading, setLoading] = useState(true);
   const [currentView, setCurrentView] = useState<ViewType>('dashboard');
+  // Strategy to open straight away when arriving from a recommendation
+  const [strategyToOpen, setStrategyToOpen] = useState<string | null>(null);
+  const [showSos, setShowSos] = useState(false);
 
   useEffect(() => {
     // Get initial user
-    supabase.auth.getUser().then(({ data: { user } }) => {
+    supabase.auth.getUser().then(async ({ data: { user } }) => {
+      // getUser needs the network; offline, fall back to the session stored on this device
+      if (!user && !navigator.onLine) {
+        const { data: { session } } = await supabase.auth.getSession();
+        user = session?.user ?? null;
+      }
       setUser(user);
       setLoading(false);
     });
@@ -35,6 +57,25 @@ export default function HomePage() {
     return () => subscription.unsubscribe();
   }, []);
 
+  useEffect(() => {
+    if (!user) return;
+
+    // Replay anything saved while offline as soon as we can reach Supabase
+    return startBackgroundSync(({ synced, conflicts, rejected }) => {
+      if (synced > 0) {
+        toast.success(`Synced ${synced} offline ${synced === 1 ? 'entry' : 'entries'}`);
+      }
+      if (rejected.length > 0) {
+        toast.error(`${rejected.length} offline ${rejected.length === 1 ? 'entry was' : 'entries were'} rejected and couldn't be saved`, {
+          description: rejected[0].last_error
+        });
+      }
+      if (conflicts.length > 0) {
+        toast.info('Some check-ins were also edited on another device. The newer version was kept.');
+      }
+    });
+  }, [user]);
+
   if (loading) {
     return (
       <div className="min-h-screen flex items-center justify-center">
@@ -48,43 +89,114 @@ export default function HomePage() {
   }
 
   // Route to different views
-  switch (currentView) {
-    case 'checkin':
-      return (
-        <div className="min-h-screen bg-gray-50 p-4">
-          <div className="max-w-2xl mx-auto">
-            <button
-              onClick={() => setCurrentView('dashboard')}
-              className="mb-4 text-blue-600 hover:text-blue-700 flex items-center"
-            >
-              ← Back to Dashboard
-            </button>
-            <DailyCheckIn user={user} onComplete={() => setCurrentView('dashboard')} />
+  const renderView = () => {
+    switch (currentView) {
+      case 'checkin':
+        return (
+          <div className="min-h-screen bg-gray-50 p-4">
+            <div className="max-w-2xl mx-auto">
+              <button
+                onClick={() => setCurrentView('dashboard')}
+                className="mb-4 text-blue-600 hover:text-blue-700 flex items-center"
+              >
+                ← Back to Dashboard
+              </button>
+              <DailyCheckIn
+                user={user}
+                onComplete={() => setCurrentView('dashboard')}
+                onManageTriggers={() => setCurrentView('triggers')}
+                onOpenStrategy={(strategyId) => {
+                  setStrategyToOpen(strategyId);
+                  setCurrentView('strategies');
+                }}
+              />
+            </div>
           </div>
-        </div>
-      );
+        );
     
-    case 'progress':
-      return <ProgressCharts user={user} onBack={() => setCurrentView('dashboard')} />;
+      case 'history':
+        return <CheckInCalendar user={user} onBack={() => setCurrentView('dashboard')} />;
     
-    case 'strategies':
-      return <CopingStrategies user={user} onBack={() => setCurrentView('dashboard')} />;
+      case 'progress':
+        return <ProgressCharts user={user} onBack={() => setCurrentView('dashboard')} />;
     
-    case 'contacts':
-      return <EmergencyContacts user={user} onBack={() => setCurrentView('dashboard')} />;
+      case 'strategies':
+        return (
+          <CopingStrategies
+            user={user}
+            initialStrategyId={strategyToOpen}
+            onBack={() => {
+              setStrategyToOpen(null);
+              setCurrentView('dashboard');
+            }}
+          />
+        );
     
-    case 'goals':
-      return <GoalsMilestones user={user} onBack={() => setCurrentView('dashboard')} />;
+      case 'contacts':
+        return (
+          <EmergencyContacts
+            user={user}
+            onBack={() => setCurrentView('dashboard')}
+            onOpenSafetyPlan={() => setCurrentView('safetyplan')}
+          />
+        );
     
-    case 'settings':
-      return <Settings user={user} onBack={() => setCurrentView('dashboard')} />;
+      case 'goals':
+        return <GoalsMilestones user={user} onBack={() => setCurrentView('dashboard')} />;
     
-    case 'settings':
-      return <Settings user={user} onBack={() => setCurrentView('dashboard')} />;
+      case 'uselog':
+        return <UseLog user={user} onBack={() => setCurrentView('dashboard')} />;
     
-    default:
-      return <Dashboard user={user} onNavigate={setCurrentView} />;
-  }
+      case 'triggers':
+        return <TriggerManager user={user} onBack={() => setCurrentView('dashboard')} />;
+    
+      case 'questionnaires':
+        return (
+          <Questionnaires
+            user={user}
+            onBack={() => setCurrentView('dashboard')}
+            onOpenSafetyPlan={() => setCurrentView('safetyplan')}
+          />
+        );
+    
+      case 'safetyplan':
+        return <SafetyPlan user={user} onBack={() => setCurrentView('dashboard')} />;
+    
+      case 'supporting':
+        return <SupporterDashboard user={user} onBack={() => setCurrentView('dashboard')} />;
+    
+      case 'settings':
+        return <Settings user={user} onBack={() => setCurrentView('dashboard')} />;
+    
+      case 'settings':
+        return <Settings user={user} onBack={() => setCurrentView('dashboard')} />;
+    
+      default:
+        return <Dashboard user={user} onNavigate={setCurrentView} />;
+    }
+  };
+
+  return (
+    <>
+      {renderView()}
+
+      {/* SOS, reachable from every screen */}
+      <button
+        onClick={() => setShowSos(true)}
+        title="SOS: reach your support network now"
+        className="fixed bottom-4 right-4 z-40 w-16 h-16 rounded-full bg-red-600 text-white font-bold shadow-lg hover:bg-red-700 print:hidden"
+      >
+        SOS
+      </button>
+      {showSos && (
+        <SosMode
+          user={user}
+          onClose={() => setShowSos(false)}
+          onOpenSafetyPlan={() => setCurrentView('safetyplan')}
+        />
+      )}
+    </>
+  );
 }
 
 // Simple Auth Component
@@ -163,15 +275,24 @@ function AuthPage() {
 // Enhanced Dashboard Component
 function Dashboard({ user, onNavigate }: { user: User; onNavigate: (view: ViewType) => void }) {
   const [checkIns, setCheckIns] = useState<any[]>([]);
+  const [pendingDates, setPendingDates] = useState<string[]>([]);
+  const [dayContext, setDayContext] = useState<DayContext>(DEFAULT_DAY_CONTEXT);
+  const [showUrgeSurfer, setShowUrgeSurfer] = useState(false);
   const [stats, setStats] = useState({
     totalCheckIns: 0,
     avgMood: 0,
-    streak: 0
+    streak: 0,
+    longestStreak: 0
   });
 
   useEffect(() => {
     fetchCheckIns();
-    fetchStats();
+    fetchDayContext(user.id).then(context => {
+      setDayContext(context);
+      fetchStats(context);
+    });
+
+    return subscribeToQueue(fetchCheckIns);
   }, []);
 
   const fetchCheckIns = async () => {
@@ -182,10 +303,18 @@ function Dashboard({ user, onNavigate }: { user: User; onNavigate: (view: ViewTy
       .order('date', { ascending: false })
       .limit(7);
     
-    setCheckIns(data || []);
+    // Check-ins saved offline replace the server copy of the same day until they sync
+    const queued = (await getQueuedWrites('daily_checkin'))
+      .filter(write => write.row.user_id === user.id)
+      .map(write => write.row);
+    const merged = [...queued, ...(data || []).filter(c => !queued.some(q => q.date === c.date))]
+      .sort((a, b) => b.date.localeCompare(a.date));
+
+    setCheckIns(merged.slice(0, 7));
+    setPendingDates(queued.map(row => row.date));
   };
 
-  const fetchStats = async () => {
+  const fetchStats = async (context: DayContext) => {
     // Get total check-ins
     const { count } = await supabase
       .from('daily_checkins')
@@ -197,40 +326,30 @@ function Dashboard({ user, onNavigate }: { user: User; onNavigate: (view: ViewTy
       .from('daily_checkins')
       .select('mood_score')
       .eq('user_id', user.id)
-      .gte('date', new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString().split('T')[0]);
+      .gte('date', getDaysAgo(30, context));
 
     const avgMood = moodData?.length ? 
       moodData.reduce((sum, item) => sum + (item.mood_score || 0), 0) / moodData.length : 0;
 
-    setStats({
-      totalCheckIns: count || 0,
-      avgMood: Math.round(avgMood * 10) / 10,
-      streak: calculateStreak(checkIns)
+    // Streaks are computed over the full check-in history, not the recent list
+    const streaks = await fetchStreakSummary(user.id, context).catch((error: unknown) => {
+      toast.error('Failed to load your streak', { description: (error as Error).message });
+      return null;
     });
-  };
 
-  const calculateStreak = (checkInData: any[]) => {
-    if (!checkInData.length) return 0;
-    
-    let streak = 0;
-    const today = new Date();
-    
-    for (let i = 0; i < checkInData.length; i++) {
-      const checkInDate = new Date(checkInData[i].date);
-      const expectedDate = new Date(today);
-      expectedDate.setDate(today.getDate() - i);
-      
-      if (checkInDate.toDateString() === expectedDate.toDateString()) {
-        streak++;
-      } else {
-        break;
-      }
-    }
-    
-    return streak;
+    setStats(prev => ({
+      totalCheckIns: count || 0,
+      avgMood: Math.round(avgMood * 10) / 10,
+      streak: streaks ? streaks.current : prev.streak,
+      longestStreak: streaks ? streaks.longest : prev.longestStreak
+    }));
   };
 
   const handleSignOut = async () => {
+    const unsynced = await flushQueue();
+    if (unsynced > 0 && !confirm(`You have ${unsynced} ${unsynced === 1 ? 'entry' : 'entries'} saved offline that haven't reached your account yet. Signing out now will delete them from this device. Sign out anyway?`)) return;
+    await clearQueue();
+    await clearSnapshots();
     await supabase.auth.signOut();
   };
 
@@ -289,6 +408,7 @@ function Dashboard({ user, onNavigate }: { user: User; onNavigate: (view: ViewTy
               <div className="ml-4">
                 <p className="text-sm font-medium text-gray-600">Current Streak</p>
                 <p className="text-2xl font-bold text-gray-900">{stats.streak} days</p>
+                <p className="text-xs text-gray-500">Longest: {stats.longestStreak} days</p>
               </div>
             </div>
           </div>
@@ -296,26 +416,39 @@ function Dashboard({ user, onNavigate }: { user: User; onNavigate: (view: ViewTy
 
         {/* Main Content */}
         <div className="grid gap-6 lg:grid-cols-2">
-          {/* Quick Check-In */}
-          <div className="bg-white p-6 rounded-lg shadow">
-            <h2 className="text-xl font-semibold mb-4">Daily Check-In</h2>
-            <p className="text-gray-600 mb-4">
-              Take a moment to reflect on your day and track your progress.
-            </p>
-            <button 
-              onClick={() => onNavigate('checkin')}
-              className="w-full bg-blue-600 text-white px-4 py-3 rounded-md hover:bg-blue-700 font-medium"
-            >
-              {checkIns.length > 0 && checkIns[0].date === new Date().toISOString().split('T')[0]
-                ? 'Update Today\'s Check-In' 
-                : 'Start Daily Check-In'
-              }
-            </button>
+          <div className="space-y-6">
+            {/* Quick Check-In */}
+            <div className="bg-white p-6 rounded-lg shadow">
+              <h2 className="text-xl font-semibold mb-4">Daily Check-In</h2>
+              <p className="text-gray-600 mb-4">
+                Take a moment to reflect on your day and track your progress.
+              </p>
+              <button 
+                onClick={() => onNavigate('checkin')}
+                className="w-full bg-blue-600 text-white px-4 py-3 rounded-md hover:bg-blue-700 font-medium"
+              >
+                {checkIns.length > 0 && checkIns[0].date === getRecoveryDay(dayContext)
+                  ? 'Update Today\'s Check-In' 
+                  : 'Start Daily Check-In'
+                }
+              </button>
+            </div>
+
+            {/* Today's Momentary Log */}
+            <MomentaryLog user={user} />
           </div>
 
           {/* Recent Check-Ins */}
           <div className="bg-white p-6 rounded-lg shadow">
-            <h2 className="text-xl font-semibold mb-4">Recent Check-Ins</h2>
+            <div className="flex items-center justify-between mb-4">
+              <h2 className="text-xl font-semibold">Recent Check-Ins</h2>
+              <button
+                onClick={() => onNavigate('history')}
+                className="text-sm text-blue-600 hover:text-blue-700"
+              >
+                View Calendar →
+              </button>
+            </div>
             {checkIns.length === 0 ? (
               <div className="text-center py-8">
                 <span className="text-4xl mb-2 block">📝</span>
@@ -325,10 +458,10 @@ function Dashboard({ user, onNavigate }: { user: User; onNavigate: (view: ViewTy
             ) : (
               <div className="space-y-3">
                 {checkIns.map((checkin) => (
-                  <div key={checkin.id} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
+                  <div key={checkin.date} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
                     <div>
                       <p className="font-medium text-gray-900">
-                        {new Date(checkin.date).toLocaleDateString('en-US', { 
+                        {formatDay(checkin.date, { 
                           weekday: 'short', 
                           month: 'short', 
                           day: 'numeric' 
@@ -336,17 +469,21 @@ function Dashboard({ user, onNavigate }: { user: User; onNavigate: (view: ViewTy
                       </p>
                       <p className="text-sm text-gray-600">
                         Mood: {checkin.mood_score}/10 • Energy: {checkin.energy_level}/5
+                        {checkin.craving_frequency > 0 && ` • Craving: ${checkin.craving_peak_intensity}/10`}
                       </p>
                     </div>
                     <div className="text-right">
-                      {checkin.trigger_tags?.length > 0 && (
+                      {checkin.trigger_ids?.length > 0 && (
                         <p className="text-xs text-red-600">
-                          {checkin.trigger_tags.length} trigger(s)
+                          {checkin.trigger_ids.length} trigger(s)
                         </p>
                       )}
                       {checkin.gratitude_note && (
                         <p className="text-xs text-green-600">✓ Gratitude noted</p>
                       )}
+                      {pendingDates.includes(checkin.date) && (
+                        <p className="text-xs text-yellow-700">⏳ Pending sync</p>
+                      )}
                     </div>
                   </div>
                 ))}
@@ -358,7 +495,7 @@ function Dashboard({ user, onNavigate }: { user: User; onNavigate: (view: ViewTy
         {/* Quick Actions */}
         <div className="mt-8">
           <h2 className="text-xl font-semibold mb-4">Quick Actions</h2>
-          <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-5">
+          <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
             <button 
               onClick={() => onNavigate('strategies')}
               className="p-4 bg-white rounded-lg shadow hover:shadow-md transition-shadow text-left"
@@ -367,6 +504,15 @@ function Dashboard({ user, onNavigate }: { user: User; onNavigate: (view: ViewTy
               <p className="font-medium">Coping Strategies</p>
               <p className="text-sm text-gray-600">Access your toolkit</p>
             </button>
+
+            <button 
+              onClick={() => setShowUrgeSurfer(true)}
+              className="p-4 bg-white rounded-lg shadow hover:shadow-md transition-shadow text-left"
+            >
+              <span className="text-2xl mb-2 block">🌊</span>
+              <p className="font-medium">Ride Out a Craving</p>
+              <p className="text-sm text-gray-600">Urge surfing timer</p>
+            </button>
             
             <button 
               onClick={() => onNavigate('contacts')}
@@ -377,6 +523,15 @@ function Dashboard({ user, onNavigate }: { user: User; onNavigate: (view: ViewTy
               <p className="text-sm text-gray-600">Quick access to support</p>
             </button>
             
+            <button 
+              onClick={() => onNavigate('safetyplan')}
+              className="p-4 bg-white rounded-lg shadow hover:shadow-md transition-shadow text-left"
+            >
+              <span className="text-2xl mb-2 block">🛟</span>
+              <p className="font-medium">My Safety Plan</p>
+              <p className="text-sm text-gray-600">Steps to follow in a crisis</p>
+            </button>
+            
             <button 
               onClick={() => onNavigate('progress')}
               className="p-4 bg-white rounded-lg shadow hover:shadow-md transition-shadow text-left"
@@ -395,6 +550,42 @@ function Dashboard({ user, onNavigate }: { user: User; onNavigate: (view: ViewTy
               <p className="text-sm text-gray-600">Track achievements</p>
             </button>
             
+            <button 
+              onClick={() => onNavigate('uselog')}
+              className="p-4 bg-white rounded-lg shadow hover:shadow-md transition-shadow text-left"
+            >
+              <span className="text-2xl mb-2 block">📓</span>
+              <p className="font-medium">Use & Lapse Log</p>
+              <p className="text-sm text-gray-600">Record a slip honestly</p>
+            </button>
+            
+            <button 
+              onClick={() => onNavigate('triggers')}
+              className="p-4 bg-white rounded-lg shadow hover:shadow-md transition-shadow text-left"
+            >
+              <span className="text-2xl mb-2 block">🎯</span>
+              <p className="font-medium">My Triggers</p>
+              <p className="text-sm text-gray-600">Add, rename or archive triggers</p>
+            </button>
+            
+            <button 
+              onClick={() => onNavigate('questionnaires')}
+              className="p-4 bg-white rounded-lg shadow hover:shadow-md transition-shadow text-left"
+            >
+              <span className="text-2xl mb-2 block">📋</span>
+              <p className="font-medium">Check-Up Questionnaires</p>
+              <p className="text-sm text-gray-600">PHQ-9, GAD-7 and AUDIT-C</p>
+            </button>
+            
+            <button 
+              onClick={() => onNavigate('supporting')}
+              className="p-4 bg-white rounded-lg shadow hover:shadow-md transition-shadow text-left"
+            >
+              <span className="text-2xl mb-2 block">🤝</span>
+              <p className="font-medium">People I Support</p>
+              <p className="text-sm text-gray-600">Progress others share with you</p>
+            </button>
+            
             <button 
               onClick={() => onNavigate('settings')}
               className="p-4 bg-white rounded-lg shadow hover:shadow-md transition-shadow text-left"
@@ -405,6 +596,11 @@ function Dashboard({ user, onNavigate }: { user: User; onNavigate: (view: ViewTy
             </button>
           </div>
         </div>
+
+        {/* Urge Surfing */}
+        {showUrgeSurfer && (
+          <UrgeSurfer user={user} onClose={() => setShowUrgeSurfer(false)} />
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,202 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { supabase } from '@/lib/supabase';
+import { User } from '@supabase/auth-helpers-nextjs';
+import DailyCheckIn from '@/components/DailyCheckIn';
+import { addDays, fetchDayContext, formatDay, getRecoveryDay, getWeekday } from '@/lib/recoveryDay';
+
+interface CheckInCalendarProps {
+  user: User;
+  onBack: () => void;
+}
+
+interface CalendarCheckIn {
+  id: string;
+  date: string;
+  mood_score: number;
+  is_backfilled: boolean | null;
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const getMonthStart = (day: string) => `${day.slice(0, 7)}-01`;
+
+const addMonths = (monthStart: string, amount: number) => {
+  const [year, month] = monthStart.split('-').map(Number);
+  const date = new Date(Date.UTC(year, month - 1 + amount, 1));
+  return date.toISOString().split('T')[0];
+};
+
+const getMoodColor = (score: number) => {
+  if (score <= 2) return 'bg-red-400 text-white';
+  if (score <= 4) return 'bg-orange-300 text-gray-900';
+  if (score <= 6) return 'bg-yellow-200 text-gray-900';
+  if (score <= 8) return 'bg-green-300 text-gray-900';
+  return 'bg-green-500 text-white';
+};
+
+export default function CheckInCalendar({ user, onBack }: CheckInCalendarProps) {
+  const [today, setToday] = useState<string | null>(null);
+  const [month, setMonth] = useState<string | null>(null);
+  const [checkIns, setCheckIns] = useState<{ [date: string]: CalendarCheckIn }>({});
+  const [selectedDay, setSelectedDay] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchDayContext(user.id).then(context => {
+      const recoveryDay = getRecoveryDay(context);
+      setToday(recoveryDay);
+      setMonth(getMonthStart(recoveryDay));
+    });
+  }, []);
+
+  useEffect(() => {
+    if (month) fetchMonth(month);
+  }, [month]);
+
+  const fetchMonth = async (monthStart: string) => {
+    const { data } = await supabase
+      .from('daily_checkins')
+      .select('id, date, mood_score, is_backfilled')
+      .eq('user_id', user.id)
+      .gte('date', monthStart)
+      .lt('date', addMonths(monthStart, 1));
+
+    const byDate: { [date: string]: CalendarCheckIn } = {};
+    (data || []).forEach(checkIn => {
+      byDate[checkIn.date] = checkIn;
+    });
+    setCheckIns(byDate);
+  };
+
+  if (!month || !today) {
+    return (
+      <div className="min-h-screen bg-gray-50 p-4">
+        <div className="max-w-4xl mx-auto">
+          <div className="flex items-center justify-center h-64">
+            <div className="text-lg text-gray-600">Loading your history...</div>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  // Leading blanks so the 1st lands on its weekday, then every day of the month
+  const nextMonth = addMonths(month, 1);
+  const days: (string | null)[] = Array(getWeekday(month)).fill(null);
+  for (let day = month; day < nextMonth; day = addDays(day, 1)) {
+    days.push(day);
+  }
+
+  if (selectedDay) {
+    return (
+      <div className="min-h-screen bg-gray-50 p-4">
+        <div className="max-w-2xl mx-auto">
+          <button
+            onClick={() => setSelectedDay(null)}
+            className="mb-4 text-blue-600 hover:text-blue-700 flex items-center"
+          >
+            ← Back to Calendar
+          </button>
+          <DailyCheckIn
+            key={selectedDay}
+            user={user}
+            date={selectedDay}
+            onComplete={() => {
+              fetchMonth(month);
+              setSelectedDay(null);
+            }}
+          />
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-4">
+      <div className="max-w-4xl mx-auto">
+        {/* Header */}
+        <div className="mb-8">
+          <button
+            onClick={onBack}
+            className="mb-4 text-blue-600 hover:text-blue-700 flex items-center"
+          >
+            ← Back to Dashboard
+          </button>
+          <h1 className="text-3xl font-bold text-gray-900">Check-In History</h1>
+          <p className="text-gray-600">Review, correct, or fill in any day</p>
+        </div>
+
+        <div className="bg-white rounded-lg shadow-md p-6">
+          {/* Month Navigation */}
+          <div className="flex items-center justify-between mb-6">
+            <button
+              onClick={() => setMonth(addMonths(month, -1))}
+              className="px-3 py-2 rounded-md text-gray-700 hover:bg-gray-100"
+            >
+              ← Previous
+            </button>
+            <h2 className="text-xl font-semibold text-gray-900">
+              {formatDay(month, { month: 'long', year: 'numeric' })}
+            </h2>
+            <button
+              onClick={() => setMonth(addMonths(month, 1))}
+              disabled={nextMonth > today}
+              className={`px-3 py-2 rounded-md ${
+                nextMonth > today ? 'text-gray-300 cursor-not-allowed' : 'text-gray-700 hover:bg-gray-100'
+              }`}
+            >
+              Next →
+            </button>
+          </div>
+
+          {/* Calendar Grid */}
+          <div className="grid grid-cols-7 gap-2">
+            {WEEKDAYS.map(weekday => (
+              <div key={weekday} className="text-center text-xs font-medium text-gray-500 pb-2">
+                {weekday}
+              </div>
+            ))}
+
+            {days.map((day, index) => {
+              if (!day) return <div key={`blank-${index}`} />;
+
+              const checkIn = checkIns[day];
+              const isFuture = day > today;
+
+              return (
+                <button
+                  key={day}
+                  onClick={() => setSelectedDay(day)}
+                  disabled={isFuture}
+                  title={checkIn ? `Mood ${checkIn.mood_score}/10` : isFuture ? undefined : 'No check-in'}
+                  className={`relative aspect-square rounded-lg text-sm font-medium transition-colors ${
+                    isFuture
+                      ? 'text-gray-300 cursor-not-allowed'
+                      : checkIn
+                        ? `${getMoodColor(checkIn.mood_score)} hover:opacity-80`
+                        : 'bg-gray-50 text-gray-500 border border-dashed border-gray-300 hover:bg-gray-100'
+                  } ${day === today ? 'ring-2 ring-blue-500' : ''}`}
+                >
+                  {parseInt(day.slice(8))}
+                  {checkIn?.is_backfilled && (
+                    <span className="absolute top-1 right-1 text-xs" title="Added later">✎</span>
+                  )}
+                </button>
+              );
+            })}
+          </div>
+
+          {/* Legend */}
+          <div className="mt-6 flex flex-wrap items-center gap-4 text-xs text-gray-600">
+            <span className="flex items-center"><span className="w-3 h-3 rounded bg-red-400 mr-1" />Low mood</span>
+            <span className="flex items-center"><span className="w-3 h-3 rounded bg-yellow-200 mr-1" />Okay</span>
+            <span className="flex items-center"><span className="w-3 h-3 rounded bg-green-500 mr-1" />Great</span>
+            <span className="flex items-center"><span className="w-3 h-3 rounded border border-dashed border-gray-300 mr-1" />Missed - tap to fill in</span>
+            <span>✎ Added later</span>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
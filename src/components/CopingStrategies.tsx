@@ -1,9 +1,39 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { supabase } from '@/lib/supabase';
 import { User } from '@supabase/auth-helpers-nextjs';
 import { toast } from 'sonner';
+import { queueStrategyUse } from '@/lib/offlineQueue';
+import { loadSnapshot, saveSnapshot } from '@/lib/offlineCache';
+import {
+  addReliefSample,
+  applyStrategyStats,
+  compareByEffectiveness,
+  fetchStrategyStats,
+  rateStrategy as saveRating
+} from '@/lib/strategies';
+import {
+  BREATHING_PRESETS,
+  BreathingPattern,
+  BreathingPhase,
+  BreathingPhaseKind,
+  DEFAULT_BREATHING_PATTERN,
+  describePattern,
+  getBreathingPattern,
+  getBreathingPosition,
+  getPhaseColor,
+  getPhaseLabel,
+  getPhaseStarts,
+  getTargetSeconds,
+  PHASE_KINDS
+} from '@/lib/breathing';
+import { useExerciseTimer } from '@/lib/exerciseTimer';
+import { Cue, isExerciseMuted, useCuePlayer, useCueSettings } from '@/lib/cues';
+import CueToggle from '@/components/CueToggle';
+import { ExerciseStep, getExerciseSteps, StepResponse } from '@/lib/exerciseSteps';
+import StepRunner from '@/components/StepRunner';
+import UrgeSurfer from '@/components/UrgeSurfer';
 
 interface CopingStrategy {
   id: string;
@@ -15,11 +45,17 @@ interface CopingStrategy {
   effectiveness_rating: number | null;
   usage_count: number;
   last_used: string | null;
+  average_relief: number | null;
+  relief_count: number;
+  breathing_pattern: BreathingPattern | null;
+  exercise_steps: ExerciseStep[] | null;
 }
 
 interface CopingStrategiesProps {
   user: User;
   onBack: () => void;
+  // Opened as soon as the list loads, e.g. from a check-in recommendation
+  initialStrategyId?: string | null;
 }
 
 const CATEGORY_ICONS = {
@@ -32,18 +68,34 @@ const CATEGORY_ICONS = {
   'Custom': '✨'
 };
 
-export default function CopingStrategies({ user, onBack }: CopingStrategiesProps) {
+export default function CopingStrategies({ user, onBack, initialStrategyId }: CopingStrategiesProps) {
   const [strategies, setStrategies] = useState<CopingStrategy[]>([]);
   const [loading, setLoading] = useState(true);
   const [selectedCategory, setSelectedCategory] = useState<string>('All');
   const [showAddForm, setShowAddForm] = useState(false);
   const [activeStrategy, setActiveStrategy] = useState<CopingStrategy | null>(null);
   const [showBreathingTimer, setShowBreathingTimer] = useState(false);
+  const [showStepRunner, setShowStepRunner] = useState(false);
+  const [showUrgeSurfer, setShowUrgeSurfer] = useState(false);
+  const [offlineCopyFrom, setOfflineCopyFrom] = useState<string | null>(null);
+  const [usageContext, setUsageContext] = useState('');
+  // SUDS prompt shown when a session starts or ends; either can be skipped
+  const [distressPrompt, setDistressPrompt] = useState<'before' | 'after' | null>(null);
+  const [session, setSession] = useState<{
+    startedAt: number;
+    distressBefore: number | null;
+    responses?: StepResponse[] | null;
+  } | null>(null);
 
   useEffect(() => {
     fetchStrategies();
   }, []);
 
+  // Keep the offline copy in step with new strategies, ratings and usage
+  useEffect(() => {
+    if (!loading && !offlineCopyFrom) saveSnapshot('coping_strategies', user.id, strategies);
+  }, [strategies, loading, offlineCopyFrom, user.id]);
+
   const fetchStrategies = async () => {
     const { data, error } = await supabase
       .from('coping_strategies')
@@ -53,64 +105,110 @@ export default function CopingStrategies({ user, onBack }: CopingStrategiesProps
       .order('category')
       .order('title');
 
-    if (data && !error) {
-      setStrategies(data);
-    }
-    setLoading(false);
-  };
+    // Without the usage history the counts would be wrong, so use the saved copy
+    const stats = data && !error ? await fetchStrategyStats(user.id).catch(() => null) : null;
 
-  const useStrategy = async (strategy: CopingStrategy) => {
-    // Only track usage for strategies that belong to the user or are default
-    if (strategy.user_id === user.id || strategy.user_id === null) {
-      const { error } = await supabase
-        .from('coping_strategies')
-        .update({
-          usage_count: strategy.usage_count + 1,
-          last_used: new Date().toISOString()
-        })
-        .eq('id', strategy.id);
-
-      if (!error) {
-        // Update local state
-        setStrategies(prev => prev.map(s => 
-          s.id === strategy.id 
-            ? { ...s, usage_count: s.usage_count + 1, last_used: new Date().toISOString() }
-            : s
-        ));
+    let loaded: CopingStrategy[] = [];
+    if (data && stats) {
+      loaded = applyStrategyStats(data, stats);
+    } else {
+      const snapshot = await loadSnapshot<CopingStrategy>('coping_strategies', user.id);
+      if (snapshot) {
+        loaded = snapshot.rows;
+        setOfflineCopyFrom(snapshot.saved_at);
       }
     }
+    setStrategies(loaded);
+    setLoading(false);
 
+    const initialStrategy = loaded.find(s => s.id === initialStrategyId);
+    if (initialStrategy) openStrategy(initialStrategy);
+  };
+
+  const openStrategy = (strategy: CopingStrategy) => {
     // Set as active strategy
     setActiveStrategy(strategy);
-    
+    setUsageContext('');
+    setSession(null);
+    setDistressPrompt('before');
+  };
+
+  const startSession = (distressBefore: number | null) => {
+    setSession({ startedAt: Date.now(), distressBefore });
+    setDistressPrompt(null);
+
     // Special handling for breathing exercises
-    if (strategy.category === 'Breathing') {
+    if (activeStrategy?.category === 'Breathing') {
       setShowBreathingTimer(true);
+    } else if (activeStrategy && getExerciseSteps(activeStrategy)) {
+      setShowStepRunner(true);
     }
   };
 
-  const rateStrategy = async (strategyId: string, rating: number) => {
-    const { error } = await supabase
-      .from('coping_strategies')
-      .update({ effectiveness_rating: rating })
-      .eq('id', strategyId)
-      .eq('user_id', user.id);
+  const finishSession = (distressAfter: number | null) => {
+    if (activeStrategy) recordUse(activeStrategy, distressAfter);
+    setDistressPrompt(null);
+    setSession(null);
+    setActiveStrategy(null);
+  };
 
-    if (error) {
-      toast.error('Failed to save rating');
-    } else {
+  // Each use goes into the user's own log; counts shown in the list come from it
+  const recordUse = async (strategy: CopingStrategy, distressAfter: number | null) => {
+    const usedAt = new Date().toISOString();
+    const distressBefore = session?.distressBefore ?? null;
+    const durationSeconds = session ? Math.round((Date.now() - session.startedAt) / 1000) : null;
+
+    try {
+      // Queued locally so usage still counts when the strategy is used offline
+      await queueStrategyUse({
+        user_id: user.id,
+        strategy_id: strategy.id,
+        used_at: usedAt,
+        context: usageContext.trim() || null,
+        distress_before: distressBefore,
+        distress_after: distressAfter,
+        duration_seconds: durationSeconds,
+        responses: session?.responses || null
+      });
+
+      // Update local state
+      setStrategies(prev => prev.map(s => {
+        if (s.id !== strategy.id) return s;
+        const used = { ...s, usage_count: s.usage_count + 1, last_used: usedAt };
+        return distressBefore !== null && distressAfter !== null
+          ? { ...used, ...addReliefSample(used, distressBefore, distressAfter) }
+          : used;
+      }));
+
+      if (distressBefore !== null && distressAfter !== null && distressAfter < distressBefore) {
+        toast.success(`Strategy marked as used! Distress down ${distressBefore - distressAfter} points.`);
+      } else {
+        toast.success('Strategy marked as used!');
+      }
+    } catch {
+      toast.error('Failed to record strategy use');
+    }
+  };
+
+  const rateStrategy = async (strategyId: string, rating: number) => {
+    try {
+      await saveRating(user.id, strategyId, rating);
       setStrategies(prev => prev.map(s => 
         s.id === strategyId ? { ...s, effectiveness_rating: rating } : s
       ));
+      setActiveStrategy(prev => prev && prev.id === strategyId ? { ...prev, effectiveness_rating: rating } : prev);
       toast.success('Rating saved!');
+    } catch {
+      toast.error('Failed to save rating');
     }
   };
 
   const categories = ['All', ...new Set(strategies.map(s => s.category))];
   
-  const filteredStrategies = selectedCategory === 'All' 
+  const filteredStrategies = (selectedCategory === 'All' 
     ? strategies 
-    : strategies.filter(s => s.category === selectedCategory);
+    : strategies.filter(s => s.category === selectedCategory)
+  ).slice().sort(compareByEffectiveness);
 
   if (loading) {
     return (
@@ -126,12 +224,34 @@ export default function CopingStrategies({ user, onBack }: CopingStrategiesProps
 
   // Breathing Timer Modal
   if (showBreathingTimer && activeStrategy) {
-    return <BreathingTimer strategy={activeStrategy} onClose={() => {
+    return <BreathingTimer userId={user.id} strategy={activeStrategy} onClose={(cycles) => {
       setShowBreathingTimer(false);
-      setActiveStrategy(null);
+      if (cycles > 0) {
+        setDistressPrompt('after');
+      } else {
+        setActiveStrategy(null);
+      }
     }} />;
   }
 
+  // Guided walkthrough for multi-step strategies
+  const exerciseSteps = activeStrategy && getExerciseSteps(activeStrategy);
+  if (showStepRunner && activeStrategy && exerciseSteps) {
+    return (
+      <StepRunner
+        userId={user.id}
+        title={activeStrategy.title}
+        steps={exerciseSteps}
+        onCancel={() => setShowStepRunner(false)}
+        onFinish={(responses) => {
+          setShowStepRunner(false);
+          setSession(prev => prev ? { ...prev, responses } : { startedAt: Date.now(), distressBefore: null, responses });
+          setDistressPrompt('after');
+        }}
+      />
+    );
+  }
+
   // Strategy Detail View
   if (activeStrategy && !showBreathingTimer) {
     return (
@@ -159,45 +279,66 @@ export default function CopingStrategies({ user, onBack }: CopingStrategiesProps
               <p className="text-gray-700 leading-relaxed whitespace-pre-line">
                 {activeStrategy.description}
               </p>
+              {activeStrategy.category === 'Breathing' && (
+                <p className="text-sm text-gray-500 mt-2">
+                  Pattern: {describePattern(getBreathingPattern(activeStrategy))}
+                </p>
+              )}
             </div>
 
             {/* Usage Stats */}
             <div className="bg-gray-50 rounded-lg p-4 mb-6">
-              <div className="grid grid-cols-2 gap-4 text-center">
+              <div className="grid grid-cols-3 gap-4 text-center">
                 <div>
                   <p className="text-2xl font-bold text-blue-600">{activeStrategy.usage_count}</p>
                   <p className="text-sm text-gray-600">Times Used</p>
                 </div>
+                <div>
+                  <p className="text-2xl font-bold text-purple-600">
+                    {activeStrategy.average_relief !== null ? `↓ ${activeStrategy.average_relief.toFixed(1)}` : '—'}
+                  </p>
+                  <p className="text-sm text-gray-600">Avg Distress Relief</p>
+                </div>
                 <div>
                   <p className="text-2xl font-bold text-green-600">
                     {activeStrategy.effectiveness_rating ? `${activeStrategy.effectiveness_rating}/5` : 'Not rated'}
                   </p>
-                  <p className="text-sm text-gray-600">Effectiveness</p>
+                  <p className="text-sm text-gray-600">Your Rating</p>
                 </div>
               </div>
             </div>
 
             {/* Rating */}
-            {activeStrategy.user_id === user.id && (
-              <div className="mb-6">
-                <p className="text-sm font-medium text-gray-700 mb-2">Rate this strategy's effectiveness:</p>
-                <div className="flex space-x-2">
-                  {[1, 2, 3, 4, 5].map((rating) => (
-                    <button
-                      key={rating}
-                      onClick={() => rateStrategy(activeStrategy.id, rating)}
-                      className={`w-8 h-8 rounded-full border-2 transition-colors ${
-                        activeStrategy.effectiveness_rating && rating <= activeStrategy.effectiveness_rating
-                          ? 'bg-yellow-400 border-yellow-400'
-                          : 'border-gray-300 hover:border-yellow-400'
-                      }`}
-                    >
-                      ⭐
-                    </button>
-                  ))}
-                </div>
+            <div className="mb-6">
+              <p className="text-sm font-medium text-gray-700 mb-2">Rate this strategy's effectiveness:</p>
+              <div className="flex space-x-2">
+                {[1, 2, 3, 4, 5].map((rating) => (
+                  <button
+                    key={rating}
+                    onClick={() => rateStrategy(activeStrategy.id, rating)}
+                    className={`w-8 h-8 rounded-full border-2 transition-colors ${
+                      activeStrategy.effectiveness_rating && rating <= activeStrategy.effectiveness_rating
+                        ? 'bg-yellow-400 border-yellow-400'
+                        : 'border-gray-300 hover:border-yellow-400'
+                    }`}
+                  >
+                    ⭐
+                  </button>
+                ))}
               </div>
-            )}
+            </div>
+
+            {/* Usage Context */}
+            <div className="mb-6">
+              <label className="block text-sm font-medium text-gray-700 mb-2">What&apos;s going on right now? (optional)</label>
+              <textarea
+                value={usageContext}
+                onChange={(e) => setUsageContext(e.target.value)}
+                rows={2}
+                placeholder="e.g. Craving after a hard call with family"
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 resize-none"
+              />
+            </div>
 
             {/* Action Buttons */}
             <div className="flex space-x-4">
@@ -209,6 +350,15 @@ export default function CopingStrategies({ user, onBack }: CopingStrategiesProps
                   Start Breathing Exercise
                 </button>
               )}
+
+              {exerciseSteps && activeStrategy.category !== 'Breathing' && (
+                <button
+                  onClick={() => setShowStepRunner(true)}
+                  className="flex-1 bg-blue-600 text-white py-3 px-4 rounded-md hover:bg-blue-700 font-medium"
+                >
+                  Start Guided Walkthrough
+                </button>
+              )}
               
               {activeStrategy.category === 'Emergency' && (
                 <button
@@ -223,10 +373,7 @@ export default function CopingStrategies({ user, onBack }: CopingStrategiesProps
               )}
               
               <button
-                onClick={() => {
-                  toast.success('Strategy marked as used!');
-                  setActiveStrategy(null);
-                }}
+                onClick={() => setDistressPrompt('after')}
                 className="flex-1 bg-green-600 text-white py-3 px-4 rounded-md hover:bg-green-700 font-medium"
               >
                 Mark as Used
@@ -234,6 +381,13 @@ export default function CopingStrategies({ user, onBack }: CopingStrategiesProps
             </div>
           </div>
         </div>
+
+        {distressPrompt && (
+          <DistressPrompt
+            title={distressPrompt === 'before' ? 'Before you start' : 'How about now?'}
+            onSubmit={distressPrompt === 'before' ? startSession : finishSession}
+          />
+        )}
       </div>
     );
   }
@@ -254,14 +408,30 @@ export default function CopingStrategies({ user, onBack }: CopingStrategiesProps
             <p className="text-gray-600">Your toolkit for managing difficult moments</p>
           </div>
           
-          <button
-            onClick={() => setShowAddForm(true)}
-            className="bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700"
-          >
-            + Add Custom Strategy
-          </button>
+          <div className="flex space-x-2">
+            <button
+              onClick={() => setShowUrgeSurfer(true)}
+              className="bg-sky-600 text-white px-4 py-2 rounded-md hover:bg-sky-700"
+            >
+              🌊 Urge Surfing
+            </button>
+            <button
+              onClick={() => setShowAddForm(true)}
+              className="bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700"
+            >
+              + Add Custom Strategy
+            </button>
+          </div>
         </div>
 
+        {offlineCopyFrom && (
+          <div className="mb-6 p-4 bg-yellow-50 border border-yellow-200 rounded-md">
+            <p className="text-yellow-800 text-sm">
+              📴 You are offline. Showing the strategies saved on this device on {new Date(offlineCopyFrom).toLocaleString()}.
+            </p>
+          </div>
+        )}
+
         {/* Emergency Quick Access */}
         <div className="bg-red-50 border border-red-200 rounded-lg p-4 mb-6">
           <div className="flex items-center">
@@ -274,7 +444,7 @@ export default function CopingStrategies({ user, onBack }: CopingStrategiesProps
               <button 
                 onClick={() => {
                   const breathingStrategy = strategies.find(s => s.category === 'Breathing');
-                  if (breathingStrategy) useStrategy(breathingStrategy);
+                  if (breathingStrategy) openStrategy(breathingStrategy);
                 }}
                 className="bg-red-600 text-white px-3 py-1 rounded text-sm hover:bg-red-700"
               >
@@ -283,7 +453,7 @@ export default function CopingStrategies({ user, onBack }: CopingStrategiesProps
               <button 
                 onClick={() => {
                   const groundingStrategy = strategies.find(s => s.category === 'Grounding');
-                  if (groundingStrategy) useStrategy(groundingStrategy);
+                  if (groundingStrategy) openStrategy(groundingStrategy);
                 }}
                 className="bg-red-600 text-white px-3 py-1 rounded text-sm hover:bg-red-700"
               >
@@ -318,7 +488,7 @@ export default function CopingStrategies({ user, onBack }: CopingStrategiesProps
             <div
               key={strategy.id}
               className="bg-white rounded-lg shadow-md p-6 hover:shadow-lg transition-shadow cursor-pointer"
-              onClick={() => useStrategy(strategy)}
+              onClick={() => openStrategy(strategy)}
             >
               <div className="flex items-start justify-between mb-3">
                 <span className="text-3xl">
@@ -337,7 +507,13 @@ export default function CopingStrategies({ user, onBack }: CopingStrategiesProps
               </p>
               
               <div className="flex items-center justify-between text-xs text-gray-500">
-                <span>Used {strategy.usage_count} times</span>
+                <span>
+                  Used {strategy.usage_count} times
+                  {strategy.last_used && ` • Last ${new Date(strategy.last_used).toLocaleDateString()}`}
+                </span>
+                {strategy.average_relief !== null && (
+                  <span className="text-purple-600">↓ {strategy.average_relief.toFixed(1)} relief</span>
+                )}
                 {strategy.effectiveness_rating && (
                   <div className="flex items-center">
                     <span className="mr-1">⭐</span>
@@ -361,91 +537,169 @@ export default function CopingStrategies({ user, onBack }: CopingStrategiesProps
             }}
           />
         )}
+
+        {/* Urge Surfing */}
+        {showUrgeSurfer && (
+          <UrgeSurfer user={user} onClose={() => setShowUrgeSurfer(false)} />
+        )}
       </div>
     </div>
   );
 }
 
-// Breathing Timer Component
-function BreathingTimer({ strategy, onClose }: { strategy: CopingStrategy; onClose: () => void }) {
-  const [phase, setPhase] = useState<'inhale' | 'hold1' | 'exhale' | 'hold2'>('inhale');
-  const [count, setCount] = useState(4);
-  const [isActive, setIsActive] = useState(false);
-  const [cycles, setCycles] = useState(0);
+// SUDS (Subjective Units of Distress) prompt, 0 = calm, 10 = worst imaginable
+function DistressPrompt({ title, onSubmit }: { title: string; onSubmit: (score: number | null) => void }) {
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg shadow-xl p-6 max-w-md w-full">
+        <h3 className="text-lg font-semibold text-gray-900 mb-1">{title}</h3>
+        <p className="text-gray-600 mb-4">How distressed do you feel right now?</p>
+
+        <div className="grid grid-cols-11 gap-1 mb-2">
+          {Array.from({ length: 11 }, (_, score) => (
+            <button
+              key={score}
+              onClick={() => onSubmit(score)}
+              className="py-2 rounded-md border border-gray-300 text-sm font-medium text-gray-700 hover:bg-blue-50 hover:border-blue-400"
+            >
+              {score}
+            </button>
+          ))}
+        </div>
+        <div className="flex justify-between text-xs text-gray-500 mb-6">
+          <span>Calm</span>
+          <span>Worst imaginable</span>
+        </div>
 
+        <button
+          onClick={() => onSubmit(null)}
+          className="w-full bg-gray-600 text-white py-2 px-4 rounded-md hover:bg-gray-700"
+        >
+          Skip
+        </button>
+      </div>
+    </div>
+  );
+}
+
+// Background tabs may only run timers once a minute, so stay well ahead of that
+const CUE_LOOKAHEAD_SECONDS = 3 * 60;
+const CUE_TOP_UP_MS = 30 * 1000;
+
+// Cues for the phase changes between two points in a session, timed from `current`
+const getPhaseCues = (pattern: BreathingPattern, from: number, until: number, current: number): Cue[] =>
+  getPhaseStarts(pattern, from, until)
+    .map(({ at, phase }) => ({ in: at - current, kind: phase.kind, label: getPhaseLabel(phase) }));
+
+// Breathing Timer Component
+function BreathingTimer({ userId, strategy, onClose }: {
+  userId: string;
+  strategy: CopingStrategy;
+  onClose: (cycles: number) => void;
+}) {
+  const pattern = useMemo(() => getBreathingPattern(strategy), [strategy]);
+  const targetSeconds = getTargetSeconds(pattern);
+  const timer = useExerciseTimer({ limitMs: targetSeconds !== null ? targetSeconds * 1000 : null });
+  const { settings: cueSettings, toggleMuted } = useCueSettings(userId);
+  const cues = useCuePlayer();
+  const cuesOn = !isExerciseMuted(cueSettings, 'breathing');
+
+  const elapsed = timer.elapsedMs / 1000;
+  const isComplete = targetSeconds !== null && elapsed >= targetSeconds;
+  const position = getBreathingPosition(pattern, elapsed);
+
+  // Queue phase changes ahead so cues keep time with the screen dimmed. Timed
+  // sessions are queued whole. Open-ended ones are topped up from a timer
+  // rather than from renders, which stop with the screen.
+  const { isRunning, now } = timer;
   useEffect(() => {
-    let interval: NodeJS.Timeout | null = null;
-    
-    if (isActive && count > 0) {
-      interval = setInterval(() => {
-        setCount(count - 1);
-      }, 1000);
-    } else if (isActive && count === 0) {
-      // Move to next phase
-      const phases: Array<'inhale' | 'hold1' | 'exhale' | 'hold2'> = ['inhale', 'hold1', 'exhale', 'hold2'];
-      const currentIndex = phases.indexOf(phase);
-      const nextIndex = (currentIndex + 1) % phases.length;
-      
-      if (nextIndex === 0) {
-        setCycles(prev => prev + 1);
-      }
-      
-      setPhase(phases[nextIndex]);
-      setCount(4);
+    if (!isRunning || !cuesOn) {
+      cues.cancel();
+      return;
     }
-    
+
+    const from = now() / 1000;
+    if (targetSeconds !== null) {
+      const upcoming = getPhaseCues(pattern, from, targetSeconds, from);
+      upcoming.push({ in: targetSeconds - from, kind: 'done', label: 'Well done' });
+      cues.schedule(upcoming, cueSettings);
+      return;
+    }
+
+    let scheduledUntil = from + CUE_LOOKAHEAD_SECONDS;
+    cues.schedule(getPhaseCues(pattern, from, scheduledUntil, from), cueSettings);
+
+    const topUp = () => {
+      const current = now() / 1000;
+      cues.append(getPhaseCues(pattern, scheduledUntil, current + CUE_LOOKAHEAD_SECONDS, current), cueSettings);
+      scheduledUntil = current + CUE_LOOKAHEAD_SECONDS;
+    };
+    const interval = setInterval(topUp, CUE_TOP_UP_MS);
+    document.addEventListener('visibilitychange', topUp);
     return () => {
-      if (interval) clearInterval(interval);
+      clearInterval(interval);
+      document.removeEventListener('visibilitychange', topUp);
     };
-  }, [isActive, count, phase]);
-
-  const getPhaseInstruction = () => {
-    switch (phase) {
-      case 'inhale': return 'Breathe In';
-      case 'hold1': return 'Hold';
-      case 'exhale': return 'Breathe Out';
-      case 'hold2': return 'Hold';
-    }
-  };
+  }, [isRunning, cuesOn, cueSettings, pattern, targetSeconds, cues, now]);
 
-  const getPhaseColor = () => {
-    switch (phase) {
-      case 'inhale': return 'bg-blue-500';
-      case 'hold1': return 'bg-yellow-500';
-      case 'exhale': return 'bg-green-500';
-      case 'hold2': return 'bg-purple-500';
-    }
-  };
+  const phase = pattern.phases[position.phaseIndex];
+  const isActive = timer.isRunning;
+
+  const formatClock = (seconds: number) =>
+    `${Math.floor(seconds / 60)}:${String(Math.floor(seconds % 60)).padStart(2, '0')}`;
 
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
       <div className="bg-white rounded-lg shadow-xl p-8 max-w-md w-full text-center">
         <h2 className="text-2xl font-bold text-gray-900 mb-2">{strategy.title}</h2>
-        <p className="text-gray-600 mb-8">Focus on your breathing</p>
+        <p className="text-gray-600 mb-2">{describePattern(pattern)}</p>
+        <div className="mb-6">
+          <CueToggle settings={cueSettings} exercise="breathing" onToggle={toggleMuted} />
+        </div>
         
-        <div className={`w-32 h-32 mx-auto rounded-full ${getPhaseColor()} flex items-center justify-center mb-6 transition-all duration-1000`}>
+        <div className={`w-32 h-32 mx-auto rounded-full ${isComplete ? 'bg-gray-400' : getPhaseColor(phase)} flex items-center justify-center mb-6 transition-all duration-1000`}>
           <div className="text-white">
-            <div className="text-3xl font-bold">{count}</div>
-            <div className="text-sm">{getPhaseInstruction()}</div>
+            {isComplete ? (
+              <div className="text-lg font-bold">Well done</div>
+            ) : (
+              <>
+                <div className="text-3xl font-bold">{Math.ceil(position.remaining - 0.001)}</div>
+                <div className="text-sm">{getPhaseLabel(phase)}</div>
+              </>
+            )}
           </div>
         </div>
         
-        <p className="text-gray-600 mb-6">Cycles completed: {cycles}</p>
+        <p className="text-gray-600 mb-6">
+          {pattern.target_seconds
+            ? `Time: ${formatClock(elapsed)} / ${formatClock(pattern.target_seconds)}`
+            : `Cycles completed: ${position.cycles}${pattern.target_cycles ? ` / ${pattern.target_cycles}` : ''}`}
+        </p>
         
         <div className="flex space-x-4">
-          <button
-            onClick={() => setIsActive(!isActive)}
-            className={`flex-1 py-3 px-4 rounded-md font-medium ${
-              isActive 
-                ? 'bg-yellow-600 text-white hover:bg-yellow-700' 
-                : 'bg-green-600 text-white hover:bg-green-700'
-            }`}
-          >
-            {isActive ? 'Pause' : 'Start'}
-          </button>
+          {!isComplete && (
+            <button
+              onClick={() => {
+                if (isActive) {
+                  timer.pause();
+                } else {
+                  cues.unlock();
+                  timer.start();
+                }
+              }}
+              className={`flex-1 py-3 px-4 rounded-md font-medium ${
+                isActive 
+                  ? 'bg-yellow-600 text-white hover:bg-yellow-700' 
+                  : 'bg-green-600 text-white hover:bg-green-700'
+              }`}
+            >
+              {isActive ? 'Pause' : elapsed > 0 ? 'Resume' : 'Start'}
+            </button>
+          )}
           
           <button
-            onClick={onClose}
+            // A timed session that ran its course counts even if it ended mid-cycle
+            onClick={() => onClose(isComplete ? pattern.target_cycles || Math.max(position.cycles, 1) : position.cycles)}
             className="flex-1 bg-gray-600 text-white py-3 px-4 rounded-md hover:bg-gray-700 font-medium"
           >
             Done
@@ -456,6 +710,115 @@ function BreathingTimer({ strategy, onClose }: { strategy: CopingStrategy; onClo
   );
 }
 
+// Breathing Pattern Editor (custom Breathing strategies)
+function BreathingPatternEditor({ pattern, onChange }: {
+  pattern: BreathingPattern;
+  onChange: (pattern: BreathingPattern) => void;
+}) {
+  const targetType = pattern.target_seconds ? 'minutes' : pattern.target_cycles ? 'cycles' : 'none';
+
+  const updatePhase = (index: number, changes: Partial<BreathingPhase>) => {
+    onChange({ ...pattern, phases: pattern.phases.map((p, i) => i === index ? { ...p, ...changes } : p) });
+  };
+
+  const setTarget = (type: string, value: number) => {
+    onChange({
+      ...pattern,
+      target_cycles: type === 'cycles' ? value : null,
+      target_seconds: type === 'minutes' ? value * 60 : null
+    });
+  };
+
+  return (
+    <div className="border border-gray-200 rounded-md p-3 space-y-3">
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">Start from</label>
+        <div className="flex flex-wrap gap-2">
+          {BREATHING_PRESETS.map(preset => (
+            <button
+              key={preset.id}
+              type="button"
+              onClick={() => onChange(preset.pattern)}
+              className="px-2 py-1 text-xs rounded border border-gray-300 text-gray-700 hover:bg-blue-50 hover:border-blue-400"
+            >
+              {preset.name}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">Phases (seconds)</label>
+        <div className="space-y-2">
+          {pattern.phases.map((phase, index) => (
+            <div key={index} className="flex items-center space-x-2">
+              <select
+                value={phase.kind}
+                onChange={(e) => updatePhase(index, { kind: e.target.value as BreathingPhaseKind })}
+                className="flex-1 px-2 py-1 border border-gray-300 rounded-md text-sm"
+              >
+                {PHASE_KINDS.map(kind => (
+                  <option key={kind.value} value={kind.value}>{kind.label}</option>
+                ))}
+              </select>
+              <input
+                type="number"
+                min="0.5"
+                max="60"
+                step="0.5"
+                value={phase.seconds}
+                onChange={(e) => updatePhase(index, { seconds: parseFloat(e.target.value) || 0 })}
+                className="w-20 px-2 py-1 border border-gray-300 rounded-md text-sm"
+                required
+              />
+              <button
+                type="button"
+                onClick={() => onChange({ ...pattern, phases: pattern.phases.filter((_, i) => i !== index) })}
+                disabled={pattern.phases.length <= 1}
+                className="text-red-600 hover:text-red-700 text-sm disabled:text-gray-300"
+              >
+                ✕
+              </button>
+            </div>
+          ))}
+        </div>
+        <button
+          type="button"
+          onClick={() => onChange({ ...pattern, phases: [...pattern.phases, { kind: 'inhale', seconds: 4 }] })}
+          className="mt-2 text-sm text-blue-600 hover:text-blue-700"
+        >
+          + Add phase
+        </button>
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">Session length</label>
+        <div className="flex space-x-2">
+          <select
+            value={targetType}
+            onChange={(e) => setTarget(e.target.value, 5)}
+            className="flex-1 px-2 py-1 border border-gray-300 rounded-md text-sm"
+          >
+            <option value="cycles">Number of cycles</option>
+            <option value="minutes">Minutes</option>
+            <option value="none">Until I stop</option>
+          </select>
+          {targetType !== 'none' && (
+            <input
+              type="number"
+              min="1"
+              max="60"
+              value={targetType === 'minutes' ? (pattern.target_seconds || 0) / 60 : pattern.target_cycles || 0}
+              onChange={(e) => setTarget(targetType, parseInt(e.target.value) || 1)}
+              className="w-20 px-2 py-1 border border-gray-300 rounded-md text-sm"
+            />
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
 // Add Custom Strategy Form
 function AddStrategyForm({ user, onClose, onAdd }: { 
   user: User; 
@@ -467,6 +830,7 @@ function AddStrategyForm({ user, onClose, onAdd }: {
     description: '',
     category: 'Custom'
   });
+  const [breathingPattern, setBreathingPattern] = useState<BreathingPattern>(DEFAULT_BREATHING_PATTERN);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -479,7 +843,8 @@ function AddStrategyForm({ user, onClose, onAdd }: {
         description: formData.description,
         category: formData.category,
         is_custom: true,
-        usage_count: 0
+        usage_count: 0,
+        breathing_pattern: formData.category === 'Breathing' ? breathingPattern : null
       }])
       .select()
       .single();
@@ -487,7 +852,7 @@ function AddStrategyForm({ user, onClose, onAdd }: {
     if (error) {
       toast.error('Failed to add strategy');
     } else {
-      onAdd(data);
+      onAdd(applyStrategyStats([data], {})[0]);
     }
   };
 
@@ -523,6 +888,10 @@ function AddStrategyForm({ user, onClose, onAdd }: {
               <option value="Distraction">Distraction</option>
             </select>
           </div>
+
+          {formData.category === 'Breathing' && (
+            <BreathingPatternEditor pattern={breathingPattern} onChange={setBreathingPattern} />
+          )}
           
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-1">Description</label>
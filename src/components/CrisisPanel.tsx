@@ -0,0 +1,201 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { toast } from 'sonner';
+import { fetchDefaultCallingCode, getDefaultCallingCode, getNationalNumber, getSmsHref, getTelHref } from '@/lib/phone';
+import { DEFAULT_DAY_CONTEXT, fetchDayContext, getBrowserTimezone } from '@/lib/recoveryDay';
+import { EmergencyContact, fetchEmergencyContacts } from '@/lib/contacts';
+import { getReachability, sortByReachability } from '@/lib/availability';
+import { getMessageTemplates, startContactAttempt } from '@/lib/contactAttempts';
+import ReachabilityBadge from '@/components/ReachabilityBadge';
+import {
+  CrisisHotline,
+  fetchHotlineCountry,
+  formatHotlineNumber,
+  formatHotlineText,
+  getCountryFromTimezone,
+  getHotlines,
+  HOTLINE_COUNTRIES,
+  HOTLINE_FINDER_URL,
+  HOTLINE_SERVICE_LABELS,
+  HotlineCountry
+} from '@/lib/hotlines';
+
+interface CrisisPanelProps {
+  userId: string;
+  onClose: () => void;
+  // Shown above the hotlines when something specific prompted the panel
+  message?: string;
+  onOpenSafetyPlan?: () => void;
+}
+
+const openHotline = (hotline: CrisisHotline, channel: 'call' | 'sms') => {
+  const dialable = getNationalNumber(channel === 'sms' ? hotline.text_number || hotline.phone : hotline.phone);
+  if (!dialable) {
+    toast.error(`Couldn't open ${hotline.name}`, { description: hotline.phone });
+    return;
+  }
+  window.location.href = channel === 'call' ? getTelHref(dialable) : getSmsHref(dialable, hotline.text);
+};
+
+export default function CrisisPanel({ userId, onClose, message, onOpenSafetyPlan }: CrisisPanelProps) {
+  // Start from the device timezone so numbers show instantly, even offline
+  const [country, setCountry] = useState<HotlineCountry | null>(() => getCountryFromTimezone(getBrowserTimezone()));
+  const [contacts, setContacts] = useState<EmergencyContact[]>([]);
+  const [callingCode, setCallingCode] = useState(() => getDefaultCallingCode(getBrowserTimezone()));
+  const [now] = useState(() => new Date());
+  const [timezone, setTimezone] = useState(DEFAULT_DAY_CONTEXT.timezone);
+
+  useEffect(() => {
+    fetchHotlineCountry(userId).then(setCountry);
+    fetchEmergencyContacts(userId).then(result => setContacts(result.contacts));
+    fetchDayContext(userId).then(context => setTimezone(context.timezone));
+    fetchDefaultCallingCode(userId).then(setCallingCode);
+  }, [userId]);
+
+  // Everyone who can be reached now, else the best few to try anyway. Like the
+  // SOS chain, this skips priority 5 ("info only") contacts.
+  const sorted = sortByReachability(contacts.filter(contact => contact.priority_level < 5), timezone, now);
+  const reachable = sorted.filter(contact => getReachability(contact, timezone, now) === 'available');
+  const people = (reachable.length > 0 ? reachable : sorted).slice(0, 3);
+
+  const reachOut = (contact: EmergencyContact, channel: 'call' | 'sms') => {
+    const message = channel === 'sms' ? getMessageTemplates(contact)[0] : undefined;
+    if (!startContactAttempt(userId, contact, channel, callingCode, message)) {
+      toast.error('Invalid phone number', { description: `Check the number saved for ${contact.name}` });
+    }
+  };
+
+  const countryName = HOTLINE_COUNTRIES.find(c => c.code === country)?.name;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg shadow-xl p-6 max-w-md w-full max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center mb-4">
+          <span className="text-3xl mr-3">🚨</span>
+          <h2 className="text-xl font-bold text-gray-900">Crisis Support</h2>
+        </div>
+
+        {message && (
+          <p className="text-gray-900 font-medium mb-3">{message}</p>
+        )}
+
+        <p className="text-gray-600 mb-6">
+          If you&apos;re in immediate danger or having thoughts of self-harm, please reach out for help immediately.
+        </p>
+
+        {onOpenSafetyPlan && (
+          <button
+            onClick={onOpenSafetyPlan}
+            className="w-full mb-4 bg-blue-600 text-white py-3 px-4 rounded-md hover:bg-blue-700 font-medium"
+          >
+            📋 Open My Safety Plan
+          </button>
+        )}
+
+        {people.length > 0 && (
+          <div className="mb-6">
+            <h3 className="font-medium text-gray-900 mb-2">
+              {reachable.length > 0 ? 'Your People Available Now' : 'Your People'}
+            </h3>
+            <div className="space-y-2">
+              {people.map((contact) => (
+                <div key={contact.id} className="border border-blue-200 rounded-lg p-3 flex items-center justify-between">
+                  <div>
+                    <p className="font-medium text-gray-900">{contact.name}</p>
+                    <ReachabilityBadge contact={contact} timezone={timezone} now={now} />
+                  </div>
+                  <div className="flex flex-col space-y-1">
+                    <button
+                      onClick={() => reachOut(contact, 'call')}
+                      className="bg-green-600 text-white px-3 py-2 rounded-md hover:bg-green-700 text-sm"
+                    >
+                      Call
+                    </button>
+                    <button
+                      onClick={() => reachOut(contact, 'sms')}
+                      className="bg-blue-600 text-white px-3 py-2 rounded-md hover:bg-blue-700 text-sm"
+                    >
+                      Text
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <p className="text-xs text-gray-500 mb-2">
+          {countryName
+            ? `Showing lines for ${countryName}. You can change this in Settings.`
+            : 'We don’t have local lines for your region yet. Set your country in Settings.'}
+        </p>
+
+        <div className="space-y-3 mb-4">
+          {getHotlines(country).map((hotline, index) => (
+            <div key={index} className="border border-gray-200 rounded-lg p-3">
+              <div className="flex items-center justify-between">
+                <div>
+                  <div className="flex items-center">
+                    <p className="font-medium text-gray-900">{hotline.name}</p>
+                    <span className="ml-2 text-xs px-2 py-0.5 rounded bg-gray-100 text-gray-700">
+                      {HOTLINE_SERVICE_LABELS[hotline.service]}
+                    </span>
+                  </div>
+                  <p className="text-sm text-gray-600">{hotline.description}</p>
+                  <p className="text-lg font-bold text-blue-600 mt-1">{formatHotlineNumber(hotline)}</p>
+                  <p className="text-xs text-gray-500">
+                    {hotline.hours}
+                    {hotline.text !== undefined && !hotline.textOnly && ` · ${formatHotlineText(hotline)}`}
+                  </p>
+                  {hotline.chat_url && (
+                    <a
+                      href={hotline.chat_url}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="text-xs text-blue-600 hover:text-blue-700 underline"
+                    >
+                      Chat online
+                    </a>
+                  )}
+                </div>
+                <div className="flex flex-col space-y-1">
+                  {!hotline.textOnly && (
+                    <button
+                      onClick={() => openHotline(hotline, 'call')}
+                      className="bg-red-600 text-white px-3 py-2 rounded-md hover:bg-red-700 text-sm"
+                    >
+                      Call
+                    </button>
+                  )}
+                  {hotline.text !== undefined && (
+                    <button
+                      onClick={() => openHotline(hotline, 'sms')}
+                      className="bg-blue-600 text-white px-3 py-2 rounded-md hover:bg-blue-700 text-sm"
+                    >
+                      Text
+                    </button>
+                  )}
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <p className="text-sm text-gray-600 mb-6">
+          Somewhere else?{' '}
+          <a href={HOTLINE_FINDER_URL} target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:text-blue-700 underline">
+            Find a helpline in your country
+          </a>
+        </p>
+
+        <button
+          onClick={onClose}
+          className="w-full bg-gray-600 text-white py-2 px-4 rounded-md hover:bg-gray-700"
+        >
+          Close
+        </button>
+      </div>
+    </div>
+  );
+}
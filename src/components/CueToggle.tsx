@@ -0,0 +1,25 @@
+'use client';
+
+import { CueExercise, CueSettings, isExerciseMuted } from '@/lib/cues';
+
+interface CueToggleProps {
+  settings: CueSettings;
+  exercise: CueExercise;
+  onToggle: (exercise: CueExercise) => void;
+}
+
+// Per-exercise switch for sound and vibration cues
+export default function CueToggle({ settings, exercise, onToggle }: CueToggleProps) {
+  const muted = isExerciseMuted(settings, exercise) || (settings.sound === 'off' && !settings.vibrate);
+
+  return (
+    <button
+      type="button"
+      onClick={() => onToggle(exercise)}
+      title={muted ? 'Turn cues on' : 'Turn cues off'}
+      className="text-sm px-2 py-1 rounded border border-gray-300 text-gray-600 hover:bg-gray-50"
+    >
+      {muted ? '🔇 Cues off' : '🔊 Cues on'}
+    </button>
+  );
+}
@@ -4,63 +4,113 @@ import { useState, useEffect } from 'react';
 import { supabase } from '@/lib/supabase';
 import { User } from '@supabase/auth-helpers-nextjs';
 import { toast } from 'sonner';
+import { DayContext, fetchDayContext, formatDay, getRecoveryDay } from '@/lib/recoveryDay';
+import { fetchTriggers, Trigger } from '@/lib/triggers';
+import TriggerPicker from '@/components/TriggerPicker';
+import { getQueuedWrites, queueCheckIn } from '@/lib/offlineQueue';
+import { fetchRecommendations, Recommendation } from '@/lib/recommendations';
 
 interface CheckInData {
   mood_score: number;
   energy_level: number;
   sleep_quality: number;
-  trigger_tags: string[];
+  trigger_ids: string[];
+  craving_frequency: number;
+  craving_peak_intensity: number;
+  craving_peak_time: CravingTime | null;
+  craving_acted_on: boolean | null;
   gratitude_note: string;
   notes: string;
 }
 
+type CravingTime = 'morning' | 'afternoon' | 'evening' | 'night';
+
 interface DailyCheckInProps {
   user: User;
+  // Recovery day to check in for; defaults to today
+  date?: string;
   onComplete?: () => void;
+  onManageTriggers?: () => void;
+  onOpenStrategy?: (strategyId: string) => void;
 }
 
-const TRIGGER_OPTIONS = [
-  'Stress', 'Social Situations', 'Work/School', 'Family', 'Money Worries',
-  'Loneliness', 'Boredom', 'Anger', 'Sadness', 'Physical Pain',
-  'Celebrations', 'Peer Pressure', 'Environment', 'Routine Changes'
+const CRAVING_FREQUENCY_OPTIONS = [
+  { value: 0, label: 'None' },
+  { value: 1, label: 'Once' },
+  { value: 2, label: '2' },
+  { value: 3, label: '3' },
+  { value: 4, label: '4' },
+  { value: 5, label: '5+' }
+];
+
+const CRAVING_TIME_OPTIONS: { value: CravingTime; label: string }[] = [
+  { value: 'morning', label: '🌅 Morning' },
+  { value: 'afternoon', label: '☀️ Afternoon' },
+  { value: 'evening', label: '🌆 Evening' },
+  { value: 'night', label: '🌙 Night' }
 ];
 
-export default function DailyCheckIn({ user, onComplete }: DailyCheckInProps) {
+export default function DailyCheckIn({ user, date, onComplete, onManageTriggers, onOpenStrategy }: DailyCheckInProps) {
   const [formData, setFormData] = useState<CheckInData>({
     mood_score: 5,
     energy_level: 3,
     sleep_quality: 3,
-    trigger_tags: [],
+    trigger_ids: [],
+    craving_frequency: 0,
+    craving_peak_intensity: 0,
+    craving_peak_time: null,
+    craving_acted_on: null,
     gratitude_note: '',
     notes: ''
   });
   
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [hasCheckedInToday, setHasCheckedInToday] = useState(false);
-  const [todaysCheckIn, setTodaysCheckIn] = useState<any>(null);
+  const [isPendingSync, setIsPendingSync] = useState(false);
+  const [today, setToday] = useState<string | null>(null);
+  const [triggers, setTriggers] = useState<Trigger[]>([]);
+  const [dayContext, setDayContext] = useState<DayContext | null>(null);
+  // Shown in place of the form after saving a check-in that logged triggers
+  const [recommendations, setRecommendations] = useState<Recommendation[] | null>(null);
+
+  const checkInDate = date || today;
+  const isPastDay = !!checkInDate && !!today && checkInDate < today;
 
   useEffect(() => {
     checkTodaysCheckIn();
-  }, [user]);
+  }, [user, date]);
 
   const checkTodaysCheckIn = async () => {
-    const today = new Date().toISOString().split('T')[0];
+    const context = await fetchDayContext(user.id);
+    const recoveryDay = getRecoveryDay(context);
+    setDayContext(context);
+    setToday(recoveryDay);
+    setTriggers(await fetchTriggers(user.id));
     
-    const { data, error } = await supabase
+    const { data: serverCheckIn, error } = await supabase
       .from('daily_checkins')
       .select('*')
       .eq('user_id', user.id)
-      .eq('date', today)
+      .eq('date', date || recoveryDay)
       .single();
 
-    if (data && !error) {
+    // An edit still waiting in the offline queue is newer than what the server has
+    const queued = (await getQueuedWrites('daily_checkin'))
+      .find(write => write.row.user_id === user.id && write.row.date === (date || recoveryDay));
+    const data = queued ? queued.row : !error ? serverCheckIn : null;
+    setIsPendingSync(!!queued);
+
+    if (data) {
       setHasCheckedInToday(true);
-      setTodaysCheckIn(data);
       setFormData({
         mood_score: data.mood_score || 5,
         energy_level: data.energy_level || 3,
         sleep_quality: data.sleep_quality || 3,
-        trigger_tags: data.trigger_tags || [],
+        trigger_ids: data.trigger_ids || [],
+        craving_frequency: data.craving_frequency || 0,
+        craving_peak_intensity: data.craving_peak_intensity || 0,
+        craving_peak_time: data.craving_peak_time || null,
+        craving_acted_on: data.craving_acted_on ?? null,
         gratitude_note: data.gratitude_note || '',
         notes: data.notes || ''
       });
@@ -72,57 +122,67 @@ export default function DailyCheckIn({ user, onComplete }: DailyCheckInProps) {
     setIsSubmitting(true);
 
     try {
-      const today = new Date().toISOString().split('T')[0];
-      
+      if (!checkInDate) throw new Error('Still loading your profile');
+
+      // Craving details only make sense if there was a craving
+      const hadCravings = formData.craving_frequency > 0;
+      const entryData = {
+        ...formData,
+        craving_peak_intensity: hadCravings ? formData.craving_peak_intensity : 0,
+        craving_peak_time: hadCravings ? formData.craving_peak_time : null,
+        craving_acted_on: hadCravings ? formData.craving_acted_on : null
+      };
+
       const checkInData = {
         user_id: user.id,
-        date: today,
-        ...formData
+        date: checkInDate,
+        // Entries created after the day has passed are flagged for streaks
+        is_backfilled: isPastDay,
+        ...entryData
       };
 
-      let result;
-      
-      if (hasCheckedInToday) {
-        // Update existing check-in
-        result = await supabase
-          .from('daily_checkins')
-          .update(formData)
-          .eq('id', todaysCheckIn.id)
-          .select()
-          .single();
+      // Saved to the device first; the queue decides insert vs update when it syncs
+      const result = await queueCheckIn(checkInData);
+      const stillQueued = (await getQueuedWrites('daily_checkin'))
+        .some(write => write.row.user_id === user.id && write.row.date === checkInDate);
+
+      if (result.conflicts.includes(checkInDate)) {
+        toast.info('A newer check-in for this day was saved on another device, so that one was kept.');
+      } else if (stillQueued) {
+        toast.success('Check-in saved on this device. It will sync when you\'re back online.');
       } else {
-        // Create new check-in
-        result = await supabase
-          .from('daily_checkins')
-          .insert([checkInData])
-          .select()
-          .single();
+        toast.success(hasCheckedInToday ? 'Check-in updated!' : 'Check-in saved!');
       }
+      setHasCheckedInToday(true);
+      setIsPendingSync(stillQueued);
 
-      if (result.error) {
-        throw result.error;
+      // Today's triggers are still live, so offer something to do about them now
+      if (!isPastDay && dayContext && formData.trigger_ids.length > 0) {
+        const selectedTriggers = triggers.filter(t => formData.trigger_ids.includes(t.id));
+        // The check-in is already saved, so a failed lookup just means no suggestions
+        const suggestions = await fetchRecommendations(user.id, selectedTriggers, dayContext).catch(() => []);
+        if (suggestions.length > 0) {
+          setRecommendations(suggestions);
+          return;
+        }
       }
-
-      toast.success(hasCheckedInToday ? 'Check-in updated!' : 'Check-in saved!');
-      setHasCheckedInToday(true);
-      setTodaysCheckIn(result.data);
       
       if (onComplete) {
         onComplete();
       }
-    } catch (error: any) {
-      toast.error('Failed to save check-in: ' + error.message);
+    } catch (error: unknown) {
+      toast.error('Failed to save check-in: ' + (error as Error).message);
     } finally {
       setIsSubmitting(false);
     }
   };
 
-  const toggleTrigger = (trigger: string) => {
+  const toggleTrigger = (triggerId: string) => {
     setFormData(prev => ({
       ...prev,
-      trigger_tags: prev.trigger_tags.includes(trigger)
-        ? prev.trigger_tags.filter(t => t !== trigger)
-        : [...prev.trigger_tags, trigger]
+      trigger_ids: prev.trigger_ids.includes(triggerId)
+        ? prev.trigger_ids.filter(t => t !== triggerId)
+        : [...prev.trigger_ids, triggerId]
     }));
   };
 
@@ -144,18 +204,79 @@ export default function DailyCheckIn({ user, onComplete }: DailyCheckInProps) {
     return labels[quality - 1];
   };
 
+  if (recommendations) {
+    return (
+      <div className="bg-white rounded-lg shadow-md p-6">
+        <div className="mb-6">
+          <h2 className="text-2xl font-bold text-gray-900 mb-2">💡 Try This Now</h2>
+          <p className="text-gray-600">
+            You logged some triggers today. These strategies could help while they&apos;re still on your mind.
+          </p>
+        </div>
+
+        <div className="space-y-3 mb-6">
+          {recommendations.map(({ strategy, reason }) => (
+            <div key={strategy.id} className="border border-gray-200 rounded-lg p-4">
+              <div className="flex items-start justify-between">
+                <div className="flex-1 mr-4">
+                  <span className="inline-block bg-blue-100 text-blue-800 text-xs px-2 py-1 rounded mb-2">
+                    {strategy.category}
+                  </span>
+                  <h3 className="font-semibold text-gray-900">{strategy.title}</h3>
+                  {strategy.description && (
+                    <p className="text-sm text-gray-600 mt-1">{strategy.description}</p>
+                  )}
+                  <p className="text-xs text-green-700 mt-2">{reason}</p>
+                </div>
+                {onOpenStrategy && (
+                  <button
+                    onClick={() => onOpenStrategy(strategy.id)}
+                    className="bg-blue-600 text-white px-3 py-2 rounded-md hover:bg-blue-700 text-sm whitespace-nowrap"
+                  >
+                    Try it
+                  </button>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <button
+          onClick={() => {
+            setRecommendations(null);
+            if (onComplete) onComplete();
+          }}
+          className="w-full bg-gray-600 text-white py-2 px-4 rounded-md hover:bg-gray-700"
+        >
+          Continue
+        </button>
+      </div>
+    );
+  }
+
   return (
     <div className="bg-white rounded-lg shadow-md p-6">
       <div className="mb-6">
         <h2 className="text-2xl font-bold text-gray-900 mb-2">
-          {hasCheckedInToday ? 'Update Today\'s Check-In' : 'Daily Check-In'}
+          {isPastDay && checkInDate
+            ? `${hasCheckedInToday ? 'Edit' : 'Add'} Check-In for ${formatDay(checkInDate, { weekday: 'long', month: 'long', day: 'numeric' })}`
+            : hasCheckedInToday ? 'Update Today\'s Check-In' : 'Daily Check-In'}
         </h2>
         <p className="text-gray-600">
-          {hasCheckedInToday 
-            ? 'You can update your check-in throughout the day'
-            : 'Take a moment to reflect on how you\'re doing today'
+          {isPastDay
+            ? hasCheckedInToday
+              ? 'Correct anything that doesn\'t look right'
+              : 'Fill in a day you missed. It will be marked as added later.'
+            : hasCheckedInToday 
+              ? 'You can update your check-in throughout the day'
+              : 'Take a moment to reflect on how you\'re doing today'
           }
         </p>
+        {isPendingSync && (
+          <p className="mt-2 inline-block bg-yellow-100 text-yellow-800 text-xs px-2 py-1 rounded">
+            ⏳ Saved on this device, waiting to sync
+          </p>
+        )}
       </div>
 
       <form onSubmit={handleSubmit} className="space-y-8">
@@ -216,27 +337,119 @@ export default function DailyCheckIn({ user, onComplete }: DailyCheckInProps) {
           </div>
         </div>
 
-        {/* Triggers */}
+        {/* Cravings */}
         <div>
           <label className="block text-sm font-medium text-gray-700 mb-3">
-            Any triggers today? (Select all that apply)
+            How many cravings did you have today?
           </label>
-          <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
-            {TRIGGER_OPTIONS.map((trigger) => (
+          <div className="flex flex-wrap gap-2">
+            {CRAVING_FREQUENCY_OPTIONS.map((option) => (
               <button
-                key={trigger}
+                key={option.value}
                 type="button"
-                onClick={() => toggleTrigger(trigger)}
-                className={`px-3 py-2 text-sm rounded-md border transition-colors ${
-                  formData.trigger_tags.includes(trigger)
-                    ? 'bg-red-100 border-red-300 text-red-800'
+                onClick={() => setFormData(prev => ({ ...prev, craving_frequency: option.value }))}
+                className={`px-4 py-2 text-sm rounded-md border transition-colors ${
+                  formData.craving_frequency === option.value
+                    ? 'bg-orange-100 border-orange-300 text-orange-800'
                     : 'bg-gray-50 border-gray-300 text-gray-700 hover:bg-gray-100'
                 }`}
               >
-                {trigger}
+                {option.label}
               </button>
             ))}
           </div>
+
+          {formData.craving_frequency > 0 && (
+            <div className="mt-6 space-y-6 pl-4 border-l-2 border-orange-200">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-3">
+                  Strongest craving intensity: {formData.craving_peak_intensity}/10
+                </label>
+                <div className="flex items-center space-x-4">
+                  <span className="text-sm text-gray-500">Mild</span>
+                  <input
+                    type="range"
+                    min="0"
+                    max="10"
+                    value={formData.craving_peak_intensity}
+                    onChange={(e) => setFormData(prev => ({ ...prev, craving_peak_intensity: parseInt(e.target.value) }))}
+                    className="flex-1 h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer"
+                  />
+                  <span className="text-sm text-gray-500">Intense</span>
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-3">
+                  When was it strongest?
+                </label>
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+                  {CRAVING_TIME_OPTIONS.map((option) => (
+                    <button
+                      key={option.value}
+                      type="button"
+                      onClick={() => setFormData(prev => ({ ...prev, craving_peak_time: option.value }))}
+                      className={`px-3 py-2 text-sm rounded-md border transition-colors ${
+                        formData.craving_peak_time === option.value
+                          ? 'bg-orange-100 border-orange-300 text-orange-800'
+                          : 'bg-gray-50 border-gray-300 text-gray-700 hover:bg-gray-100'
+                      }`}
+                    >
+                      {option.label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-3">
+                  Did you act on a craving?
+                </label>
+                <div className="flex space-x-2">
+                  {[
+                    { value: false, label: 'No, I rode it out' },
+                    { value: true, label: 'Yes' }
+                  ].map((option) => (
+                    <button
+                      key={option.label}
+                      type="button"
+                      onClick={() => setFormData(prev => ({ ...prev, craving_acted_on: option.value }))}
+                      className={`px-4 py-2 text-sm rounded-md border transition-colors ${
+                        formData.craving_acted_on === option.value
+                          ? 'bg-orange-100 border-orange-300 text-orange-800'
+                          : 'bg-gray-50 border-gray-300 text-gray-700 hover:bg-gray-100'
+                      }`}
+                    >
+                      {option.label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            </div>
+          )}
+        </div>
+
+        {/* Triggers */}
+        <div>
+          <div className="flex items-center justify-between mb-3">
+            <label className="block text-sm font-medium text-gray-700">
+              Any triggers today? (Select all that apply)
+            </label>
+            {onManageTriggers && (
+              <button
+                type="button"
+                onClick={onManageTriggers}
+                className="text-sm text-blue-600 hover:text-blue-700"
+              >
+                Manage triggers
+              </button>
+            )}
+          </div>
+          <TriggerPicker
+            triggers={triggers}
+            selectedIds={formData.trigger_ids}
+            onToggle={toggleTrigger}
+          />
         </div>
 
         {/* Gratitude Note */}
@@ -288,7 +501,7 @@ export default function DailyCheckIn({ user, onComplete }: DailyCheckInProps) {
         </div>
       </form>
 
-      {hasCheckedInToday && (
+      {hasCheckedInToday && !isPastDay && (
         <div className="mt-6 p-4 bg-green-50 border border-green-200 rounded-md">
           <p className="text-green-800 text-sm">
             ✅ You've completed your check-in for today! You can update it anytime.
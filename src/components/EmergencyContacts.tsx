@@ -1,94 +1,125 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { supabase } from '@/lib/supabase';
 import { User } from '@supabase/auth-helpers-nextjs';
 import { toast } from 'sonner';
-
-interface EmergencyContact {
-  id: string;
-  user_id: string;
-  name: string;
-  phone: string;
-  relationship: string | null;
-  priority_level: number;
-  created_at: string;
-}
+import { saveSnapshot } from '@/lib/offlineCache';
+import { EmergencyContact, fetchEmergencyContacts } from '@/lib/contacts';
+import { AvailabilityWindow, describeAvailability, sortByReachability, WEEKDAY_LABELS } from '@/lib/availability';
+import { DEFAULT_DAY_CONTEXT, fetchDayContext, getBrowserTimezone } from '@/lib/recoveryDay';
+import { fetchDefaultCallingCode, getDefaultCallingCode, getDialableNumber } from '@/lib/phone';
+import { fetchContactAttempts, getMessageTemplates, startContactAttempt } from '@/lib/contactAttempts';
+import { QueuedContactAttemptRow, subscribeToQueue } from '@/lib/offlineQueue';
+import { fetchSosEvents, SosEvent, SOS_OUTCOME_LABELS } from '@/lib/sos';
+import { getPhoneKey, parseVCards, ParsedVCard, toVCard } from '@/lib/vcard';
+import CrisisPanel from '@/components/CrisisPanel';
+import ReachabilityBadge from '@/components/ReachabilityBadge';
 
 interface EmergencyContactsProps {
   user: User;
   onBack: () => void;
+  onOpenSafetyPlan?: () => void;
 }
 
+const CONTACT_TIMEZONES: string[] = typeof Intl.supportedValuesOf === 'function'
+  ? Intl.supportedValuesOf('timeZone')
+  : [];
+
 const RELATIONSHIP_OPTIONS = [
   'Sponsor', 'Therapist', 'Family Member', 'Friend', 'Support Group Leader', 
   'Crisis Hotline', 'Doctor', 'Emergency Services', 'Mentor', 'Other'
 ];
 
-const CRISIS_HOTLINES = [
-  { name: 'National Suicide Prevention Lifeline', phone: '988', description: '24/7 crisis support' },
-  { name: 'Crisis Text Line', phone: 'Text HOME to 741741', description: 'Text-based crisis support' },
-  { name: 'SAMHSA National Helpline', phone: '1-800-662-4357', description: 'Substance abuse support' },
-  { name: 'Emergency Services', phone: '911', description: 'Life-threatening emergencies' }
-];
-
-export default function EmergencyContacts({ user, onBack }: EmergencyContactsProps) {
+export default function EmergencyContacts({ user, onBack, onOpenSafetyPlan }: EmergencyContactsProps) {
   const [contacts, setContacts] = useState<EmergencyContact[]>([]);
   const [loading, setLoading] = useState(true);
   const [showAddForm, setShowAddForm] = useState(false);
   const [editingContact, setEditingContact] = useState<EmergencyContact | null>(null);
   const [showCrisisPanel, setShowCrisisPanel] = useState(false);
+  const [offlineCopyFrom, setOfflineCopyFrom] = useState<string | null>(null);
+  const [callingCode, setCallingCode] = useState(() => getDefaultCallingCode(getBrowserTimezone()));
+  const [textingContact, setTextingContact] = useState<EmergencyContact | null>(null);
+  const [attempts, setAttempts] = useState<QueuedContactAttemptRow[]>([]);
+  const [sosEvents, setSosEvents] = useState<SosEvent[]>([]);
+  const [importCards, setImportCards] = useState<ParsedVCard[] | null>(null);
+  const importInput = useRef<HTMLInputElement>(null);
+  const [now, setNow] = useState(() => new Date());
+  const [timezone, setTimezone] = useState(DEFAULT_DAY_CONTEXT.timezone);
 
   useEffect(() => {
     fetchContacts();
+    fetchDayContext(user.id).then(context => setTimezone(context.timezone));
+    fetchDefaultCallingCode(user.id).then(setCallingCode);
+  }, []);
+
+  // Refresh the history as attempts are queued and synced
+  useEffect(() => {
+    const refresh = () => {
+      fetchContactAttempts(user.id).then(setAttempts);
+      fetchSosEvents(user.id).then(setSosEvents);
+    };
+    refresh();
+    return subscribeToQueue(refresh);
+  }, [user.id]);
+
+  // Who is reachable changes with the clock
+  useEffect(() => {
+    const interval = setInterval(() => setNow(new Date()), 60000);
+    return () => clearInterval(interval);
   }, []);
 
+  // Keep the offline copy in step with every add, edit and delete
+  useEffect(() => {
+    if (!loading && !offlineCopyFrom) saveSnapshot('emergency_contacts', user.id, contacts);
+  }, [contacts, loading, offlineCopyFrom, user.id]);
+
   const fetchContacts = async () => {
-    const { data, error } = await supabase
-      .from('emergency_contacts')
-      .select('*')
-      .eq('user_id', user.id)
-      .order('priority_level')
-      .order('created_at');
+    const { contacts, offlineCopyFrom } = await fetchEmergencyContacts(user.id);
+    setContacts(contacts);
+    setOfflineCopyFrom(offlineCopyFrom);
+    setLoading(false);
+  };
 
-    if (data && !error) {
-      setContacts(data);
+  const handleCall = (contact: EmergencyContact) => {
+    if (!startContactAttempt(user.id, contact, 'call', callingCode)) {
+      toast.error('Invalid phone number', { description: `Check the number saved for ${contact.name}` });
     }
-    setLoading(false);
   };
 
-  const handleCall = (phone: string, name: string) => {
-    // Format phone number for calling
-    const cleanPhone = phone.replace(/\D/g, '');
-    
-    if (cleanPhone.length >= 10) {
-      // For web app, we'll show instructions since we can't directly make calls
-      toast.success(`Calling ${name}...`, {
-        description: `Phone: ${phone}`,
-        duration: 5000,
-      });
-      
-      // In a real mobile app, you'd use:
-      // window.open(`tel:${cleanPhone}`);
-    } else {
-      toast.error('Invalid phone number');
+  const handleText = (contact: EmergencyContact) => {
+    if (!getDialableNumber(contact.phone, callingCode)) {
+      toast.error('Invalid phone number', { description: `Check the number saved for ${contact.name}` });
+      return;
     }
+    setTextingContact(contact);
   };
 
-  const handleText = (phone: string, name: string) => {
-    const cleanPhone = phone.replace(/\D/g, '');
-    
-    if (cleanPhone.length >= 10) {
-      toast.success(`Opening text to ${name}...`, {
-        description: `Phone: ${phone}`,
-        duration: 5000,
-      });
-      
-      // In a real mobile app, you'd use:
-      // window.open(`sms:${cleanPhone}`);
-    } else {
-      toast.error('Invalid phone number');
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Reset so picking the same file again still fires a change
+    e.target.value = '';
+    if (!file) return;
+
+    const cards = parseVCards(await file.text());
+    if (cards.length === 0) {
+      toast.error('No contacts with a phone number were found in that file');
+      return;
     }
+    setImportCards(cards);
+  };
+
+  const exportContacts = () => {
+    const blob = new Blob([toVCard(contacts, callingCode)], { type: 'text/vcard' });
+    const url = URL.createObjectURL(blob);
+
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'support-network.vcf';
+    link.click();
+
+    URL.revokeObjectURL(url);
+    toast.success(`Exported ${contacts.length} ${contacts.length === 1 ? 'contact' : 'contacts'}`);
   };
 
   const deleteContact = async (contactId: string) => {
@@ -129,6 +160,8 @@ export default function EmergencyContacts({ user, onBack }: EmergencyContactsPro
     }
   };
 
+  const byReachability = sortByReachability(contacts, timezone, now);
+
   if (loading) {
     return (
       <div className="min-h-screen bg-gray-50 p-4">
@@ -164,6 +197,27 @@ export default function EmergencyContacts({ user, onBack }: EmergencyContactsPro
             >
               🚨 Crisis Help
             </button>
+            <button
+              onClick={() => importInput.current?.click()}
+              className="bg-white border border-gray-300 text-gray-700 px-4 py-2 rounded-md hover:bg-gray-50"
+            >
+              Import
+            </button>
+            {contacts.length > 0 && (
+              <button
+                onClick={exportContacts}
+                className="bg-white border border-gray-300 text-gray-700 px-4 py-2 rounded-md hover:bg-gray-50"
+              >
+                Export
+              </button>
+            )}
+            <input
+              ref={importInput}
+              type="file"
+              accept=".vcf,text/vcard,text/x-vcard"
+              onChange={handleImportFile}
+              className="hidden"
+            />
             <button
               onClick={() => setShowAddForm(true)}
               className="bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700"
@@ -175,53 +229,24 @@ export default function EmergencyContacts({ user, onBack }: EmergencyContactsPro
 
         {/* Crisis Panel */}
         {showCrisisPanel && (
-          <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
-            <div className="bg-white rounded-lg shadow-xl p-6 max-w-md w-full">
-              <div className="flex items-center mb-4">
-                <span className="text-3xl mr-3">🚨</span>
-                <h2 className="text-xl font-bold text-gray-900">Crisis Support</h2>
-              </div>
-              
-              <p className="text-gray-600 mb-6">
-                If you're in immediate danger or having thoughts of self-harm, please reach out for help immediately.
-              </p>
-              
-              <div className="space-y-3 mb-6">
-                {CRISIS_HOTLINES.map((hotline, index) => (
-                  <div key={index} className="border border-gray-200 rounded-lg p-3">
-                    <div className="flex items-center justify-between">
-                      <div>
-                        <p className="font-medium text-gray-900">{hotline.name}</p>
-                        <p className="text-sm text-gray-600">{hotline.description}</p>
-                        <p className="text-lg font-bold text-blue-600 mt-1">{hotline.phone}</p>
-                      </div>
-                      <button
-                        onClick={() => handleCall(hotline.phone, hotline.name)}
-                        className="bg-red-600 text-white px-3 py-2 rounded-md hover:bg-red-700 text-sm"
-                      >
-                        Call
-                      </button>
-                    </div>
-                  </div>
-                ))}
-              </div>
-              
-              <button
-                onClick={() => setShowCrisisPanel(false)}
-                className="w-full bg-gray-600 text-white py-2 px-4 rounded-md hover:bg-gray-700"
-              >
-                Close
-              </button>
-            </div>
+          <CrisisPanel userId={user.id} onClose={() => setShowCrisisPanel(false)} onOpenSafetyPlan={onOpenSafetyPlan} />
+        )}
+
+        {offlineCopyFrom && (
+          <div className="mb-6 p-4 bg-yellow-50 border border-yellow-200 rounded-md">
+            <p className="text-yellow-800 text-sm">
+              📴 You are offline. Showing the contacts saved on this device on {new Date(offlineCopyFrom).toLocaleString()}.
+            </p>
           </div>
         )}
 
         {/* Quick Actions for Top Contacts */}
         {contacts.length > 0 && (
           <div className="bg-white rounded-lg shadow-md p-6 mb-8">
-            <h2 className="text-xl font-semibold text-gray-900 mb-4">Quick Contact</h2>
+            <h2 className="text-xl font-semibold text-gray-900 mb-1">Quick Contact</h2>
+            <p className="text-sm text-gray-600 mb-4">The people most likely to pick up right now</p>
             <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
-              {contacts.slice(0, 3).map((contact) => (
+              {byReachability.slice(0, 3).map((contact) => (
                 <div key={contact.id} className="border border-gray-200 rounded-lg p-4">
                   <div className="flex items-center justify-between mb-2">
                     <h3 className="font-medium text-gray-900">{contact.name}</h3>
@@ -229,16 +254,19 @@ export default function EmergencyContacts({ user, onBack }: EmergencyContactsPro
                       {getPriorityLabel(contact.priority_level)}
                     </span>
                   </div>
-                  <p className="text-sm text-gray-600 mb-3">{contact.relationship}</p>
-                  <div className="flex space-x-2">
+                  <p className="text-sm text-gray-600 mb-1">{contact.relationship}</p>
+                  <div className="mb-3">
+                    <ReachabilityBadge contact={contact} timezone={timezone} now={now} />
+                  </div>
+                  <div className={`flex space-x-2 ${contact.preferred_channel === 'sms' ? 'flex-row-reverse space-x-reverse' : ''}`}>
                     <button
-                      onClick={() => handleCall(contact.phone, contact.name)}
+                      onClick={() => handleCall(contact)}
                       className="flex-1 bg-green-600 text-white py-2 px-3 rounded-md hover:bg-green-700 text-sm"
                     >
                       📞 Call
                     </button>
                     <button
-                      onClick={() => handleText(contact.phone, contact.name)}
+                      onClick={() => handleText(contact)}
                       className="flex-1 bg-blue-600 text-white py-2 px-3 rounded-md hover:bg-blue-700 text-sm"
                     >
                       💬 Text
@@ -272,7 +300,7 @@ export default function EmergencyContacts({ user, onBack }: EmergencyContactsPro
             </div>
           ) : (
             <div className="divide-y divide-gray-200">
-              {contacts.map((contact) => (
+              {byReachability.map((contact) => (
                 <div key={contact.id} className="p-6">
                   <div className="flex items-center justify-between">
                     <div className="flex-1">
@@ -284,17 +312,21 @@ export default function EmergencyContacts({ user, onBack }: EmergencyContactsPro
                       </div>
                       <p className="text-gray-600 mb-1">{contact.relationship}</p>
                       <p className="text-gray-700 font-mono">{contact.phone}</p>
+                      <div className="mt-1">
+                        <ReachabilityBadge contact={contact} timezone={timezone} now={now} />
+                      </div>
+                      <p className="text-xs text-gray-500 mt-1">Hours: {describeAvailability(contact.availability)}</p>
                     </div>
                     
                     <div className="flex items-center space-x-2">
                       <button
-                        onClick={() => handleCall(contact.phone, contact.name)}
+                        onClick={() => handleCall(contact)}
                         className="bg-green-600 text-white px-4 py-2 rounded-md hover:bg-green-700"
                       >
                         📞 Call
                       </button>
                       <button
-                        onClick={() => handleText(contact.phone, contact.name)}
+                        onClick={() => handleText(contact)}
                         className="bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700"
                       >
                         💬 Text
@@ -319,11 +351,102 @@ export default function EmergencyContacts({ user, onBack }: EmergencyContactsPro
           )}
         </div>
 
+        {/* Recent Contact Attempts */}
+        {attempts.length > 0 && (
+          <div className="bg-white rounded-lg shadow-md mt-8">
+            <div className="p-6 border-b border-gray-200">
+              <h2 className="text-xl font-semibold text-gray-900">Recent Reach-Outs</h2>
+              <p className="text-sm text-gray-600">Only you can see this history.</p>
+            </div>
+            <div className="divide-y divide-gray-200">
+              {attempts.map((attempt) => (
+                <div key={attempt.id} className="px-6 py-3 flex items-start">
+                  <span className="mr-3">{attempt.channel === 'call' ? '📞' : '💬'}</span>
+                  <div className="flex-1">
+                    <p className="text-gray-900">
+                      {attempt.channel === 'call' ? 'Called' : 'Texted'} {attempt.contact_name}
+                    </p>
+                    {attempt.message && (
+                      <p className="text-sm text-gray-600 italic">&ldquo;{attempt.message}&rdquo;</p>
+                    )}
+                  </div>
+                  <span className="text-sm text-gray-500">{new Date(attempt.attempted_at).toLocaleString()}</span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* SOS History */}
+        {sosEvents.length > 0 && (
+          <div className="bg-white rounded-lg shadow-md mt-8">
+            <div className="p-6 border-b border-gray-200">
+              <h2 className="text-xl font-semibold text-gray-900">SOS History</h2>
+              <p className="text-sm text-gray-600">Each time you pressed SOS and who you tried.</p>
+            </div>
+            <div className="divide-y divide-gray-200">
+              {sosEvents.map((event) => (
+                <div key={event.id} className="px-6 py-3">
+                  <div className="flex items-center justify-between mb-1">
+                    <span className="font-medium text-gray-900">
+                      🆘 {event.outcome ? SOS_OUTCOME_LABELS[event.outcome] : 'In progress'}
+                    </span>
+                    <span className="text-sm text-gray-500">{new Date(event.started_at).toLocaleString()}</span>
+                  </div>
+                  {event.steps.length > 0 ? (
+                    <p className="text-sm text-gray-600">
+                      {event.steps.map(step =>
+                        `${step.name} (${step.channel === 'call' ? 'call' : 'text'}${step.result === 'no_answer' ? ', no answer' : step.result === 'reached' ? ', reached' : ''})`
+                      ).join(' → ')}
+                    </p>
+                  ) : (
+                    <p className="text-sm text-gray-500">No one was contacted.</p>
+                  )}
+                  {event.shared_with_sponsor && (
+                    <p className="text-xs text-blue-600 mt-1">Shared with your sponsor</p>
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* vCard Import Preview */}
+        {importCards && (
+          <ImportPreview
+            user={user}
+            cards={importCards}
+            existing={contacts}
+            callingCode={callingCode}
+            onClose={() => setImportCards(null)}
+            onImport={(imported) => {
+              setContacts(prev => [...prev, ...imported].sort((a, b) =>
+                a.priority_level - b.priority_level || a.created_at.localeCompare(b.created_at)
+              ));
+              setImportCards(null);
+              toast.success(`Imported ${imported.length} ${imported.length === 1 ? 'contact' : 'contacts'}`);
+            }}
+          />
+        )}
+
+        {/* Message Composer */}
+        {textingContact && (
+          <MessageComposer
+            contact={textingContact}
+            onClose={() => setTextingContact(null)}
+            onSend={(message) => {
+              startContactAttempt(user.id, textingContact, 'sms', callingCode, message);
+              setTextingContact(null);
+            }}
+          />
+        )}
+
         {/* Add/Edit Contact Form */}
         {(showAddForm || editingContact) && (
           <ContactForm
             user={user}
             contact={editingContact}
+            callingCode={callingCode}
             onClose={() => {
               setShowAddForm(false);
               setEditingContact(null);
@@ -346,15 +469,243 @@ export default function EmergencyContacts({ user, onBack }: EmergencyContactsPro
   );
 }
 
+// vCard Import Preview Component
+function ImportPreview({
+  user,
+  cards,
+  existing,
+  callingCode,
+  onClose,
+  onImport
+}: {
+  user: User;
+  cards: ParsedVCard[];
+  existing: EmergencyContact[];
+  callingCode: string;
+  onClose: () => void;
+  onImport: (contacts: EmergencyContact[]) => void;
+}) {
+  // Same check as the contact form, so Call and SOS never get a number that won't dial
+  const isDialable = (number: string) => !!getDialableNumber(number, callingCode);
+
+  // Anyone already saved, or repeated earlier in the file, is a duplicate
+  const [rows, setRows] = useState(() => {
+    const seen = new Set(existing.map(contact => getPhoneKey(contact.phone, callingCode)));
+    return cards.map(card => {
+      const keys = card.phones.map(phone => getPhoneKey(phone.number, callingCode));
+      const duplicate = keys.some(key => seen.has(key));
+      keys.forEach(key => seen.add(key));
+      const dialable = card.phones.find(phone => isDialable(phone.number));
+      return {
+        card,
+        duplicate,
+        dialable: !!dialable,
+        selected: !duplicate && !!dialable,
+        phone: (dialable || card.phones[0]).number,
+        relationship: card.relationship || '',
+        priority_level: 3
+      };
+    });
+  });
+  const [isImporting, setIsImporting] = useState(false);
+
+  type Row = typeof rows[number];
+  const updateRow = (index: number, changes: Partial<Row>) => {
+    setRows(prev => prev.map((row, i) => i === index ? { ...row, ...changes } : row));
+  };
+
+  const selected = rows.filter(row => row.selected && isDialable(row.phone));
+
+  const handleImport = async () => {
+    setIsImporting(true);
+    try {
+      const { data, error } = await supabase
+        .from('emergency_contacts')
+        .insert(selected.map(row => ({
+          user_id: user.id,
+          name: row.card.name,
+          phone: row.phone,
+          relationship: row.relationship || null,
+          priority_level: row.priority_level
+        })))
+        .select();
+
+      if (error) throw error;
+      onImport(data || []);
+    } catch (error: unknown) {
+      toast.error('Failed to import contacts: ' + (error as Error).message);
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg shadow-xl p-6 max-w-2xl w-full max-h-[90vh] flex flex-col">
+        <h3 className="text-lg font-semibold text-gray-900 mb-1">Import Contacts</h3>
+        <p className="text-sm text-gray-600 mb-4">
+          Found {cards.length} {cards.length === 1 ? 'contact' : 'contacts'}. Choose who to add and check their details.
+        </p>
+
+        <div className="flex-1 overflow-y-auto divide-y divide-gray-200 border border-gray-200 rounded-md mb-4">
+          {rows.map((row, index) => (
+            <div key={index} className={`p-3 ${row.selected ? '' : 'bg-gray-50'}`}>
+              <label className="flex items-center mb-2">
+                <input
+                  type="checkbox"
+                  checked={row.selected}
+                  disabled={!row.dialable}
+                  onChange={(e) => updateRow(index, { selected: e.target.checked })}
+                  className="mr-2"
+                />
+                <span className="font-medium text-gray-900">{row.card.name}</span>
+                {row.duplicate && (
+                  <span className="ml-2 text-xs px-2 py-0.5 rounded bg-yellow-100 text-yellow-800">
+                    Already in your contacts
+                  </span>
+                )}
+                {!row.dialable && (
+                  <span className="ml-2 text-xs px-2 py-0.5 rounded bg-red-100 text-red-800">
+                    No number that can be dialed
+                  </span>
+                )}
+              </label>
+              {row.selected && (
+                <div className="grid gap-2 sm:grid-cols-3 ml-6">
+                  <select
+                    value={row.phone}
+                    onChange={(e) => updateRow(index, { phone: e.target.value })}
+                    className="px-2 py-1 border border-gray-300 rounded-md text-sm"
+                  >
+                    {row.card.phones.map(phone => (
+                      <option key={phone.number} value={phone.number} disabled={!isDialable(phone.number)}>
+                        {phone.number}{phone.type ? ` (${phone.type})` : ''}{isDialable(phone.number) ? '' : ' (invalid)'}
+                      </option>
+                    ))}
+                  </select>
+                  <select
+                    value={row.relationship}
+                    onChange={(e) => updateRow(index, { relationship: e.target.value })}
+                    className="px-2 py-1 border border-gray-300 rounded-md text-sm"
+                  >
+                    <option value="">Select relationship</option>
+                    {RELATIONSHIP_OPTIONS.map(option => (
+                      <option key={option} value={option}>{option}</option>
+                    ))}
+                  </select>
+                  <select
+                    value={row.priority_level}
+                    onChange={(e) => updateRow(index, { priority_level: parseInt(e.target.value) })}
+                    className="px-2 py-1 border border-gray-300 rounded-md text-sm"
+                  >
+                    <option value={1}>Critical (1)</option>
+                    <option value={2}>High (2)</option>
+                    <option value={3}>Medium (3)</option>
+                    <option value={4}>Low (4)</option>
+                    <option value={5}>Reference (5)</option>
+                  </select>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+
+        <div className="flex space-x-4">
+          <button
+            onClick={handleImport}
+            disabled={isImporting || selected.length === 0}
+            className={`flex-1 py-2 px-4 rounded-md font-medium ${
+              isImporting || selected.length === 0
+                ? 'bg-gray-400 cursor-not-allowed text-white'
+                : 'bg-blue-600 text-white hover:bg-blue-700'
+            }`}
+          >
+            {isImporting ? 'Importing...' : `Import ${selected.length} ${selected.length === 1 ? 'Contact' : 'Contacts'}`}
+          </button>
+          <button
+            onClick={onClose}
+            className="flex-1 bg-gray-600 text-white py-2 px-4 rounded-md hover:bg-gray-700"
+          >
+            Cancel
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// Message Composer Component
+function MessageComposer({
+  contact,
+  onClose,
+  onSend
+}: {
+  contact: EmergencyContact;
+  onClose: () => void;
+  onSend: (message: string) => void;
+}) {
+  const templates = getMessageTemplates(contact);
+  const [message, setMessage] = useState(templates[0]);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg shadow-xl p-6 max-w-md w-full">
+        <h3 className="text-lg font-semibold text-gray-900 mb-1">Text {contact.name}</h3>
+        <p className="text-sm text-gray-600 mb-4">Pick a message or write your own. It opens in your messaging app, ready to send.</p>
+
+        <div className="space-y-2 mb-4">
+          {templates.map((template) => (
+            <button
+              key={template}
+              onClick={() => setMessage(template)}
+              className={`w-full text-left px-3 py-2 rounded-md border text-sm ${
+                message === template
+                  ? 'bg-blue-50 border-blue-500 text-blue-900'
+                  : 'border-gray-300 text-gray-700 hover:border-blue-400'
+              }`}
+            >
+              {template}
+            </button>
+          ))}
+        </div>
+
+        <textarea
+          value={message}
+          onChange={(e) => setMessage(e.target.value)}
+          rows={3}
+          className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 resize-none mb-4"
+        />
+
+        <div className="flex space-x-4">
+          <button
+            onClick={() => onSend(message.trim())}
+            className="flex-1 bg-blue-600 text-white py-2 px-4 rounded-md hover:bg-blue-700 font-medium"
+          >
+            💬 Open in Messages
+          </button>
+          <button
+            onClick={onClose}
+            className="flex-1 bg-gray-600 text-white py-2 px-4 rounded-md hover:bg-gray-700"
+          >
+            Cancel
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
 // Contact Form Component
 function ContactForm({ 
   user, 
   contact, 
+  callingCode,
   onClose, 
   onSave 
 }: { 
   user: User; 
   contact: EmergencyContact | null; 
+  callingCode: string;
   onClose: () => void; 
   onSave: (contact: EmergencyContact) => void;
 }) {
@@ -362,20 +713,57 @@ function ContactForm({
     name: contact?.name || '',
     phone: contact?.phone || '',
     relationship: contact?.relationship || '',
-    priority_level: contact?.priority_level || 1
+    priority_level: contact?.priority_level || 1,
+    message_templates: contact?.message_templates || [],
+    timezone: contact?.timezone || '',
+    late_night_ok: contact?.late_night_ok || false,
+    preferred_channel: contact?.preferred_channel || ''
+  });
+  // The form edits one set of hours across the chosen days
+  const [hours, setHours] = useState({
+    anytime: !contact?.availability?.length,
+    days: contact?.availability?.length ? [...new Set(contact.availability.map(w => w.day))] : [1, 2, 3, 4, 5],
+    start: contact?.availability?.[0]?.start || '09:00',
+    end: contact?.availability?.[0]?.end || '21:00'
   });
+  const [newTemplate, setNewTemplate] = useState('');
   const [isSubmitting, setIsSubmitting] = useState(false);
 
+  const addTemplate = () => {
+    const template = newTemplate.trim();
+    if (!template || formData.message_templates.includes(template)) return;
+    setFormData(prev => ({ ...prev, message_templates: [...prev.message_templates, template] }));
+    setNewTemplate('');
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+    if (!getDialableNumber(formData.phone, callingCode)) {
+      toast.error('Enter a full phone number, with the country code (e.g. +44) if it is from another country');
+      return;
+    }
+    if (!hours.anytime && hours.days.length === 0) {
+      toast.error('Pick at least one day, or choose "Any time"');
+      return;
+    }
     setIsSubmitting(true);
 
+    const availability: AvailabilityWindow[] | null = hours.anytime
+      ? null
+      : [...hours.days].sort((a, b) => a - b).map(day => ({ day, start: hours.start, end: hours.end }));
+    const row = {
+      ...formData,
+      availability,
+      timezone: formData.timezone || null,
+      preferred_channel: formData.preferred_channel || null
+    };
+
     try {
       if (contact) {
         // Update existing contact
         const { data, error } = await supabase
           .from('emergency_contacts')
-          .update(formData)
+          .update(row)
           .eq('id', contact.id)
           .select()
           .single();
@@ -388,7 +776,7 @@ function ContactForm({
           .from('emergency_contacts')
           .insert([{
             user_id: user.id,
-            ...formData
+            ...row
           }])
           .select()
           .single();
@@ -404,6 +792,8 @@ function ContactForm({
   };
 
   const formatPhoneNumber = (value: string) => {
+    // International numbers are kept as typed
+    if (value.trim().startsWith('+')) return value.replace(/[^\d+\s()-]/g, '');
     const phoneNumber = value.replace(/\D/g, '');
     if (phoneNumber.length >= 6) {
       return phoneNumber.replace(/(\d{3})(\d{3})(\d{4})/, '($1) $2-$3');
@@ -415,7 +805,7 @@ function ContactForm({
 
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
-      <div className="bg-white rounded-lg shadow-xl p-6 max-w-md w-full">
+      <div className="bg-white rounded-lg shadow-xl p-6 max-w-md w-full max-h-[90vh] overflow-y-auto">
         <h3 className="text-lg font-semibold text-gray-900 mb-4">
           {contact ? 'Edit Contact' : 'Add Emergency Contact'}
         </h3>
@@ -475,6 +865,142 @@ function ContactForm({
               <option value={5}>Reference (5) - Info only</option>
             </select>
           </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">When They&apos;re Available</label>
+            <div className="flex space-x-4 mb-2 text-sm">
+              <label className="flex items-center">
+                <input
+                  type="radio"
+                  checked={hours.anytime}
+                  onChange={() => setHours(prev => ({ ...prev, anytime: true }))}
+                  className="mr-1"
+                />
+                Any time
+              </label>
+              <label className="flex items-center">
+                <input
+                  type="radio"
+                  checked={!hours.anytime}
+                  onChange={() => setHours(prev => ({ ...prev, anytime: false }))}
+                  className="mr-1"
+                />
+                Set hours
+              </label>
+            </div>
+            {!hours.anytime && (
+              <div className="mb-2">
+                <div className="flex space-x-1 mb-2">
+                  {WEEKDAY_LABELS.map((label, day) => (
+                    <button
+                      key={day}
+                      type="button"
+                      onClick={() => setHours(prev => ({
+                        ...prev,
+                        days: prev.days.includes(day) ? prev.days.filter(d => d !== day) : [...prev.days, day]
+                      }))}
+                      className={`flex-1 py-1 rounded-md border text-xs ${
+                        hours.days.includes(day)
+                          ? 'bg-blue-600 border-blue-600 text-white'
+                          : 'border-gray-300 text-gray-700 hover:border-blue-400'
+                      }`}
+                    >
+                      {label}
+                    </button>
+                  ))}
+                </div>
+                <div className="flex items-center space-x-2 text-sm">
+                  <input
+                    type="time"
+                    value={hours.start}
+                    onChange={(e) => setHours(prev => ({ ...prev, start: e.target.value }))}
+                    className="px-2 py-1 border border-gray-300 rounded-md"
+                    required
+                  />
+                  <span className="text-gray-600">to</span>
+                  <input
+                    type="time"
+                    value={hours.end}
+                    onChange={(e) => setHours(prev => ({ ...prev, end: e.target.value }))}
+                    className="px-2 py-1 border border-gray-300 rounded-md"
+                    required
+                  />
+                </div>
+              </div>
+            )}
+            <label className="flex items-center text-sm text-gray-700 mb-2">
+              <input
+                type="checkbox"
+                checked={formData.late_night_ok}
+                onChange={(e) => setFormData(prev => ({ ...prev, late_night_ok: e.target.checked }))}
+                className="mr-2"
+              />
+              OK to call late at night (10pm–7am their time)
+            </label>
+            <div className="grid grid-cols-2 gap-2">
+              <select
+                value={formData.timezone}
+                onChange={(e) => setFormData(prev => ({ ...prev, timezone: e.target.value }))}
+                className="px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                <option value="">Same timezone as me</option>
+                {CONTACT_TIMEZONES.map(tz => (
+                  <option key={tz} value={tz}>{tz.replace(/_/g, ' ')}</option>
+                ))}
+              </select>
+              <select
+                value={formData.preferred_channel}
+                onChange={(e) => setFormData(prev => ({ ...prev, preferred_channel: e.target.value as 'call' | 'sms' | '' }))}
+                className="px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                <option value="">No preferred channel</option>
+                <option value="call">Prefers calls</option>
+                <option value="sms">Prefers texts</option>
+              </select>
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Prewritten Messages</label>
+            <p className="text-xs text-gray-500 mb-2">Offered first when you text this person, so you don&apos;t have to find the words.</p>
+            {formData.message_templates.map((template) => (
+              <div key={template} className="flex items-center justify-between bg-gray-50 rounded-md px-3 py-2 mb-2 text-sm">
+                <span className="text-gray-700">{template}</span>
+                <button
+                  type="button"
+                  onClick={() => setFormData(prev => ({
+                    ...prev,
+                    message_templates: prev.message_templates.filter(t => t !== template)
+                  }))}
+                  className="ml-2 text-red-600 hover:text-red-700"
+                >
+                  ✕
+                </button>
+              </div>
+            ))}
+            <div className="flex space-x-2">
+              <input
+                type="text"
+                value={newTemplate}
+                onChange={(e) => setNewTemplate(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') {
+                    e.preventDefault();
+                    addTemplate();
+                  }
+                }}
+                placeholder="I'm having a hard time, can you call me?"
+                className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+              <button
+                type="button"
+                onClick={addTemplate}
+                className="bg-gray-200 text-gray-700 px-3 py-2 rounded-md hover:bg-gray-300"
+              >
+                Add
+              </button>
+            </div>
+          </div>
           
           <div className="flex space-x-4">
             <button
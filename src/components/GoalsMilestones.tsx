@@ -4,6 +4,8 @@ import { useState, useEffect } from 'react';
 import { supabase } from '@/lib/supabase';
 import { User } from '@supabase/auth-helpers-nextjs';
 import { toast } from 'sonner';
+import { DayContext, DEFAULT_DAY_CONTEXT, daysBetween, fetchDayContext, formatDay, getRecoveryDay } from '@/lib/recoveryDay';
+import { fetchStreakSummary } from '@/lib/streaks';
 
 interface Goal {
   id: string;
@@ -43,6 +45,7 @@ const MILESTONE_TYPES = [
   { type: 'days_clean', label: 'Days Clean', values: [1, 7, 30, 60, 90, 180, 365, 730] },
   { type: 'meetings_attended', label: 'Meetings Attended', values: [1, 5, 10, 25, 50, 100] },
   { type: 'check_ins_completed', label: 'Check-ins Completed', values: [7, 30, 50, 100] },
+  { type: 'check_in_streak', label: 'Check-in Streak', values: [7, 30, 90, 365] },
   { type: 'goals_achieved', label: 'Goals Achieved', values: [1, 3, 5, 10] }
 ];
 
@@ -54,6 +57,8 @@ export default function GoalsMilestones({ user, onBack }: GoalsMilestonesProps)
   const [showAddGoalForm, setShowAddGoalForm] = useState(false);
   const [editingGoal, setEditingGoal] = useState<Goal | null>(null);
   const [showCelebration, setShowCelebration] = useState<Goal | Milestone | null>(null);
+  const [dayContext, setDayContext] = useState<DayContext>(DEFAULT_DAY_CONTEXT);
+  const [recoveryStartDate, setRecoveryStartDate] = useState<string | null>(null);
 
   useEffect(() => {
     fetchData();
@@ -78,13 +83,14 @@ export default function GoalsMilestones({ user, onBack }: GoalsMilestonesProps)
 
     if (goalsData) setGoals(goalsData);
     if (milestonesData) setMilestones(milestonesData);
+    setDayContext(await fetchDayContext(user.id));
     
     setLoading(false);
   };
 
   const toggleGoalCompletion = async (goal: Goal) => {
     const isCompleting = !goal.is_completed;
-    const completedDate = isCompleting ? new Date().toISOString().split('T')[0] : null;
+    const completedDate = isCompleting ? getRecoveryDay(dayContext) : null;
 
     const { error } = await supabase
       .from('goals')
@@ -136,19 +142,21 @@ export default function GoalsMilestones({ user, onBack }: GoalsMilestonesProps)
       .eq('id', user.id)
       .single();
 
+    const today = getRecoveryDay(dayContext);
+    setRecoveryStartDate(profile?.recovery_start_date || null);
+
     if (profile?.recovery_start_date) {
-      const recoveryStart = new Date(profile.recovery_start_date);
-      const today = new Date();
-      const daysClean = Math.floor((today.getTime() - recoveryStart.getTime()) / (1000 * 60 * 60 * 24));
+      const daysClean = daysBetween(profile.recovery_start_date, today);
 
       // Check for days clean milestones
       const daysCleanMilestones = MILESTONE_TYPES.find(m => m.type === 'days_clean')?.values || [];
       
       for (const milestone of daysCleanMilestones) {
         if (daysClean >= milestone) {
-          // Check if this milestone already exists
+          // Check if this milestone already exists in the current recovery period
           const existing = milestones.find(m => 
-            m.milestone_type === 'days_clean' && m.milestone_value === milestone
+            m.milestone_type === 'days_clean' && m.milestone_value === milestone &&
+            !isFromEarlierPeriod(m, profile.recovery_start_date)
           );
 
           if (!existing) {
@@ -159,7 +167,7 @@ export default function GoalsMilestones({ user, onBack }: GoalsMilestonesProps)
                 user_id: user.id,
                 milestone_type: 'days_clean',
                 milestone_value: milestone,
-                achieved_date: today.toISOString().split('T')[0],
+                achieved_date: today,
                 title: `${milestone} Days Clean`,
                 description: `Congratulations on reaching ${milestone} days of sobriety!`
               }])
@@ -175,16 +183,14 @@ export default function GoalsMilestones({ user, onBack }: GoalsMilestonesProps)
       }
     }
 
-    // Check check-ins milestone
-    const { count: checkInsCount } = await supabase
-      .from('daily_checkins')
-      .select('*', { count: 'exact', head: true })
-      .eq('user_id', user.id);
+    // Check check-ins milestone; skipped if the history can't be read in full
+    const streaks = await fetchStreakSummary(user.id, dayContext).catch(() => null);
+    if (!streaks) return;
 
     const checkInMilestones = MILESTONE_TYPES.find(m => m.type === 'check_ins_completed')?.values || [];
     
     for (const milestone of checkInMilestones) {
-      if ((checkInsCount || 0) >= milestone) {
+      if (streaks.totalCheckIns >= milestone) {
         const existing = milestones.find(m => 
           m.milestone_type === 'check_ins_completed' && m.milestone_value === milestone
         );
@@ -196,7 +202,7 @@ export default function GoalsMilestones({ user, onBack }: GoalsMilestonesProps)
               user_id: user.id,
               milestone_type: 'check_ins_completed',
               milestone_value: milestone,
-              achieved_date: new Date().toISOString().split('T')[0],
+              achieved_date: today,
               title: `${milestone} Check-ins Completed`,
               description: `Great job on completing ${milestone} daily check-ins!`
             }])
@@ -209,6 +215,36 @@ export default function GoalsMilestones({ user, onBack }: GoalsMilestonesProps)
         }
       }
     }
+
+    // Check streak milestones against the best run so far
+    const streakMilestones = MILESTONE_TYPES.find(m => m.type === 'check_in_streak')?.values || [];
+
+    for (const milestone of streakMilestones) {
+      if (streaks.longest >= milestone) {
+        const existing = milestones.find(m =>
+          m.milestone_type === 'check_in_streak' && m.milestone_value === milestone
+        );
+
+        if (!existing) {
+          const { data, error } = await supabase
+            .from('milestones')
+            .insert([{
+              user_id: user.id,
+              milestone_type: 'check_in_streak',
+              milestone_value: milestone,
+              achieved_date: today,
+              title: `${milestone}-Day Check-in Streak`,
+              description: `You checked in ${milestone} days in a row. Consistency builds recovery!`
+            }])
+            .select()
+            .single();
+
+          if (data && !error) {
+            setMilestones(prev => [data, ...prev]);
+          }
+        }
+      }
+    }
   };
 
   useEffect(() => {
@@ -217,25 +253,36 @@ export default function GoalsMilestones({ user, onBack }: GoalsMilestonesProps)
     }
   }, [loading]);
 
+  // Days-clean milestones belong to the recovery period they were earned in;
+  // after a reset they stay visible as history instead of counting as current.
+  // One counts as current only if the period had run long enough to earn it by
+  // the day it was awarded, which also covers a lapse backdated before it.
+  const isFromEarlierPeriod = (milestone: Milestone, startDate: string | null) =>
+    milestone.milestone_type === 'days_clean' &&
+    !!startDate &&
+    !!milestone.achieved_date &&
+    daysBetween(startDate, milestone.achieved_date) < milestone.milestone_value;
+
+  const currentMilestones = milestones.filter(m => !isFromEarlierPeriod(m, recoveryStartDate));
+  const earlierMilestones = milestones.filter(m => isFromEarlierPeriod(m, recoveryStartDate));
+
   const getGoalProgress = (goal: Goal) => {
     if (goal.is_completed) return 100;
     if (!goal.target_date) return 0;
     
-    const today = new Date();
-    const target = new Date(goal.target_date);
-    const created = new Date(goal.created_at);
+    const today = getRecoveryDay(dayContext);
+    const created = getRecoveryDay(dayContext, new Date(goal.created_at));
     
-    const totalDays = (target.getTime() - created.getTime()) / (1000 * 60 * 60 * 24);
-    const elapsedDays = (today.getTime() - created.getTime()) / (1000 * 60 * 60 * 24);
+    const totalDays = daysBetween(created, goal.target_date);
+    const elapsedDays = daysBetween(created, today);
+    
+    if (totalDays <= 0) return elapsedDays >= 0 ? 100 : 0;
     
     return Math.min(100, Math.max(0, (elapsedDays / totalDays) * 100));
   };
 
   const getDaysUntilTarget = (targetDate: string) => {
-    const today = new Date();
-    const target = new Date(targetDate);
-    const diffTime = target.getTime() - today.getTime();
-    const diffDays = Math.ceil(diffTime / (1000 * 60 * 60 * 24));
+    const diffDays = daysBetween(getRecoveryDay(dayContext), targetDate);
     
     if (diffDays < 0) return `${Math.abs(diffDays)} days overdue`;
     if (diffDays === 0) return 'Due today';
@@ -259,6 +306,7 @@ export default function GoalsMilestones({ user, onBack }: GoalsMilestonesProps)
       case 'days_clean': return '🏆';
       case 'meetings_attended': return '👥';
       case 'check_ins_completed': return '📝';
+      case 'check_in_streak': return '🔥';
       case 'goals_achieved': return '🎯';
       default: return '⭐';
     }
@@ -313,7 +361,7 @@ export default function GoalsMilestones({ user, onBack }: GoalsMilestonesProps)
                 : 'bg-white text-gray-700 hover:bg-gray-100'
             }`}
           >
-            🏆 Milestones ({milestones.length})
+            🏆 Milestones ({currentMilestones.length})
           </button>
         </div>
 
@@ -465,7 +513,7 @@ export default function GoalsMilestones({ user, onBack }: GoalsMilestonesProps)
         {/* Milestones Tab */}
         {activeTab === 'milestones' && (
           <div>
-            {milestones.length === 0 ? (
+            {currentMilestones.length === 0 ? (
               <div className="bg-white rounded-lg shadow-md p-8 text-center">
                 <span className="text-6xl mb-4 block">🏆</span>
                 <h3 className="text-xl font-semibold text-gray-900 mb-2">No milestones yet</h3>
@@ -475,7 +523,7 @@ export default function GoalsMilestones({ user, onBack }: GoalsMilestonesProps)
               </div>
             ) : (
               <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
-                {milestones.map((milestone) => (
+                {currentMilestones.map((milestone) => (
                   <div key={milestone.id} className="bg-white rounded-lg shadow-md p-6">
                     <div className="text-center">
                       <span className="text-4xl mb-3 block">
@@ -489,7 +537,7 @@ export default function GoalsMilestones({ user, onBack }: GoalsMilestonesProps)
                       </p>
                       {milestone.achieved_date && (
                         <p className="text-sm text-gray-500">
-                          Achieved on {new Date(milestone.achieved_date).toLocaleDateString()}
+                          Achieved on {formatDay(milestone.achieved_date)}
                         </p>
                       )}
                     </div>
@@ -497,6 +545,31 @@ export default function GoalsMilestones({ user, onBack }: GoalsMilestonesProps)
                 ))}
               </div>
             )}
+
+            {/* Earlier Recovery Periods */}
+            {earlierMilestones.length > 0 && (
+              <div className="mt-8">
+                <h2 className="text-xl font-semibold text-gray-900 mb-2">Earlier Recovery Periods</h2>
+                <p className="text-gray-600 mb-4">
+                  These achievements are still yours. Every day of recovery counts.
+                </p>
+                <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+                  {earlierMilestones.map((milestone) => (
+                    <div key={milestone.id} className="bg-gray-100 rounded-lg p-4 text-center">
+                      <span className="text-2xl mb-2 block opacity-75">
+                        {getMilestoneIcon(milestone.milestone_type)}
+                      </span>
+                      <h3 className="font-medium text-gray-700">{milestone.title}</h3>
+                      {milestone.achieved_date && (
+                        <p className="text-xs text-gray-500 mt-1">
+                          Achieved on {formatDay(milestone.achieved_date)}
+                        </p>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
           </div>
         )}
 
@@ -0,0 +1,243 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { supabase } from '@/lib/supabase';
+import { User } from '@supabase/auth-helpers-nextjs';
+import { toast } from 'sonner';
+import { DayContext, DEFAULT_DAY_CONTEXT, fetchDayContext, formatTime, getRecoveryDay } from '@/lib/recoveryDay';
+import { fetchTriggers, getTriggerNames, Trigger, TRIGGER_CATEGORIES } from '@/lib/triggers';
+import { getQueuedWrites, queueMomentaryCheckIn, subscribeToQueue } from '@/lib/offlineQueue';
+
+export interface MomentaryCheckIn {
+  id: string;
+  user_id: string;
+  date: string;
+  logged_at: string;
+  mood_score: number;
+  craving_intensity: number;
+  trigger_id: string | null;
+  note: string | null;
+}
+
+interface MomentaryLogProps {
+  user: User;
+}
+
+const getMoodEmoji = (score: number) => {
+  if (score <= 2) return '😢';
+  if (score <= 4) return '😔';
+  if (score <= 6) return '😐';
+  if (score <= 8) return '😊';
+  return '😄';
+};
+
+// Dashboard card for quick "how am I right now" entries. Any number can be
+// logged per day; the daily check-in stays the summary of the day.
+export default function MomentaryLog({ user }: MomentaryLogProps) {
+  const [entries, setEntries] = useState<MomentaryCheckIn[]>([]);
+  const [dayContext, setDayContext] = useState<DayContext>(DEFAULT_DAY_CONTEXT);
+  const [triggers, setTriggers] = useState<Trigger[]>([]);
+  const [pendingIds, setPendingIds] = useState<string[]>([]);
+  const [showForm, setShowForm] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [formData, setFormData] = useState({
+    mood_score: 5,
+    craving_intensity: 0,
+    trigger_id: '',
+    note: ''
+  });
+
+  useEffect(() => {
+    fetchEntries();
+    refreshPending();
+    return subscribeToQueue(refreshPending);
+  }, []);
+
+  const refreshPending = async () => {
+    const queued = await getQueuedWrites('momentary_checkin');
+    setPendingIds(queued.map(write => write.row.id));
+  };
+
+  const fetchEntries = async () => {
+    const context = await fetchDayContext(user.id);
+    setDayContext(context);
+    setTriggers(await fetchTriggers(user.id));
+
+    const today = getRecoveryDay(context);
+    const { data } = await supabase
+      .from('momentary_checkins')
+      .select('*')
+      .eq('user_id', user.id)
+      .eq('date', today)
+      .order('logged_at', { ascending: false });
+
+    // Entries logged offline aren't on the server yet but still belong in today's list
+    const serverEntries: MomentaryCheckIn[] = data || [];
+    const queued: MomentaryCheckIn[] = (await getQueuedWrites('momentary_checkin'))
+      .map(write => write.row)
+      .filter(entry => entry.user_id === user.id && entry.date === today)
+      .filter(entry => !serverEntries.some(e => e.id === entry.id));
+
+    setEntries([...queued, ...serverEntries].sort((a, b) => b.logged_at.localeCompare(a.logged_at)));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+
+    const loggedAt = new Date();
+
+    try {
+      const entry = {
+        user_id: user.id,
+        date: getRecoveryDay(dayContext, loggedAt),
+        logged_at: loggedAt.toISOString(),
+        mood_score: formData.mood_score,
+        craving_intensity: formData.craving_intensity,
+        trigger_id: formData.trigger_id || null,
+        note: formData.note || null
+      };
+      const queued = await queueMomentaryCheckIn(entry);
+
+      setEntries(prev => [{ ...entry, id: queued.id }, ...prev]);
+      setFormData({ mood_score: 5, craving_intensity: 0, trigger_id: '', note: '' });
+      setShowForm(false);
+      toast.success('Logged!');
+    } catch {
+      toast.error('Failed to log entry');
+    }
+    setIsSubmitting(false);
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-lg shadow">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-semibold">Right Now</h2>
+        {!showForm && (
+          <button
+            onClick={() => setShowForm(true)}
+            className="bg-blue-600 text-white px-3 py-1 rounded text-sm hover:bg-blue-700"
+          >
+            + Log a Moment
+          </button>
+        )}
+      </div>
+
+      {showForm && (
+        <form onSubmit={handleSubmit} className="space-y-4 mb-6 p-4 bg-gray-50 rounded-lg">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Mood {getMoodEmoji(formData.mood_score)} ({formData.mood_score}/10)
+            </label>
+            <input
+              type="range"
+              min="1"
+              max="10"
+              value={formData.mood_score}
+              onChange={(e) => setFormData(prev => ({ ...prev, mood_score: parseInt(e.target.value) }))}
+              className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Craving ({formData.craving_intensity}/10)
+            </label>
+            <input
+              type="range"
+              min="0"
+              max="10"
+              value={formData.craving_intensity}
+              onChange={(e) => setFormData(prev => ({ ...prev, craving_intensity: parseInt(e.target.value) }))}
+              className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Trigger</label>
+            <select
+              value={formData.trigger_id}
+              onChange={(e) => setFormData(prev => ({ ...prev, trigger_id: e.target.value }))}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="">None</option>
+              {TRIGGER_CATEGORIES.map(category => {
+                const categoryTriggers = triggers.filter(t => t.category === category.value && !t.is_archived);
+                if (categoryTriggers.length === 0) return null;
+
+                return (
+                  <optgroup key={category.value} label={category.label}>
+                    {categoryTriggers.map(trigger => (
+                      <option key={trigger.id} value={trigger.id}>{trigger.name}</option>
+                    ))}
+                  </optgroup>
+                );
+              })}
+            </select>
+          </div>
+
+          <div>
+            <input
+              type="text"
+              value={formData.note}
+              onChange={(e) => setFormData(prev => ({ ...prev, note: e.target.value }))}
+              placeholder="Quick note (optional)"
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+
+          <div className="flex space-x-2">
+            <button
+              type="submit"
+              disabled={isSubmitting}
+              className={`flex-1 py-2 px-4 rounded-md text-sm font-medium ${
+                isSubmitting
+                  ? 'bg-gray-400 cursor-not-allowed text-white'
+                  : 'bg-blue-600 text-white hover:bg-blue-700'
+              }`}
+            >
+              {isSubmitting ? 'Saving...' : 'Save'}
+            </button>
+            <button
+              type="button"
+              onClick={() => setShowForm(false)}
+              className="flex-1 bg-gray-600 text-white py-2 px-4 rounded-md hover:bg-gray-700 text-sm"
+            >
+              Cancel
+            </button>
+          </div>
+        </form>
+      )}
+
+      {entries.length === 0 ? (
+        <p className="text-gray-500 text-sm">
+          Nothing logged yet today. Log a moment whenever your mood or cravings shift.
+        </p>
+      ) : (
+        <div className="space-y-2">
+          {entries.map((entry) => (
+            <div key={entry.id} className="flex items-start justify-between p-3 bg-gray-50 rounded-lg">
+              <div>
+                <p className="text-sm font-medium text-gray-900">
+                  {formatTime(entry.logged_at, dayContext)} • {getMoodEmoji(entry.mood_score)} {entry.mood_score}/10
+                </p>
+                {entry.note && <p className="text-sm text-gray-600">{entry.note}</p>}
+              </div>
+              <div className="text-right text-xs">
+                {entry.craving_intensity > 0 && (
+                  <p className="text-orange-600">Craving {entry.craving_intensity}/10</p>
+                )}
+                {entry.trigger_id && (
+                  <p className="text-red-600">{getTriggerNames([entry.trigger_id], triggers)[0]}</p>
+                )}
+                <p className="text-gray-400">
+                  {pendingIds.includes(entry.id) ? '⏳ Pending sync' : '✓ Synced'}
+                </p>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -15,6 +15,11 @@ import {
   BarElement,
 } from 'chart.js';
 import { Line, Bar } from 'react-chartjs-2';
+import { DayContext, DEFAULT_DAY_CONTEXT, fetchDayContext, formatDay, formatTime, getDaysAgo } from '@/lib/recoveryDay';
+import { MomentaryCheckIn } from '@/components/MomentaryLog';
+import { fetchTriggers, getCategoryLabel, Trigger, TRIGGER_CATEGORIES } from '@/lib/triggers';
+import { fetchQuestionnaireResponses, QuestionnaireResponse, QUESTIONNAIRES } from '@/lib/questionnaires';
+import { fetchUrgeSessions, summarizeReadings, UrgeSurfSession } from '@/lib/urgeSurfing';
 
 ChartJS.register(
   CategoryScale,
@@ -37,14 +42,25 @@ interface CheckInData {
   mood_score: number;
   energy_level: number;
   sleep_quality: number;
-  trigger_tags: string[];
+  trigger_ids: string[] | null;
+  craving_frequency: number | null;
+  craving_peak_intensity: number | null;
+  craving_acted_on: boolean | null;
 }
 
+const SCREENING_COLORS = { phq9: '59, 130, 246', gad7: '168, 85, 247', auditc: '249, 115, 22' };
+
 export default function ProgressCharts({ user, onBack }: ProgressChartsProps) {
   const [checkIns, setCheckIns] = useState<CheckInData[]>([]);
   const [timeRange, setTimeRange] = useState<'7' | '30' | '90'>('30');
   const [loading, setLoading] = useState(true);
   const [triggerStats, setTriggerStats] = useState<{ [key: string]: number }>({});
+  const [categoryStats, setCategoryStats] = useState<{ [key: string]: number }>({});
+  const [momentaryEntries, setMomentaryEntries] = useState<MomentaryCheckIn[]>([]);
+  const [selectedDay, setSelectedDay] = useState<string | null>(null);
+  const [dayContext, setDayContext] = useState<DayContext>(DEFAULT_DAY_CONTEXT);
+  const [screeningResponses, setScreeningResponses] = useState<QuestionnaireResponse[]>([]);
+  const [urgeSessions, setUrgeSessions] = useState<UrgeSurfSession[]>([]);
 
   useEffect(() => {
     fetchData();
@@ -53,41 +69,62 @@ export default function ProgressCharts({ user, onBack }: ProgressChartsProps) {
   const fetchData = async () => {
     setLoading(true);
     
-    const daysAgo = new Date();
-    daysAgo.setDate(daysAgo.getDate() - parseInt(timeRange));
+    const context = await fetchDayContext(user.id);
+    const since = getDaysAgo(parseInt(timeRange), context);
+    setDayContext(context);
     
     const { data, error } = await supabase
       .from('daily_checkins')
-      .select('date, mood_score, energy_level, sleep_quality, trigger_tags')
+      .select('date, mood_score, energy_level, sleep_quality, trigger_ids, craving_frequency, craving_peak_intensity, craving_acted_on')
       .eq('user_id', user.id)
-      .gte('date', daysAgo.toISOString().split('T')[0])
+      .gte('date', since)
       .order('date', { ascending: true });
 
     if (data && !error) {
       setCheckIns(data);
-      calculateTriggerStats(data);
+      calculateTriggerStats(data, await fetchTriggers(user.id));
     }
+
+    const { data: momentaryData } = await supabase
+      .from('momentary_checkins')
+      .select('*')
+      .eq('user_id', user.id)
+      .gte('date', since)
+      .order('logged_at', { ascending: true });
+
+    const entries: MomentaryCheckIn[] = momentaryData || [];
+    setMomentaryEntries(entries);
+    setSelectedDay(entries.length > 0 ? entries[entries.length - 1].date : null);
+
+    setScreeningResponses(await fetchQuestionnaireResponses(user.id, since));
+    setUrgeSessions((await fetchUrgeSessions(user.id, since)).filter(session => session.readings.length > 1));
     
     setLoading(false);
   };
 
-  const calculateTriggerStats = (data: CheckInData[]) => {
+  const calculateTriggerStats = (data: CheckInData[], triggers: Trigger[]) => {
     const stats: { [key: string]: number } = {};
+    const byCategory: { [key: string]: number } = {};
     
     data.forEach(checkIn => {
-      if (checkIn.trigger_tags) {
-        checkIn.trigger_tags.forEach(trigger => {
-          stats[trigger] = (stats[trigger] || 0) + 1;
+      if (checkIn.trigger_ids) {
+        checkIn.trigger_ids.forEach(triggerId => {
+          const trigger = triggers.find(t => t.id === triggerId);
+          if (!trigger) return;
+
+          stats[trigger.name] = (stats[trigger.name] || 0) + 1;
+          const category = getCategoryLabel(trigger.category);
+          byCategory[category] = (byCategory[category] || 0) + 1;
         });
       }
     });
     
     setTriggerStats(stats);
+    setCategoryStats(byCategory);
   };
 
   const formatDate = (dateString: string) => {
-    const date = new Date(dateString);
-    return date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+    return formatDay(dateString, { month: 'short', day: 'numeric' });
   };
 
   // Mood Trend Chart Data
@@ -110,6 +147,106 @@ export default function ProgressCharts({ user, onBack }: ProgressChartsProps) {
     ],
   };
 
+  // Craving Trend Chart Data
+  const cravingChartData = {
+    labels: checkIns.map(item => formatDate(item.date)),
+    datasets: [
+      {
+        label: 'Peak Intensity',
+        data: checkIns.map(item => item.craving_peak_intensity || 0),
+        borderColor: 'rgb(249, 115, 22)',
+        backgroundColor: 'rgba(249, 115, 22, 0.1)',
+        borderWidth: 3,
+        fill: true,
+        tension: 0.4,
+        // Highlight days the craving was acted on
+        pointBackgroundColor: checkIns.map(item =>
+          item.craving_acted_on ? 'rgb(220, 38, 38)' : 'rgb(249, 115, 22)'
+        ),
+        pointBorderColor: 'white',
+        pointBorderWidth: 2,
+        pointRadius: 6,
+      },
+      {
+        label: 'Number of Cravings',
+        data: checkIns.map(item => item.craving_frequency || 0),
+        borderColor: 'rgb(107, 114, 128)',
+        backgroundColor: 'rgba(107, 114, 128, 0.1)',
+        borderWidth: 2,
+        borderDash: [5, 5],
+        tension: 0.4,
+      },
+    ],
+  };
+
+  // Intra-day Chart Data
+  const momentaryDays = [...new Set(momentaryEntries.map(entry => entry.date))].reverse();
+  const selectedDayEntries = momentaryEntries.filter(entry => entry.date === selectedDay);
+
+  const intraDayChartData = {
+    labels: selectedDayEntries.map(entry => formatTime(entry.logged_at, dayContext)),
+    datasets: [
+      {
+        label: 'Mood',
+        data: selectedDayEntries.map(entry => entry.mood_score),
+        borderColor: 'rgb(59, 130, 246)',
+        backgroundColor: 'rgba(59, 130, 246, 0.1)',
+        borderWidth: 2,
+        tension: 0.3,
+      },
+      {
+        label: 'Craving',
+        data: selectedDayEntries.map(entry => entry.craving_intensity),
+        borderColor: 'rgb(249, 115, 22)',
+        backgroundColor: 'rgba(249, 115, 22, 0.1)',
+        borderWidth: 2,
+        tension: 0.3,
+      },
+    ],
+  };
+
+  // Screening Scores Chart Data: one line per questionnaire over the dates any was taken
+  const screeningDates = [...new Set(screeningResponses.map(r => r.date))].sort();
+  const screeningChartData = {
+    labels: screeningDates.map(formatDate),
+    datasets: QUESTIONNAIRES
+      .filter(q => screeningResponses.some(r => r.questionnaire === q.id))
+      .map(q => ({
+        label: `${q.name} (max ${q.maxScore})`,
+        data: screeningDates.map(date =>
+          screeningResponses.find(r => r.questionnaire === q.id && r.date === date)?.total_score ?? null
+        ),
+        borderColor: `rgb(${SCREENING_COLORS[q.id]})`,
+        backgroundColor: `rgba(${SCREENING_COLORS[q.id]}, 0.1)`,
+        borderWidth: 2,
+        tension: 0.3,
+        spanGaps: true,
+      })),
+  };
+
+  // Urge Surfing Chart Data: the most recent sessions overlaid, minute by minute
+  const recentUrgeSessions = urgeSessions.slice(-5);
+  const urgeChartData = {
+    datasets: recentUrgeSessions.map((session, index) => {
+      const shade = 0.35 + (0.65 * (index + 1)) / recentUrgeSessions.length;
+      return {
+        label: `${formatDate(session.date)} ${formatTime(session.started_at, dayContext)}`,
+        data: session.readings.map(r => ({ x: r.minute, y: r.intensity })),
+        borderColor: `rgba(14, 165, 233, ${shade})`,
+        backgroundColor: `rgba(14, 165, 233, 0.1)`,
+        borderWidth: 2,
+        tension: 0.3,
+      };
+    }),
+  };
+
+  const urgeSummaries = urgeSessions.map(session => summarizeReadings(session.readings)!);
+  const averageOf = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+  const urgeInsight = urgeSummaries.length > 0 && {
+    peakMinute: Math.round(averageOf(urgeSummaries.map(s => s.peakMinute))),
+    drop: averageOf(urgeSummaries.map(s => s.dropFromPeak)).toFixed(1)
+  };
+
   // Energy & Sleep Chart Data
   const energySleepChartData = {
     labels: checkIns.map(item => formatDate(item.date)),
@@ -204,6 +341,27 @@ export default function ProgressCharts({ user, onBack }: ProgressChartsProps) {
     },
   };
 
+  const screeningOptions = {
+    ...chartOptions,
+    scales: {
+      ...chartOptions.scales,
+      y: { ...chartOptions.scales.y, max: 27 },
+    },
+  };
+
+  const urgeOptions = {
+    ...chartOptions,
+    scales: {
+      ...chartOptions.scales,
+      x: {
+        ...chartOptions.scales.x,
+        type: 'linear' as const,
+        min: 0,
+        title: { display: true, text: 'Minutes' },
+      },
+    },
+  };
+
   const triggerOptions = {
     responsive: true,
     maintainAspectRatio: false,
@@ -350,14 +508,72 @@ export default function ProgressCharts({ user, onBack }: ProgressChartsProps) {
               </div>
             )}
 
-            {/* Mood Trend Chart */}
-            <div className="bg-white rounded-lg shadow-md p-6">
-              <h2 className="text-xl font-semibold text-gray-900 mb-4">😊 Mood Trends</h2>
-              <div className="h-80">
-                <Line data={moodChartData} options={chartOptions} />
+            {/* Mood & Craving Trend Charts */}
+            <div className="grid gap-6 lg:grid-cols-2">
+              <div className="bg-white rounded-lg shadow-md p-6">
+                <h2 className="text-xl font-semibold text-gray-900 mb-4">😊 Mood Trends</h2>
+                <div className="h-80">
+                  <Line data={moodChartData} options={chartOptions} />
+                </div>
+              </div>
+
+              <div className="bg-white rounded-lg shadow-md p-6">
+                <h2 className="text-xl font-semibold text-gray-900 mb-4">🌊 Craving Trends</h2>
+                <div className="h-80">
+                  <Line data={cravingChartData} options={chartOptions} />
+                </div>
+                <p className="text-xs text-gray-500 mt-2">Red points mark days a craving was acted on</p>
               </div>
             </div>
 
+            {/* Intra-day Chart */}
+            {momentaryDays.length > 0 && (
+              <div className="bg-white rounded-lg shadow-md p-6">
+                <div className="flex items-center justify-between mb-4">
+                  <h2 className="text-xl font-semibold text-gray-900">🕐 Through the Day</h2>
+                  <select
+                    value={selectedDay || ''}
+                    onChange={(e) => setSelectedDay(e.target.value)}
+                    className="px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    {momentaryDays.map(day => (
+                      <option key={day} value={day}>
+                        {formatDay(day, { weekday: 'short', month: 'short', day: 'numeric' })}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div className="h-80">
+                  <Line data={intraDayChartData} options={chartOptions} />
+                </div>
+              </div>
+            )}
+
+            {/* Screening Scores Chart */}
+            {screeningResponses.length > 0 && (
+              <div className="bg-white rounded-lg shadow-md p-6">
+                <h2 className="text-xl font-semibold text-gray-900 mb-4">📋 Screening Scores</h2>
+                <p className="text-sm text-gray-600 mb-4">Lower scores mean fewer symptoms</p>
+                <div className="h-80">
+                  <Line data={screeningChartData} options={screeningOptions} />
+                </div>
+              </div>
+            )}
+
+            {/* Urge Surfing Chart */}
+            {urgeSessions.length > 0 && urgeInsight && (
+              <div className="bg-white rounded-lg shadow-md p-6">
+                <h2 className="text-xl font-semibold text-gray-900 mb-4">🌊 Urge Surfing</h2>
+                <p className="text-sm text-gray-600 mb-4">
+                  Across {urgeSessions.length} session{urgeSessions.length === 1 ? '' : 's'}, your urges peaked around
+                  minute {urgeInsight.peakMinute} and eased by {urgeInsight.drop} points by the end. Urges pass.
+                </p>
+                <div className="h-80">
+                  <Line data={urgeChartData} options={urgeOptions} />
+                </div>
+              </div>
+            )}
+
             {/* Energy & Sleep Chart */}
             <div className="bg-white rounded-lg shadow-md p-6">
               <h2 className="text-xl font-semibold text-gray-900 mb-4">⚡ Energy & Sleep</h2>
@@ -395,6 +611,22 @@ export default function ProgressCharts({ user, onBack }: ProgressChartsProps) {
               </div>
             )}
 
+            {/* Trigger Categories */}
+            {Object.keys(categoryStats).length > 0 && (
+              <div className="bg-white rounded-lg shadow-md p-6">
+                <h2 className="text-xl font-semibold text-gray-900 mb-4">🗂️ Triggers by Category</h2>
+                <div className="grid gap-4 md:grid-cols-5">
+                  {TRIGGER_CATEGORIES.map(category => (
+                    <div key={category.value} className="text-center p-4 bg-gray-50 rounded-lg">
+                      <span className="text-2xl block mb-1">{category.icon}</span>
+                      <p className="text-2xl font-bold text-gray-900">{categoryStats[category.label] || 0}</p>
+                      <p className="text-sm text-gray-600">{category.label}</p>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
             {/* Summary Stats */}
             <div className="grid gap-6 md:grid-cols-3">
               <div className="bg-white rounded-lg shadow-md p-6">
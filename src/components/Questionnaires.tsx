@@ -0,0 +1,379 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { supabase } from '@/lib/supabase';
+import { User } from '@supabase/auth-helpers-nextjs';
+import { toast } from 'sonner';
+import { fetchDayContext, formatDay, getRecoveryDay } from '@/lib/recoveryDay';
+import {
+  CADENCE_OPTIONS,
+  fetchQuestionnaireCadence,
+  fetchQuestionnaireResponses,
+  getCadenceDays,
+  getNextDueDate,
+  getQuestionnaire,
+  getSeverityBand,
+  isCrisisAnswer,
+  Questionnaire,
+  QuestionnaireCadence,
+  QuestionnaireResponse,
+  QUESTIONNAIRES,
+  scoreQuestionnaire
+} from '@/lib/questionnaires';
+import CrisisPanel from '@/components/CrisisPanel';
+
+interface QuestionnairesProps {
+  user: User;
+  onBack: () => void;
+  onOpenSafetyPlan?: () => void;
+}
+
+export default function Questionnaires({ user, onBack, onOpenSafetyPlan }: QuestionnairesProps) {
+  const [responses, setResponses] = useState<QuestionnaireResponse[]>([]);
+  const [cadence, setCadence] = useState<QuestionnaireCadence>({});
+  const [today, setToday] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [activeQuestionnaire, setActiveQuestionnaire] = useState<Questionnaire | null>(null);
+
+  useEffect(() => {
+    fetchData();
+  }, []);
+
+  const fetchData = async () => {
+    setToday(getRecoveryDay(await fetchDayContext(user.id)));
+    setCadence(await fetchQuestionnaireCadence(user.id));
+    setResponses(await fetchQuestionnaireResponses(user.id));
+    setLoading(false);
+  };
+
+  const updateCadence = async (id: Questionnaire['id'], days: number) => {
+    const next = { ...cadence, [id]: days };
+
+    const { error } = await supabase
+      .from('user_profiles')
+      .update({ questionnaire_cadence: next, updated_at: new Date().toISOString() })
+      .eq('id', user.id);
+
+    if (error) {
+      toast.error('Failed to update schedule');
+    } else {
+      setCadence(next);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gray-50 p-4">
+        <div className="max-w-4xl mx-auto">
+          <div className="flex items-center justify-center h-64">
+            <div className="text-lg text-gray-600">Loading questionnaires...</div>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (activeQuestionnaire) {
+    return (
+      <QuestionnaireForm
+        user={user}
+        questionnaire={activeQuestionnaire}
+        date={today}
+        onClose={() => setActiveQuestionnaire(null)}
+        onSave={(response) => setResponses(prev => [response, ...prev])}
+        onOpenSafetyPlan={onOpenSafetyPlan}
+      />
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-4">
+      <div className="max-w-4xl mx-auto">
+        {/* Header */}
+        <div className="mb-8">
+          <button
+            onClick={onBack}
+            className="mb-4 text-blue-600 hover:text-blue-700 flex items-center"
+          >
+            ← Back to Dashboard
+          </button>
+          <h1 className="text-3xl font-bold text-gray-900">Check-Up Questionnaires</h1>
+          <p className="text-gray-600">Standard screening questions you can share with your care team</p>
+        </div>
+
+        {/* Questionnaire Cards */}
+        <div className="grid gap-6 md:grid-cols-3 mb-8">
+          {QUESTIONNAIRES.map((questionnaire) => {
+            const last = responses.find(r => r.questionnaire === questionnaire.id);
+            const dueDate = getNextDueDate(questionnaire.id, cadence, last, today);
+            const isDue = !!dueDate && dueDate <= today;
+
+            return (
+              <div key={questionnaire.id} className="bg-white rounded-lg shadow-md p-6 flex flex-col">
+                <div className="flex items-center justify-between mb-1">
+                  <h2 className="text-xl font-semibold text-gray-900">{questionnaire.name}</h2>
+                  {isDue && (
+                    <span className="bg-blue-100 text-blue-800 text-xs px-2 py-1 rounded">Due</span>
+                  )}
+                </div>
+                <p className="text-sm text-gray-600 mb-4">{questionnaire.description}</p>
+
+                {last ? (
+                  <div className="mb-4">
+                    <p className="text-sm text-gray-500">
+                      Last: {formatDay(last.date, { month: 'short', day: 'numeric' })}
+                    </p>
+                    <p className="text-2xl font-bold text-gray-900">
+                      {last.total_score}<span className="text-sm text-gray-500">/{questionnaire.maxScore}</span>
+                    </p>
+                    <span className={`text-xs px-2 py-1 rounded ${getSeverityBand(questionnaire, last.total_score).color}`}>
+                      {last.severity}
+                    </span>
+                  </div>
+                ) : (
+                  <p className="text-sm text-gray-500 mb-4">Not taken yet</p>
+                )}
+
+                {dueDate && !isDue && (
+                  <p className="text-xs text-gray-500 mb-2">
+                    Next due {formatDay(dueDate, { month: 'short', day: 'numeric' })}
+                  </p>
+                )}
+
+                <select
+                  value={getCadenceDays(cadence, questionnaire.id)}
+                  onChange={(e) => updateCadence(questionnaire.id, parseInt(e.target.value))}
+                  className="w-full mb-4 px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  {CADENCE_OPTIONS.map(option => (
+                    <option key={option.value} value={option.value}>{option.label}</option>
+                  ))}
+                </select>
+
+                <button
+                  onClick={() => setActiveQuestionnaire(questionnaire)}
+                  className="mt-auto w-full bg-blue-600 text-white py-2 px-4 rounded-md hover:bg-blue-700"
+                >
+                  {isDue ? 'Take Now' : 'Take Again'}
+                </button>
+              </div>
+            );
+          })}
+        </div>
+
+        {/* History */}
+        <div className="bg-white rounded-lg shadow-md">
+          <div className="p-6 border-b border-gray-200">
+            <h2 className="text-xl font-semibold text-gray-900">History</h2>
+          </div>
+
+          {responses.length === 0 ? (
+            <div className="p-8 text-center">
+              <span className="text-6xl mb-4 block">📋</span>
+              <p className="text-gray-600">No questionnaires completed yet.</p>
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Date</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Questionnaire</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Score</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Severity</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {responses.map((response) => {
+                    const questionnaire = getQuestionnaire(response.questionnaire);
+                    return (
+                      <tr key={response.id}>
+                        <td className="px-6 py-4 text-sm text-gray-900">
+                          {formatDay(response.date, { month: 'short', day: 'numeric', year: 'numeric' })}
+                        </td>
+                        <td className="px-6 py-4 text-sm text-gray-900">{questionnaire.name}</td>
+                        <td className="px-6 py-4 text-sm text-gray-900">
+                          {response.total_score}/{questionnaire.maxScore}
+                        </td>
+                        <td className="px-6 py-4 text-sm">
+                          <span className={`text-xs px-2 py-1 rounded ${getSeverityBand(questionnaire, response.total_score).color}`}>
+                            {response.severity}
+                          </span>
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// Questionnaire Form Component
+function QuestionnaireForm({
+  user,
+  questionnaire,
+  date,
+  onClose,
+  onSave,
+  onOpenSafetyPlan
+}: {
+  user: User;
+  questionnaire: Questionnaire;
+  date: string;
+  onClose: () => void;
+  onSave: (response: QuestionnaireResponse) => void;
+  onOpenSafetyPlan?: () => void;
+}) {
+  const [answers, setAnswers] = useState<(number | null)[]>(questionnaire.items.map(() => null));
+  const [showCrisisPanel, setShowCrisisPanel] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [result, setResult] = useState<QuestionnaireResponse | null>(null);
+
+  const isComplete = answers.every(answer => answer !== null);
+  const hasCrisisAnswer = answers.some((answer, index) =>
+    answer !== null && isCrisisAnswer(questionnaire.id, index, answer)
+  );
+
+  const setAnswer = (index: number, value: number) => {
+    setAnswers(prev => prev.map((answer, i) => i === index ? value : answer));
+    // Don't wait for the end of the form to offer help
+    if (isCrisisAnswer(questionnaire.id, index, value)) {
+      setShowCrisisPanel(true);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!isComplete) return;
+
+    setIsSubmitting(true);
+    const values = answers as number[];
+    const { total, band } = scoreQuestionnaire(questionnaire, values);
+
+    const { data, error } = await supabase
+      .from('questionnaire_responses')
+      .insert([{
+        user_id: user.id,
+        questionnaire: questionnaire.id,
+        date,
+        answers: values,
+        total_score: total,
+        severity: band.label,
+        completed_at: new Date().toISOString()
+      }])
+      .select()
+      .single();
+
+    if (error) {
+      toast.error('Failed to save questionnaire: ' + error.message);
+    } else {
+      onSave(data);
+      setResult(data);
+    }
+    setIsSubmitting(false);
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-4">
+      <div className="max-w-2xl mx-auto">
+        <button
+          onClick={onClose}
+          className="mb-4 text-blue-600 hover:text-blue-700 flex items-center"
+        >
+          ← Back to Questionnaires
+        </button>
+
+        <div className="bg-white rounded-lg shadow-md p-6">
+          <h2 className="text-2xl font-bold text-gray-900 mb-2">{questionnaire.name}</h2>
+
+          {result ? (
+            <div className="text-center py-6">
+              <p className="text-gray-600 mb-2">Your score</p>
+              <p className="text-5xl font-bold text-gray-900 mb-3">
+                {result.total_score}<span className="text-xl text-gray-500">/{questionnaire.maxScore}</span>
+              </p>
+              <span className={`px-3 py-1 rounded ${getSeverityBand(questionnaire, result.total_score).color}`}>
+                {result.severity}
+              </span>
+              <p className="text-sm text-gray-500 mt-6">
+                This is a screening result, not a diagnosis. Consider sharing it with your doctor or counselor.
+              </p>
+
+              {hasCrisisAnswer && (
+                <button
+                  onClick={() => setShowCrisisPanel(true)}
+                  className="mt-6 w-full bg-red-600 text-white py-2 px-4 rounded-md hover:bg-red-700 font-medium"
+                >
+                  🚨 Get Crisis Support
+                </button>
+              )}
+
+              <button
+                onClick={onClose}
+                className="mt-3 w-full bg-gray-600 text-white py-2 px-4 rounded-md hover:bg-gray-700"
+              >
+                Done
+              </button>
+            </div>
+          ) : (
+            <form onSubmit={handleSubmit} className="space-y-6">
+              <p className="text-gray-600">{questionnaire.prompt}</p>
+
+              {questionnaire.items.map((item, index) => (
+                <div key={index}>
+                  <p className="text-sm font-medium text-gray-900 mb-2">
+                    {index + 1}. {item.text}
+                  </p>
+                  <div className="grid gap-2 sm:grid-cols-2">
+                    {item.options.map((option) => (
+                      <button
+                        key={option.value}
+                        type="button"
+                        onClick={() => setAnswer(index, option.value)}
+                        className={`px-3 py-2 text-sm rounded-md border text-left transition-colors ${
+                          answers[index] === option.value
+                            ? 'bg-blue-100 border-blue-300 text-blue-800'
+                            : 'bg-gray-50 border-gray-300 text-gray-700 hover:bg-gray-100'
+                        }`}
+                      >
+                        {option.label}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              ))}
+
+              <div className="flex justify-end">
+                <button
+                  type="submit"
+                  disabled={!isComplete || isSubmitting}
+                  className={`px-6 py-3 text-white font-medium rounded-md transition-colors ${
+                    !isComplete || isSubmitting
+                      ? 'bg-gray-400 cursor-not-allowed'
+                      : 'bg-blue-600 hover:bg-blue-700'
+                  }`}
+                >
+                  {isSubmitting ? 'Saving...' : 'See My Score'}
+                </button>
+              </div>
+            </form>
+          )}
+        </div>
+      </div>
+
+      {showCrisisPanel && (
+        <CrisisPanel
+          userId={user.id}
+          message="Thank you for answering honestly. You don't have to handle these thoughts alone. Please reach out now."
+          onClose={() => setShowCrisisPanel(false)}
+          onOpenSafetyPlan={onOpenSafetyPlan}
+        />
+      )}
+    </div>
+  );
+}
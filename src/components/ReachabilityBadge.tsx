@@ -0,0 +1,26 @@
+'use client';
+
+import { EmergencyContact } from '@/lib/contacts';
+import { formatContactTime, getReachability, REACHABILITY_LABELS } from '@/lib/availability';
+
+interface ReachabilityBadgeProps {
+  contact: EmergencyContact;
+  // The user's profile timezone, for contacts without one of their own
+  timezone: string;
+  now: Date;
+}
+
+export default function ReachabilityBadge({ contact, timezone, now }: ReachabilityBadgeProps) {
+  const { icon, label, className } = REACHABILITY_LABELS[getReachability(contact, timezone, now)];
+  const theirTime = formatContactTime(contact, timezone, now);
+
+  return (
+    <span className="inline-flex flex-wrap items-center gap-1 text-xs">
+      <span className={`px-2 py-0.5 rounded ${className}`}>{icon} {label}</span>
+      {theirTime && <span className="text-gray-500">{theirTime}</span>}
+      {contact.preferred_channel && (
+        <span className="text-gray-500">· Prefers {contact.preferred_channel === 'call' ? 'calls' : 'texts'}</span>
+      )}
+    </span>
+  );
+}
@@ -0,0 +1,530 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { supabase } from '@/lib/supabase';
+import { User } from '@supabase/auth-helpers-nextjs';
+import { toast } from 'sonner';
+import { loadSnapshot } from '@/lib/offlineCache';
+import {
+  EMPTY_SAFETY_PLAN,
+  fetchSafetyPlanHistory,
+  isSafetyPlanEmpty,
+  SAFETY_PLAN_STEPS,
+  SafetyPlan as SafetyPlanVersion,
+  SafetyPlanListSection,
+  SafetyPlanSections,
+  saveSafetyPlan
+} from '@/lib/safetyPlan';
+
+interface SafetyPlanProps {
+  user: User;
+  onBack: () => void;
+}
+
+interface LinkedContact {
+  id: string;
+  name: string;
+  phone: string;
+  relationship: string | null;
+}
+
+interface LinkedStrategy {
+  id: string;
+  title: string;
+  category: string;
+}
+
+export default function SafetyPlan({ user, onBack }: SafetyPlanProps) {
+  const [plans, setPlans] = useState<SafetyPlanVersion[]>([]);
+  const [contacts, setContacts] = useState<LinkedContact[]>([]);
+  const [strategies, setStrategies] = useState<LinkedStrategy[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [offlineCopyFrom, setOfflineCopyFrom] = useState<string | null>(null);
+  const [isEditing, setIsEditing] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  // An older version being looked at; null shows the current plan
+  const [viewingVersion, setViewingVersion] = useState<number | null>(null);
+
+  useEffect(() => {
+    fetchPlan();
+  }, []);
+
+  const fetchPlan = async () => {
+    const history = await fetchSafetyPlanHistory(user.id);
+    setPlans(history.plans);
+    setOfflineCopyFrom(history.offlineCopyFrom);
+
+    const [{ data: contactData }, { data: strategyData }] = await Promise.all([
+      supabase
+        .from('emergency_contacts')
+        .select('id, name, phone, relationship')
+        .eq('user_id', user.id)
+        .order('priority_level'),
+      supabase
+        .from('coping_strategies')
+        .select('id, title, category')
+        .or(`user_id.eq.${user.id},user_id.is.null`)
+        .order('title')
+    ]);
+
+    setContacts(contactData || (await loadSnapshot<LinkedContact>('emergency_contacts', user.id))?.rows || []);
+    setStrategies(strategyData || (await loadSnapshot<LinkedStrategy>('coping_strategies', user.id))?.rows || []);
+    setLoading(false);
+  };
+
+  const currentPlan = plans[0] || null;
+  const shownPlan = plans.find(p => p.version === viewingVersion) || currentPlan;
+
+  const handleSave = async (sections: SafetyPlanSections) => {
+    try {
+      const saved = await saveSafetyPlan(user.id, sections, currentPlan?.version || 0);
+      setPlans(prev => [saved, ...prev]);
+      setIsEditing(false);
+      setViewingVersion(null);
+      toast.success(currentPlan ? 'Safety plan updated' : 'Safety plan saved');
+    } catch (error: unknown) {
+      toast.error('Failed to save safety plan: ' + (error as Error).message);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gray-50 p-4">
+        <div className="max-w-4xl mx-auto">
+          <div className="flex items-center justify-center h-64">
+            <div className="text-lg text-gray-600">Loading safety plan...</div>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (isEditing) {
+    return (
+      <SafetyPlanForm
+        initial={shownPlan?.sections || EMPTY_SAFETY_PLAN}
+        contacts={contacts}
+        strategies={strategies}
+        onCancel={() => setIsEditing(false)}
+        onSave={handleSave}
+      />
+    );
+  }
+
+  const sections = shownPlan?.sections;
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-4 print:bg-white">
+      <div className="max-w-4xl mx-auto">
+        {/* Header */}
+        <div className="flex items-center justify-between mb-8">
+          <div>
+            <button
+              onClick={onBack}
+              className="mb-4 text-blue-600 hover:text-blue-700 flex items-center print:hidden"
+            >
+              ← Back to Dashboard
+            </button>
+            <h1 className="text-3xl font-bold text-gray-900">My Safety Plan</h1>
+            <p className="text-gray-600">
+              {shownPlan
+                ? `Version ${shownPlan.version} · saved ${new Date(shownPlan.created_at).toLocaleDateString()}`
+                : 'What to do, step by step, when things get bad'}
+            </p>
+          </div>
+
+          {currentPlan && (
+            <div className="flex space-x-2 print:hidden">
+              <button
+                onClick={() => window.print()}
+                className="bg-gray-600 text-white px-4 py-2 rounded-md hover:bg-gray-700"
+              >
+                🖨️ Print
+              </button>
+              <button
+                onClick={() => setShowHistory(!showHistory)}
+                className="bg-gray-600 text-white px-4 py-2 rounded-md hover:bg-gray-700"
+              >
+                🕘 History
+              </button>
+              <button
+                onClick={() => setIsEditing(true)}
+                disabled={!!offlineCopyFrom}
+                className="bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700 disabled:bg-gray-400"
+              >
+                Edit Plan
+              </button>
+            </div>
+          )}
+        </div>
+
+        {offlineCopyFrom && (
+          <div className="mb-6 p-4 bg-yellow-50 border border-yellow-200 rounded-md print:hidden">
+            <p className="text-yellow-800 text-sm">
+              📴 You are offline. Showing the plan saved on this device on {new Date(offlineCopyFrom).toLocaleString()}.
+            </p>
+          </div>
+        )}
+
+        {/* Version History */}
+        {showHistory && (
+          <div className="bg-white rounded-lg shadow-md p-6 mb-6 print:hidden">
+            <h2 className="text-lg font-semibold text-gray-900 mb-3">Earlier Versions</h2>
+            <div className="divide-y divide-gray-200">
+              {plans.map(plan => (
+                <div key={plan.id} className="flex items-center justify-between py-2">
+                  <span className="text-sm text-gray-700">
+                    Version {plan.version} · {new Date(plan.created_at).toLocaleString()}
+                    {plan.version === currentPlan?.version && ' (current)'}
+                  </span>
+                  <button
+                    onClick={() => setViewingVersion(plan.version === currentPlan?.version ? null : plan.version)}
+                    className="text-sm text-blue-600 hover:text-blue-700"
+                  >
+                    View
+                  </button>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {viewingVersion !== null && shownPlan && (
+          <div className="mb-6 p-4 bg-blue-50 border border-blue-200 rounded-md flex items-center justify-between print:hidden">
+            <p className="text-blue-800 text-sm">You are looking at an earlier version of your plan.</p>
+            <div className="flex space-x-3">
+              <button
+                onClick={() => handleSave(shownPlan.sections)}
+                disabled={!!offlineCopyFrom}
+                className="text-sm text-blue-700 font-medium hover:text-blue-800"
+              >
+                Restore this version
+              </button>
+              <button
+                onClick={() => setViewingVersion(null)}
+                className="text-sm text-gray-600 hover:text-gray-700"
+              >
+                Back to current
+              </button>
+            </div>
+          </div>
+        )}
+
+        {!sections || isSafetyPlanEmpty(sections) ? (
+          <div className="bg-white rounded-lg shadow-md p-8 text-center">
+            <span className="text-6xl mb-4 block">🛟</span>
+            <h3 className="text-xl font-semibold text-gray-900 mb-2">No safety plan yet</h3>
+            <p className="text-gray-600 mb-4">
+              A safety plan is a short list you write while you feel okay, to follow when you don&apos;t.
+              It takes about 15 minutes, and you can ask your therapist or sponsor to help.
+            </p>
+            <button
+              onClick={() => setIsEditing(true)}
+              disabled={!!offlineCopyFrom}
+              className="bg-blue-600 text-white px-6 py-2 rounded-md hover:bg-blue-700 disabled:bg-gray-400"
+            >
+              Build My Safety Plan
+            </button>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {sections.reasons_for_living.length > 0 && (
+              <div className="bg-green-50 border border-green-200 rounded-lg p-6 print:border-gray-300">
+                <h2 className="text-lg font-semibold text-green-900 mb-2">💚 What makes life worth living</h2>
+                <ul className="list-disc list-inside text-green-900 space-y-1">
+                  {sections.reasons_for_living.map((reason, i) => <li key={i}>{reason}</li>)}
+                </ul>
+              </div>
+            )}
+
+            {SAFETY_PLAN_STEPS.map(({ step, title, description }) => (
+              <div key={step} className="bg-white rounded-lg shadow-md p-6 print:shadow-none print:border print:border-gray-300">
+                <div className="flex items-start mb-3">
+                  <span className="w-8 h-8 rounded-full bg-blue-600 text-white flex items-center justify-center font-bold mr-3 flex-shrink-0">
+                    {step}
+                  </span>
+                  <div>
+                    <h2 className="text-lg font-semibold text-gray-900">{title}</h2>
+                    <p className="text-sm text-gray-600">{description}</p>
+                  </div>
+                </div>
+                <div className="ml-11">
+                  <SafetyPlanStepItems step={step} sections={sections} contacts={contacts} strategies={strategies} />
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+// What to show under each numbered step
+function SafetyPlanStepItems({ step, sections, contacts, strategies }: {
+  step: number;
+  sections: SafetyPlanSections;
+  contacts: LinkedContact[];
+  strategies: LinkedStrategy[];
+}) {
+  const renderList = (items: string[]) => items.length > 0
+    ? <ul className="list-disc list-inside text-gray-800 space-y-1">{items.map((item, i) => <li key={i}>{item}</li>)}</ul>
+    : <p className="text-sm text-gray-400 italic">Nothing added yet</p>;
+
+  switch (step) {
+    case 1:
+      return renderList(sections.warning_signs);
+    case 2:
+      return renderList([
+        ...strategies.filter(s => sections.coping_strategy_ids.includes(s.id)).map(s => s.title),
+        ...sections.coping_notes
+      ]);
+    case 3:
+      return renderList(sections.distractions);
+    case 4:
+      return renderList(
+        contacts
+          .filter(c => sections.help_contact_ids.includes(c.id))
+          .map(c => `${c.name}${c.relationship ? ` (${c.relationship})` : ''} · ${c.phone}`)
+      );
+    case 5:
+      return renderList(sections.professionals.map(p => `${p.name} · ${p.phone}`));
+    case 6:
+      return renderList(sections.means_restriction);
+    default:
+      return null;
+  }
+}
+
+// Safety Plan Form Component
+function SafetyPlanForm({ initial, contacts, strategies, onCancel, onSave }: {
+  initial: SafetyPlanSections;
+  contacts: LinkedContact[];
+  strategies: LinkedStrategy[];
+  onCancel: () => void;
+  onSave: (sections: SafetyPlanSections) => Promise<void>;
+}) {
+  const [sections, setSections] = useState<SafetyPlanSections>(initial);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const setList = (key: SafetyPlanListSection, items: string[]) => {
+    setSections(prev => ({ ...prev, [key]: items }));
+  };
+
+  const toggleId = (key: 'coping_strategy_ids' | 'help_contact_ids', id: string) => {
+    setSections(prev => ({
+      ...prev,
+      [key]: prev[key].includes(id) ? prev[key].filter(existing => existing !== id) : [...prev[key], id]
+    }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+
+    // Blank rows are just unused inputs
+    const clean = (items: string[]) => items.map(item => item.trim()).filter(Boolean);
+    await onSave({
+      ...sections,
+      warning_signs: clean(sections.warning_signs),
+      coping_notes: clean(sections.coping_notes),
+      distractions: clean(sections.distractions),
+      means_restriction: clean(sections.means_restriction),
+      reasons_for_living: clean(sections.reasons_for_living),
+      professionals: sections.professionals.filter(p => p.name.trim() || p.phone.trim())
+    });
+    setIsSaving(false);
+  };
+
+  const stepHeader = (step: number) => {
+    const { title, description } = SAFETY_PLAN_STEPS[step - 1];
+    return (
+      <div className="mb-3">
+        <h2 className="text-lg font-semibold text-gray-900">Step {step}: {title}</h2>
+        <p className="text-sm text-gray-600">{description}</p>
+      </div>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-4">
+      <div className="max-w-3xl mx-auto">
+        <button
+          onClick={onCancel}
+          className="mb-4 text-blue-600 hover:text-blue-700 flex items-center"
+        >
+          ← Back to Safety Plan
+        </button>
+        <h1 className="text-3xl font-bold text-gray-900 mb-6">Edit Safety Plan</h1>
+
+        <form onSubmit={handleSubmit} className="space-y-6">
+          <div className="bg-white rounded-lg shadow-md p-6">
+            {stepHeader(1)}
+            <ListEditor items={sections.warning_signs} onChange={items => setList('warning_signs', items)} placeholder={SAFETY_PLAN_STEPS[0].placeholder} />
+          </div>
+
+          <div className="bg-white rounded-lg shadow-md p-6">
+            {stepHeader(2)}
+            <p className="text-sm font-medium text-gray-700 mb-2">From my coping toolkit</p>
+            <div className="grid gap-2 md:grid-cols-2 mb-4 max-h-60 overflow-y-auto">
+              {strategies.map(strategy => (
+                <label key={strategy.id} className="flex items-center text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={sections.coping_strategy_ids.includes(strategy.id)}
+                    onChange={() => toggleId('coping_strategy_ids', strategy.id)}
+                    className="mr-2"
+                  />
+                  {strategy.title}
+                  <span className="ml-1 text-xs text-gray-400">({strategy.category})</span>
+                </label>
+              ))}
+            </div>
+            <p className="text-sm font-medium text-gray-700 mb-2">Anything else</p>
+            <ListEditor items={sections.coping_notes} onChange={items => setList('coping_notes', items)} placeholder={SAFETY_PLAN_STEPS[1].placeholder} />
+          </div>
+
+          <div className="bg-white rounded-lg shadow-md p-6">
+            {stepHeader(3)}
+            <ListEditor items={sections.distractions} onChange={items => setList('distractions', items)} placeholder={SAFETY_PLAN_STEPS[2].placeholder} />
+          </div>
+
+          <div className="bg-white rounded-lg shadow-md p-6">
+            {stepHeader(4)}
+            {contacts.length === 0 ? (
+              <p className="text-sm text-gray-500">Add people in Emergency Contacts and they will show up here.</p>
+            ) : (
+              <div className="space-y-2">
+                {contacts.map(contact => (
+                  <label key={contact.id} className="flex items-center text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={sections.help_contact_ids.includes(contact.id)}
+                      onChange={() => toggleId('help_contact_ids', contact.id)}
+                      className="mr-2"
+                    />
+                    {contact.name}
+                    {contact.relationship && <span className="ml-1 text-xs text-gray-400">({contact.relationship})</span>}
+                  </label>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div className="bg-white rounded-lg shadow-md p-6">
+            {stepHeader(5)}
+            <div className="space-y-2">
+              {sections.professionals.map((professional, index) => (
+                <div key={index} className="flex space-x-2">
+                  <input
+                    type="text"
+                    value={professional.name}
+                    onChange={(e) => setSections(prev => ({
+                      ...prev,
+                      professionals: prev.professionals.map((p, i) => i === index ? { ...p, name: e.target.value } : p)
+                    }))}
+                    placeholder="e.g. Dr. Lee, my therapist"
+                    className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                  <input
+                    type="tel"
+                    value={professional.phone}
+                    onChange={(e) => setSections(prev => ({
+                      ...prev,
+                      professionals: prev.professionals.map((p, i) => i === index ? { ...p, phone: e.target.value } : p)
+                    }))}
+                    placeholder="Phone"
+                    className="w-40 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                  <button
+                    type="button"
+                    onClick={() => setSections(prev => ({ ...prev, professionals: prev.professionals.filter((_, i) => i !== index) }))}
+                    className="text-red-600 hover:text-red-700 px-2"
+                  >
+                    ✕
+                  </button>
+                </div>
+              ))}
+            </div>
+            <button
+              type="button"
+              onClick={() => setSections(prev => ({ ...prev, professionals: [...prev.professionals, { name: '', phone: '' }] }))}
+              className="mt-2 text-sm text-blue-600 hover:text-blue-700"
+            >
+              + Add professional or agency
+            </button>
+          </div>
+
+          <div className="bg-white rounded-lg shadow-md p-6">
+            {stepHeader(6)}
+            <ListEditor items={sections.means_restriction} onChange={items => setList('means_restriction', items)} placeholder={SAFETY_PLAN_STEPS[5].placeholder} />
+          </div>
+
+          <div className="bg-white rounded-lg shadow-md p-6">
+            <div className="mb-3">
+              <h2 className="text-lg font-semibold text-gray-900">What makes life worth living</h2>
+              <p className="text-sm text-gray-600">The people, plans and things that matter most to me</p>
+            </div>
+            <ListEditor items={sections.reasons_for_living} onChange={items => setList('reasons_for_living', items)} placeholder="e.g. My daughter" />
+          </div>
+
+          <div className="flex space-x-4">
+            <button
+              type="submit"
+              disabled={isSaving}
+              className="flex-1 bg-blue-600 text-white py-3 px-4 rounded-md hover:bg-blue-700 font-medium disabled:bg-gray-400"
+            >
+              {isSaving ? 'Saving...' : 'Save Safety Plan'}
+            </button>
+            <button
+              type="button"
+              onClick={onCancel}
+              className="flex-1 bg-gray-600 text-white py-3 px-4 rounded-md hover:bg-gray-700 font-medium"
+            >
+              Cancel
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
+
+// Editable list of free-text items
+function ListEditor({ items, onChange, placeholder }: {
+  items: string[];
+  onChange: (items: string[]) => void;
+  placeholder?: string;
+}) {
+  return (
+    <div>
+      <div className="space-y-2">
+        {items.map((item, index) => (
+          <div key={index} className="flex space-x-2">
+            <input
+              type="text"
+              value={item}
+              onChange={(e) => onChange(items.map((existing, i) => i === index ? e.target.value : existing))}
+              placeholder={placeholder}
+              className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            <button
+              type="button"
+              onClick={() => onChange(items.filter((_, i) => i !== index))}
+              className="text-red-600 hover:text-red-700 px-2"
+            >
+              ✕
+            </button>
+          </div>
+        ))}
+      </div>
+      <button
+        type="button"
+        onClick={() => onChange([...items, ''])}
+        className="mt-2 text-sm text-blue-600 hover:text-blue-700"
+      >
+        + Add
+      </button>
+    </div>
+  );
+}
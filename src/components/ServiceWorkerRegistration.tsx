@@ -0,0 +1,24 @@
+'use client';
+
+import { useEffect } from 'react';
+
+// Registers the app shell service worker. Skipped in development so hot
+// reloading never serves stale bundles.
+export default function ServiceWorkerRegistration() {
+  useEffect(() => {
+    if (process.env.NODE_ENV !== 'production' || !('serviceWorker' in navigator)) return;
+
+    navigator.serviceWorker.register('/sw.js')
+      .then(() => navigator.serviceWorker.ready)
+      .then(registration => {
+        // Scripts this page loaded before the worker was in control
+        const urls = performance.getEntriesByType('resource').map(entry => entry.name);
+        registration.active?.postMessage({ type: 'CACHE_URLS', urls });
+      })
+      .catch(() => {
+        // The app works without it; only offline support is lost
+      });
+  }, []);
+
+  return null;
+}
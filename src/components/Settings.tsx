@@ -4,14 +4,24 @@ import { useState, useEffect } from 'react';
 import { supabase } from '@/lib/supabase';
 import { User } from '@supabase/auth-helpers-nextjs';
 import { toast } from 'sonner';
+import { daysBetween, getRecoveryDay } from '@/lib/recoveryDay';
+import { syncCurrentPeriodStart } from '@/lib/sobriety';
+import { CUE_SOUND_OPTIONS, CueSettings, CueSound, DEFAULT_CUE_SETTINGS, useCuePlayer } from '@/lib/cues';
+import { getCountryFromTimezone, HOTLINE_COUNTRIES } from '@/lib/hotlines';
+import SupporterAccess from '@/components/SupporterAccess';
 
 interface UserProfile {
   id: string;
   recovery_start_date: string | null;
   timezone: string;
+  // Chooses the crisis line directory; null guesses from the timezone
+  country: string | null;
+  day_rollover_hour: number;
+  streak_grace_days: number;
   privacy_settings: {
     anonymous: boolean;
     share_progress: boolean;
+    share_sos_events?: boolean;
     data_analytics: boolean;
   };
   notification_preferences: {
@@ -21,6 +31,7 @@ interface UserProfile {
     crisis_check_ins: boolean;
     reminder_time: string;
   };
+  cue_settings: CueSettings | null;
   created_at: string;
   updated_at: string;
 }
@@ -32,9 +43,13 @@ interface SettingsProps {
 
 const TIMEZONES = [
   'America/New_York', 'America/Chicago', 'America/Denver', 'America/Los_Angeles',
-  'America/Phoenix', 'America/Anchorage', 'Pacific/Honolulu', 'UTC'
+  'America/Phoenix', 'America/Anchorage', 'Pacific/Honolulu', 'America/Toronto',
+  'America/Vancouver', 'Europe/London', 'Europe/Dublin', 'Australia/Sydney',
+  'Australia/Perth', 'Pacific/Auckland', 'UTC'
 ];
 
+const DAY_ROLLOVER_HOURS = [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11];
+
 const RECOVERY_PROGRAMS = [
   'Alcoholics Anonymous (AA)', 'Narcotics Anonymous (NA)', 'Cocaine Anonymous (CA)',
   'Crystal Meth Anonymous (CMA)', 'Marijuana Anonymous (MA)', 'SMART Recovery',
@@ -46,14 +61,25 @@ export default function Settings({ user, onBack }: SettingsProps) {
   const [profile, setProfile] = useState<UserProfile | null>(null);
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
-  const [activeSection, setActiveSection] = useState<'profile' | 'privacy' | 'notifications' | 'data' | 'account'>('profile');
+  const [activeSection, setActiveSection] = useState<'profile' | 'privacy' | 'notifications' | 'cues' | 'data' | 'account'>('profile');
   const [recoveryProgram, setRecoveryProgram] = useState('');
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
+  const [voices, setVoices] = useState<SpeechSynthesisVoice[]>([]);
+  const cuePlayer = useCuePlayer();
 
   useEffect(() => {
     fetchProfile();
   }, []);
 
+  // Voices load asynchronously in most browsers
+  useEffect(() => {
+    if (!('speechSynthesis' in window)) return;
+    const loadVoices = () => setVoices(speechSynthesis.getVoices());
+    loadVoices();
+    speechSynthesis.addEventListener('voiceschanged', loadVoices);
+    return () => speechSynthesis.removeEventListener('voiceschanged', loadVoices);
+  }, []);
+
   const fetchProfile = async () => {
     const { data, error } = await supabase
       .from('user_profiles')
@@ -76,9 +102,12 @@ export default function Settings({ user, onBack }: SettingsProps) {
       .insert([{
         id: user.id,
         timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+        day_rollover_hour: 0,
+        streak_grace_days: 0,
         privacy_settings: {
           anonymous: false,
           share_progress: false,
+          share_sos_events: false,
           data_analytics: true
         },
         notification_preferences: {
@@ -118,13 +147,15 @@ export default function Settings({ user, onBack }: SettingsProps) {
     setSaving(false);
   };
 
+  const getProfileToday = () => getRecoveryDay({
+    timezone: profile?.timezone || 'UTC',
+    rolloverHour: profile?.day_rollover_hour ?? 0
+  });
+
   const calculateCleanTime = () => {
     if (!profile?.recovery_start_date) return null;
     
-    const startDate = new Date(profile.recovery_start_date);
-    const today = new Date();
-    const diffTime = today.getTime() - startDate.getTime();
-    const diffDays = Math.floor(diffTime / (1000 * 60 * 60 * 24));
+    const diffDays = daysBetween(profile.recovery_start_date, getProfileToday());
     
     if (diffDays < 0) return null;
     
@@ -145,21 +176,47 @@ export default function Settings({ user, onBack }: SettingsProps) {
       toast.info('Preparing your data export...');
       
       // Fetch all user data
-      const [checkIns, strategies, contacts, goals, milestones] = await Promise.all([
+      const [checkIns, momentaryCheckIns, strategies, contacts, goals, milestones, useEvents, recoveryPeriods, triggers, questionnaireResponses, strategyUsage, strategyRatings, urgeSurfSessions, safetyPlans, contactAttempts, sosEvents, supporterLinks, supporterAccessLog] = await Promise.all([
         supabase.from('daily_checkins').select('*').eq('user_id', user.id),
+        supabase.from('momentary_checkins').select('*').eq('user_id', user.id),
         supabase.from('coping_strategies').select('*').eq('user_id', user.id),
         supabase.from('emergency_contacts').select('*').eq('user_id', user.id),
         supabase.from('goals').select('*').eq('user_id', user.id),
-        supabase.from('milestones').select('*').eq('user_id', user.id)
+        supabase.from('milestones').select('*').eq('user_id', user.id),
+        supabase.from('use_events').select('*').eq('user_id', user.id),
+        supabase.from('recovery_periods').select('*').eq('user_id', user.id),
+        supabase.from('triggers').select('*').eq('user_id', user.id),
+        supabase.from('questionnaire_responses').select('*').eq('user_id', user.id),
+        supabase.from('strategy_usage').select('*').eq('user_id', user.id),
+        supabase.from('strategy_ratings').select('*').eq('user_id', user.id),
+        supabase.from('urge_surf_sessions').select('*').eq('user_id', user.id),
+        supabase.from('safety_plans').select('*').eq('user_id', user.id),
+        supabase.from('contact_attempts').select('*').eq('user_id', user.id),
+        supabase.from('sos_events').select('*').eq('user_id', user.id),
+        supabase.from('supporter_links').select('*').eq('user_id', user.id),
+        supabase.from('supporter_access_log').select('*').eq('user_id', user.id)
       ]);
 
       const exportData = {
         profile: profile,
         daily_checkins: checkIns.data,
+        momentary_checkins: momentaryCheckIns.data,
         coping_strategies: strategies.data,
         emergency_contacts: contacts.data,
         goals: goals.data,
         milestones: milestones.data,
+        use_events: useEvents.data,
+        recovery_periods: recoveryPeriods.data,
+        triggers: triggers.data,
+        questionnaire_responses: questionnaireResponses.data,
+        strategy_usage: strategyUsage.data,
+        strategy_ratings: strategyRatings.data,
+        urge_surf_sessions: urgeSurfSessions.data,
+        safety_plans: safetyPlans.data,
+        contact_attempts: contactAttempts.data,
+        sos_events: sosEvents.data,
+        supporter_links: supporterLinks.data,
+        supporter_access_log: supporterAccessLog.data,
         exported_at: new Date().toISOString()
       };
 
@@ -220,6 +277,10 @@ export default function Settings({ user, onBack }: SettingsProps) {
     );
   }
 
+  const cues = { ...DEFAULT_CUE_SETTINGS, ...(profile.cue_settings || {}) };
+  const updateCues = (changes: Partial<CueSettings>) =>
+    updateProfile({ cue_settings: { ...cues, ...changes } });
+
   return (
     <div className="min-h-screen bg-gray-50 p-4">
       <div className="max-w-6xl mx-auto">
@@ -243,6 +304,7 @@ export default function Settings({ user, onBack }: SettingsProps) {
                 {[
                   { id: 'profile', label: 'Profile & Recovery', icon: '👤' },
                   { id: 'notifications', label: 'Notifications', icon: '🔔' },
+                  { id: 'cues', label: 'Exercise Cues', icon: '🔊' },
                   { id: 'privacy', label: 'Privacy & Security', icon: '🔒' },
                   { id: 'data', label: 'Data & Export', icon: '📊' },
                   { id: 'account', label: 'Account', icon: '⚙️' }
@@ -282,13 +344,20 @@ export default function Settings({ user, onBack }: SettingsProps) {
                     <input
                       type="date"
                       value={profile.recovery_start_date || ''}
-                      onChange={(e) => updateProfile({ recovery_start_date: e.target.value })}
+                      onChange={async (e) => {
+                        await updateProfile({ recovery_start_date: e.target.value });
+                        try {
+                          await syncCurrentPeriodStart(user.id, e.target.value);
+                        } catch (error: unknown) {
+                          toast.error('Failed to update your current recovery period', { description: (error as Error).message });
+                        }
+                      }}
                       min="2000-01-01"
-                      max={new Date().toISOString().split('T')[0]}
+                      max={getProfileToday()}
                       className="w-full max-w-xs px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
                     />
                     <p className="mt-1 text-xs text-gray-500">
-                      Enter the date you started your recovery journey
+                      Enter the date you started your recovery journey. Logging a lapse with a reset updates this for you.
                     </p>
                     {profile.recovery_start_date && (
                       <p className="mt-2 text-sm text-green-600">
@@ -327,12 +396,77 @@ export default function Settings({ user, onBack }: SettingsProps) {
                       onChange={(e) => updateProfile({ timezone: e.target.value })}
                       className="w-full max-w-xs px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
                     >
+                      {!TIMEZONES.includes(profile.timezone) && (
+                        <option value={profile.timezone}>{profile.timezone}</option>
+                      )}
                       {TIMEZONES.map((tz) => (
                         <option key={tz} value={tz}>{tz}</option>
                       ))}
                     </select>
                   </div>
 
+                  {/* Crisis Line Country */}
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Crisis Lines For
+                    </label>
+                    <select
+                      value={profile.country || ''}
+                      onChange={(e) => updateProfile({ country: e.target.value || null })}
+                      className="w-full max-w-xs px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    >
+                      <option value="">
+                        Automatic ({HOTLINE_COUNTRIES.find(c => c.code === getCountryFromTimezone(profile.timezone))?.name || 'not available for this timezone'})
+                      </option>
+                      {HOTLINE_COUNTRIES.map((country) => (
+                        <option key={country.code} value={country.code}>{country.name}</option>
+                      ))}
+                    </select>
+                    <p className="mt-1 text-xs text-gray-500">
+                      Which country&apos;s hotlines to show in Crisis Help and SOS
+                    </p>
+                  </div>
+
+                  {/* Day Rollover */}
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      My Day Ends At
+                    </label>
+                    <select
+                      value={profile.day_rollover_hour ?? 0}
+                      onChange={(e) => updateProfile({ day_rollover_hour: parseInt(e.target.value) })}
+                      className="w-full max-w-xs px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    >
+                      {DAY_ROLLOVER_HOURS.map((hour) => (
+                        <option key={hour} value={hour}>
+                          {hour === 0 ? 'Midnight (default)' : `${hour}:00 AM`}
+                        </option>
+                      ))}
+                    </select>
+                    <p className="mt-1 text-xs text-gray-500">
+                      Check-ins before this time count toward the previous day. Useful if you work night shifts.
+                    </p>
+                  </div>
+
+                  {/* Streak Grace Days */}
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Streak Grace Days
+                    </label>
+                    <select
+                      value={profile.streak_grace_days ?? 0}
+                      onChange={(e) => updateProfile({ streak_grace_days: parseInt(e.target.value) })}
+                      className="w-full max-w-xs px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    >
+                      <option value={0}>None - every day counts</option>
+                      <option value={1}>1 missed day per week</option>
+                      <option value={2}>2 missed days per week</option>
+                    </select>
+                    <p className="mt-1 text-xs text-gray-500">
+                      Missing a check-in within your grace days won&apos;t break your streak
+                    </p>
+                  </div>
+
                   {/* Account Info */}
                   <div className="bg-gray-50 rounded-lg p-4">
                     <h3 className="font-medium text-gray-900 mb-2">Account Information</h3>
@@ -405,6 +539,93 @@ export default function Settings({ user, onBack }: SettingsProps) {
                 </div>
               )}
 
+              {/* Exercise Cues Section */}
+              {activeSection === 'cues' && (
+                <div className="space-y-6">
+                  <div>
+                    <h2 className="text-xl font-semibold text-gray-900 mb-4">Exercise Cues</h2>
+                    <p className="text-gray-600 mb-6">
+                      Sounds and vibrations that guide breathing, grounding and urge surfing, so you can close your eyes.
+                      You can also turn cues off for a single exercise from inside it.
+                    </p>
+                  </div>
+
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">Sound</label>
+                    <select
+                      value={cues.sound}
+                      onChange={(e) => updateCues({ sound: e.target.value as CueSound })}
+                      className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    >
+                      {CUE_SOUND_OPTIONS.map(option => (
+                        <option key={option.value} value={option.value}>{option.label}</option>
+                      ))}
+                    </select>
+                  </div>
+
+                  {cues.sound !== 'off' && (
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">
+                        Volume: {Math.round(cues.volume * 100)}%
+                      </label>
+                      <input
+                        type="range"
+                        min="0.1"
+                        max="1"
+                        step="0.1"
+                        value={cues.volume}
+                        onChange={(e) => updateCues({ volume: parseFloat(e.target.value) })}
+                        className="w-full max-w-xs"
+                      />
+                    </div>
+                  )}
+
+                  {cues.sound === 'voice' && (
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">Voice</label>
+                      <select
+                        value={cues.voice || ''}
+                        onChange={(e) => updateCues({ voice: e.target.value || null })}
+                        className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      >
+                        <option value="">Browser default</option>
+                        {voices.map(voice => (
+                          <option key={voice.name} value={voice.name}>{voice.name} ({voice.lang})</option>
+                        ))}
+                      </select>
+                    </div>
+                  )}
+
+                  <div className="flex items-start">
+                    <div className="flex items-center h-5">
+                      <input
+                        type="checkbox"
+                        checked={cues.vibrate}
+                        onChange={(e) => updateCues({ vibrate: e.target.checked })}
+                        className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                      />
+                    </div>
+                    <div className="ml-3">
+                      <label className="text-sm font-medium text-gray-700">Vibration</label>
+                      <p className="text-sm text-gray-500">Buzz on each change, on devices that support it</p>
+                    </div>
+                  </div>
+
+                  <button
+                    onClick={() => {
+                      cuePlayer.unlock();
+                      cuePlayer.schedule([
+                        { in: 0, kind: 'inhale', label: 'Breathe In' },
+                        { in: 2, kind: 'exhale', label: 'Breathe Out' }
+                      ], cues);
+                    }}
+                    className="bg-gray-600 text-white px-4 py-2 rounded-md hover:bg-gray-700"
+                  >
+                    ▶ Try it
+                  </button>
+                </div>
+              )}
+
               {/* Privacy Section */}
               {activeSection === 'privacy' && (
                 <div className="space-y-6">
@@ -423,7 +644,12 @@ export default function Settings({ user, onBack }: SettingsProps) {
                       { 
                         key: 'share_progress', 
                         label: 'Share Progress with Support Network', 
-                        desc: 'Allow your sponsor or support person to see your progress' 
+                        desc: 'Let the supporters you invite below see what you’ve chosen to share with them' 
+                      },
+                      { 
+                        key: 'share_sos_events', 
+                        label: 'Share SOS Events with Sponsor', 
+                        desc: 'Let your sponsor see when you used SOS and who you were able to reach' 
                       },
                       { 
                         key: 'data_analytics', 
@@ -435,7 +661,7 @@ export default function Settings({ user, onBack }: SettingsProps) {
                         <div className="flex items-center h-5">
                           <input
                             type="checkbox"
-                            checked={profile.privacy_settings[setting.key as keyof typeof profile.privacy_settings]}
+                            checked={!!profile.privacy_settings[setting.key as keyof typeof profile.privacy_settings]}
                             onChange={(e) => updateProfile({
                               privacy_settings: {
                                 ...profile.privacy_settings,
@@ -455,6 +681,8 @@ export default function Settings({ user, onBack }: SettingsProps) {
                     ))}
                   </div>
 
+                  <SupporterAccess userId={user.id} sharingEnabled={profile.privacy_settings.share_progress} />
+
                   <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
                     <h3 className="font-medium text-blue-900 mb-2">🔒 Your Privacy Matters</h3>
                     <p className="text-sm text-blue-800">
@@ -0,0 +1,253 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { User } from '@supabase/auth-helpers-nextjs';
+import { toast } from 'sonner';
+import { fetchDefaultCallingCode, getDefaultCallingCode } from '@/lib/phone';
+import { getBrowserTimezone } from '@/lib/recoveryDay';
+import { startContactAttempt } from '@/lib/contactAttempts';
+import { fetchHotlineCountry, getEmergencyNumber, getHotlines, HotlineCountry } from '@/lib/hotlines';
+import {
+  canShareSosWithSponsor,
+  fetchEscalationChain,
+  saveSosEvent,
+  SosEvent,
+  SosOutcome,
+  SosStep,
+  SosTarget,
+  SOS_OUTCOME_LABELS,
+  startSosEvent
+} from '@/lib/sos';
+
+interface SosModeProps {
+  user: User;
+  onClose: () => void;
+  onOpenSafetyPlan?: () => void;
+}
+
+export default function SosMode({ user, onClose, onOpenSafetyPlan }: SosModeProps) {
+  const [chain, setChain] = useState<SosTarget[] | null>(null);
+  const [index, setIndex] = useState(0);
+  const [event, setEvent] = useState<SosEvent>(() => startSosEvent(user.id, false));
+  // Guessed from the device until the profile loads, so a quick tap still dials
+  const [callingCode, setCallingCode] = useState(() => getDefaultCallingCode(getBrowserTimezone()));
+  const [country, setCountry] = useState<HotlineCountry | null>(null);
+
+  useEffect(() => {
+    canShareSosWithSponsor(user.id).then(shared => {
+      if (shared) setEvent(current => ({ ...current, shared_with_sponsor: true }));
+    });
+    fetchHotlineCountry(user.id).then(async found => {
+      setCountry(found);
+      setChain(await fetchEscalationChain(user.id, getHotlines(found)));
+    });
+    fetchDefaultCallingCode(user.id).then(setCallingCode);
+  }, [user.id]);
+
+  // Recorded from the moment SOS opens, and again after every step
+  useEffect(() => {
+    saveSosEvent(event);
+  }, [event]);
+
+  const target = chain?.[index];
+  const lastStep = event.steps[event.steps.length - 1];
+  const waiting = !!lastStep && lastStep.result === null;
+  const isEnded = !!event.outcome;
+  const firstHotline = chain?.findIndex(t => t.kind === 'hotline') ?? -1;
+
+  const reachOut = (channel: SosStep['channel']) => {
+    if (!target) return;
+    const opened = startContactAttempt(
+      user.id,
+      {
+        id: target.contact_id,
+        name: target.name,
+        phone: channel === 'sms' ? target.sms_phone : target.phone,
+        national: target.kind === 'hotline'
+      },
+      channel,
+      callingCode,
+      channel === 'sms' ? target.message : undefined
+    );
+    if (!opened) {
+      toast.error(`Couldn't open ${target.name}'s number`, { description: 'Moving on to the next person' });
+      setIndex(index + 1);
+      return;
+    }
+
+    setEvent(current => ({
+      ...current,
+      steps: [...current.steps, {
+        kind: target.kind,
+        contact_id: target.contact_id,
+        name: target.name,
+        channel,
+        at: new Date().toISOString(),
+        result: null
+      }]
+    }));
+  };
+
+  const markLastStep = (result: 'no_answer' | 'reached') => {
+    setEvent(current => ({
+      ...current,
+      steps: current.steps.map((step, i) => i === current.steps.length - 1 ? { ...step, result } : step)
+    }));
+  };
+
+  const withOutcome = (current: SosEvent, outcome: SosOutcome): SosEvent =>
+    ({ ...current, outcome, ended_at: new Date().toISOString() });
+
+  const end = (outcome: SosOutcome) => {
+    setEvent(current => withOutcome(current, outcome));
+  };
+
+  const handleReached = () => {
+    markLastStep('reached');
+    end(lastStep?.kind === 'hotline' ? 'reached_hotline' : 'reached_contact');
+  };
+
+  const handleNoAnswer = () => {
+    markLastStep('no_answer');
+    setIndex(index + 1);
+  };
+
+  const handleClose = () => {
+    // Saved directly, since the effect won't run once this unmounts
+    if (!isEnded) saveSosEvent(withOutcome(event, 'cancelled'));
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg shadow-xl p-6 max-w-md w-full">
+        {/* Header */}
+        <div className="flex items-center mb-4">
+          <span className="text-3xl mr-3">🆘</span>
+          <div>
+            <h2 className="text-xl font-bold text-gray-900">SOS</h2>
+            <p className="text-sm text-gray-600">We&apos;ll go through your people one at a time.</p>
+          </div>
+        </div>
+
+        {!chain && <div className="text-center text-gray-600 py-8">Loading your contacts...</div>}
+
+        {/* Outcome */}
+        {chain && event.outcome && (
+          <div className="text-center py-4">
+            <div className="text-4xl mb-2">💙</div>
+            <p className="text-lg font-semibold text-gray-900">{SOS_OUTCOME_LABELS[event.outcome]}</p>
+            <p className="text-gray-600 mt-1">Reaching out took courage. Stay with whoever you&apos;re talking to.</p>
+          </div>
+        )}
+
+        {/* Current person */}
+        {chain && !isEnded && target && (
+          <div>
+            <p className="text-sm text-gray-500 mb-1">
+              {target.kind === 'contact'
+                ? `Contact ${index + 1} of ${firstHotline}`
+                : index === firstHotline && firstHotline > 0
+                  ? 'Nobody picked up. These lines are always there:'
+                  : 'Crisis line'}
+            </p>
+            <div className={`border-2 rounded-lg p-4 mb-4 ${target.kind === 'contact' ? 'border-blue-300' : 'border-red-300'}`}>
+              <p className="text-xl font-bold text-gray-900">{target.name}</p>
+              {target.detail && <p className="text-gray-600">{target.detail}</p>}
+            </div>
+
+            {waiting ? (
+              <div>
+                <p className="font-medium text-gray-900 mb-3">Did you reach {target.name}?</p>
+                <div className="flex space-x-4">
+                  <button
+                    onClick={handleReached}
+                    className="flex-1 bg-green-600 text-white py-3 px-4 rounded-md hover:bg-green-700 font-medium"
+                  >
+                    ✅ Yes, we&apos;re talking
+                  </button>
+                  <button
+                    onClick={handleNoAnswer}
+                    className="flex-1 bg-gray-600 text-white py-3 px-4 rounded-md hover:bg-gray-700 font-medium"
+                  >
+                    No answer, next
+                  </button>
+                </div>
+              </div>
+            ) : (
+              <div>
+                <div className="flex space-x-4">
+                  {target.can_call && (
+                    <button
+                      onClick={() => reachOut('call')}
+                      className="flex-1 bg-green-600 text-white py-4 px-4 rounded-md hover:bg-green-700 text-lg font-medium"
+                    >
+                      📞 Call
+                    </button>
+                  )}
+                  {target.can_text && (
+                    <button
+                      onClick={() => reachOut('sms')}
+                      className="flex-1 bg-blue-600 text-white py-4 px-4 rounded-md hover:bg-blue-700 text-lg font-medium"
+                    >
+                      💬 Text
+                    </button>
+                  )}
+                </div>
+                <button
+                  onClick={() => setIndex(index + 1)}
+                  className="w-full mt-3 text-sm text-gray-500 hover:text-gray-700"
+                >
+                  Skip to the next one
+                </button>
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* End of the chain */}
+        {chain && !isEnded && !target && (
+          <div className="text-center py-4">
+            <p className="text-lg font-semibold text-gray-900 mb-2">You&apos;ve tried everyone on the list.</p>
+            <p className="text-gray-600 mb-4">If you are in danger, call {getEmergencyNumber(country)} now. You can also start again from the top.</p>
+            <button
+              onClick={() => setIndex(0)}
+              className="bg-blue-600 text-white py-2 px-4 rounded-md hover:bg-blue-700"
+            >
+              Start Again
+            </button>
+          </div>
+        )}
+
+        {/* Footer */}
+        <div className="mt-6 space-y-2">
+          {onOpenSafetyPlan && (
+            <button
+              onClick={() => {
+                handleClose();
+                onOpenSafetyPlan();
+              }}
+              className="w-full bg-blue-50 text-blue-700 border border-blue-200 py-2 px-4 rounded-md hover:bg-blue-100"
+            >
+              📋 Open My Safety Plan
+            </button>
+          )}
+          {!isEnded && (
+            <button
+              onClick={() => end('safe')}
+              className="w-full bg-green-50 text-green-700 border border-green-200 py-2 px-4 rounded-md hover:bg-green-100"
+            >
+              I&apos;m safe now
+            </button>
+          )}
+          <button
+            onClick={handleClose}
+            className="w-full bg-gray-600 text-white py-2 px-4 rounded-md hover:bg-gray-700"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,221 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { ExerciseStep, StepResponse, trimResponses } from '@/lib/exerciseSteps';
+import { useExerciseTimer } from '@/lib/exerciseTimer';
+import { isExerciseMuted, useCuePlayer, useCueSettings } from '@/lib/cues';
+import CueToggle from '@/components/CueToggle';
+
+interface StepRunnerProps {
+  userId: string;
+  title: string;
+  steps: ExerciseStep[];
+  // responses is null when the user chose not to keep their answers
+  onFinish: (responses: StepResponse[] | null) => void;
+  onCancel: () => void;
+}
+
+export default function StepRunner({ userId, title, steps, onFinish, onCancel }: StepRunnerProps) {
+  const [stepIndex, setStepIndex] = useState(0);
+  const [answers, setAnswers] = useState<string[][]>(() => steps.map(step => Array(Math.max(step.items, 1)).fill('')));
+  // Marks items the user tapped through instead of typing
+  const [tapped, setTapped] = useState<boolean[][]>(() => steps.map(step => Array(Math.max(step.items, 1)).fill(false)));
+  const [saveResponses, setSaveResponses] = useState(true);
+  const [started, setStarted] = useState(false);
+  const timer = useExerciseTimer({ resolutionMs: 1000 });
+
+  const { pause } = timer;
+  useEffect(() => pause, [pause]);
+
+  const isReview = stepIndex === steps.length;
+  const step = steps[stepIndex];
+
+  const { settings: cueSettings, loaded: cuesLoaded, toggleMuted } = useCueSettings(userId);
+  const cues = useCuePlayer();
+  const cuesOn = !isExerciseMuted(cueSettings, 'grounding');
+
+  // Announce each step as it comes up
+  useEffect(() => {
+    if (!started || !cuesLoaded || !cuesOn) return;
+    cues.play(
+      isReview
+        ? { kind: 'done', label: 'Well done. Notice how you feel now.' }
+        : { kind: 'step', label: steps[stepIndex].prompt },
+      cueSettings
+    );
+  }, [started, stepIndex, isReview, steps, cuesLoaded, cuesOn, cueSettings, cues]);
+
+  // Audio only starts from a tap, so every way into a step unlocks it first
+  const handleStart = () => {
+    cues.unlock();
+    timer.start();
+    setStarted(true);
+  };
+
+  const goToStep = (index: number) => {
+    cues.unlock();
+    setStepIndex(index);
+  };
+
+  const isDone = (stepIdx: number, itemIdx: number) =>
+    !!answers[stepIdx][itemIdx].trim() || tapped[stepIdx][itemIdx];
+
+  const updateAnswer = (itemIdx: number, value: string) => {
+    setAnswers(prev => prev.map((items, i) => i === stepIndex ? items.map((item, j) => j === itemIdx ? value : item) : items));
+  };
+
+  const toggleTapped = (itemIdx: number) => {
+    setTapped(prev => prev.map((items, i) => i === stepIndex ? items.map((item, j) => j === itemIdx ? !item : item) : items));
+  };
+
+  const completedItems = step ? answers[stepIndex].filter((_, j) => isDone(stepIndex, j)).length : 0;
+
+  const handleFinish = () => {
+    const responses: StepResponse[] = steps.map((s, i) => ({ step: s.title, items: answers[i] }));
+    onFinish(saveResponses ? trimResponses(responses) : null);
+  };
+
+  const minutes = Math.floor(timer.elapsedMs / 60000);
+  const seconds = Math.floor((timer.elapsedMs % 60000) / 1000);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg shadow-xl p-6 max-w-md w-full">
+        {/* Header */}
+        <div className="flex items-center justify-between mb-2">
+          <h2 className="text-xl font-bold text-gray-900">{title}</h2>
+          <div className="flex items-center space-x-2">
+            <CueToggle settings={cueSettings} exercise="grounding" onToggle={toggleMuted} />
+            <span className="text-sm text-gray-500">{minutes}:{String(seconds).padStart(2, '0')}</span>
+          </div>
+        </div>
+
+        {/* Progress */}
+        <div className="flex space-x-1 mb-6">
+          {steps.map((s, i) => (
+            <div
+              key={i}
+              className={`h-2 flex-1 rounded-full ${i < stepIndex ? 'bg-green-500' : i === stepIndex ? 'bg-blue-500' : 'bg-gray-200'}`}
+            />
+          ))}
+        </div>
+
+        {!started ? (
+          <div>
+            <div className="text-center mb-6">
+              <p className="text-gray-600">
+                {steps.length} steps. Take your time with each one; you can tap ✓ instead of typing.
+              </p>
+            </div>
+
+            <div className="flex space-x-4">
+              <button
+                onClick={onCancel}
+                className="flex-1 bg-gray-600 text-white py-3 px-4 rounded-md hover:bg-gray-700 font-medium"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleStart}
+                className="flex-1 bg-blue-600 text-white py-3 px-4 rounded-md hover:bg-blue-700 font-medium"
+              >
+                Start
+              </button>
+            </div>
+          </div>
+        ) : isReview ? (
+          <div>
+            <div className="text-center mb-6">
+              <div className="text-4xl mb-2">🌱</div>
+              <p className="text-lg font-semibold text-gray-900">You made it through every step.</p>
+              <p className="text-gray-600">Notice how you feel compared to when you started.</p>
+            </div>
+
+            <label className="flex items-center mb-6 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={saveResponses}
+                onChange={(e) => setSaveResponses(e.target.checked)}
+                className="mr-2"
+              />
+              Save my answers to the session log
+            </label>
+
+            <div className="flex space-x-4">
+              <button
+                onClick={() => goToStep(steps.length - 1)}
+                className="flex-1 bg-gray-600 text-white py-3 px-4 rounded-md hover:bg-gray-700 font-medium"
+              >
+                Back
+              </button>
+              <button
+                onClick={handleFinish}
+                className="flex-1 bg-green-600 text-white py-3 px-4 rounded-md hover:bg-green-700 font-medium"
+              >
+                Finish
+              </button>
+            </div>
+          </div>
+        ) : (
+          <div>
+            <p className="text-sm text-gray-500 mb-1">Step {stepIndex + 1} of {steps.length}</p>
+            <h3 className="text-lg font-semibold text-gray-900 mb-1">
+              {step.icon && <span className="mr-2">{step.icon}</span>}
+              {step.title}
+            </h3>
+            <p className="text-gray-600 mb-4">{step.prompt}</p>
+
+            <div className="space-y-2 mb-6">
+              {answers[stepIndex].map((answer, j) => (
+                <div key={j} className="flex items-center space-x-2">
+                  {step.items > 0 ? (
+                    <input
+                      type="text"
+                      value={answer}
+                      onChange={(e) => updateAnswer(j, e.target.value)}
+                      placeholder={step.placeholder}
+                      className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                  ) : (
+                    <textarea
+                      value={answer}
+                      onChange={(e) => updateAnswer(j, e.target.value)}
+                      placeholder={step.placeholder}
+                      rows={3}
+                      className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 resize-none"
+                    />
+                  )}
+                  <button
+                    type="button"
+                    onClick={() => toggleTapped(j)}
+                    title="Noticed it without typing"
+                    className={`w-10 h-10 rounded-full border-2 ${
+                      isDone(stepIndex, j) ? 'bg-green-500 border-green-500 text-white' : 'border-gray-300 text-gray-400 hover:border-green-400'
+                    }`}
+                  >
+                    ✓
+                  </button>
+                </div>
+              ))}
+            </div>
+
+            <div className="flex space-x-4">
+              <button
+                onClick={stepIndex === 0 ? onCancel : () => goToStep(stepIndex - 1)}
+                className="flex-1 bg-gray-600 text-white py-3 px-4 rounded-md hover:bg-gray-700 font-medium"
+              >
+                {stepIndex === 0 ? 'Cancel' : 'Back'}
+              </button>
+              <button
+                onClick={() => goToStep(stepIndex + 1)}
+                className="flex-1 bg-blue-600 text-white py-3 px-4 rounded-md hover:bg-blue-700 font-medium"
+              >
+                {completedItems < answers[stepIndex].length ? 'Skip' : 'Next'}
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,251 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { toast } from 'sonner';
+import {
+  fetchSupporterLinks,
+  fetchSupporterLog,
+  getInviteMailto,
+  inviteSupporter,
+  revokeSupporter,
+  SUPPORTER_LOG_LABELS,
+  SUPPORTER_SCOPES,
+  SupporterLink,
+  SupporterLogEntry,
+  SupporterScope,
+  updateSupporterScopes
+} from '@/lib/supporters';
+
+interface SupporterAccessProps {
+  userId: string;
+  // share_progress; links keep their scopes while it's off but show nothing
+  sharingEnabled: boolean;
+}
+
+const STATUS_STYLES: Record<SupporterLink['status'], string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  active: 'bg-green-100 text-green-800',
+  revoked: 'bg-gray-100 text-gray-600'
+};
+
+export default function SupporterAccess({ userId, sharingEnabled }: SupporterAccessProps) {
+  const [links, setLinks] = useState<SupporterLink[]>([]);
+  const [log, setLog] = useState<SupporterLogEntry[]>([]);
+  const [showInvite, setShowInvite] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [invite, setInvite] = useState({
+    display_name: '',
+    supporter_email: '',
+    scopes: ['streak'] as SupporterScope[]
+  });
+
+  const loadLinks = async () => {
+    const [linkData, logData] = await Promise.all([fetchSupporterLinks(userId), fetchSupporterLog(userId)]);
+    setLinks(linkData);
+    setLog(logData);
+  };
+
+  useEffect(() => {
+    loadLinks();
+  }, [userId]);
+
+  const toggleInviteScope = (scope: SupporterScope) => {
+    setInvite(prev => ({
+      ...prev,
+      scopes: prev.scopes.includes(scope) ? prev.scopes.filter(s => s !== scope) : [...prev.scopes, scope]
+    }));
+  };
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (invite.scopes.length === 0) {
+      toast.error('Choose at least one thing to share');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const link = await inviteSupporter(userId, {
+        ...invite,
+        display_name: invite.display_name.trim(),
+        supporter_email: invite.supporter_email.trim()
+      });
+      toast.success('Invite created', {
+        description: `Let ${link.supporter_email} know so they can accept`,
+        action: { label: 'Email them', onClick: () => { window.location.href = getInviteMailto(link); } }
+      });
+      setInvite({ display_name: invite.display_name, supporter_email: '', scopes: ['streak'] });
+      setShowInvite(false);
+      loadLinks();
+    } catch (error: unknown) {
+      const message = (error as Error).message;
+      toast.error('Failed to invite supporter', {
+        description: /duplicate|unique/i.test(message) ? 'You’ve already invited this email' : message
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const toggleScope = async (link: SupporterLink, scope: SupporterScope) => {
+    const scopes = link.scopes.includes(scope) ? link.scopes.filter(s => s !== scope) : [...link.scopes, scope];
+    try {
+      await updateSupporterScopes(link.id, scopes);
+      loadLinks();
+    } catch (error: unknown) {
+      toast.error('Failed to update sharing', { description: (error as Error).message });
+    }
+  };
+
+  const handleRevoke = async (link: SupporterLink) => {
+    if (!confirm(`Remove ${link.supporter_email}'s access? They will stop seeing your progress immediately.`)) return;
+
+    try {
+      await revokeSupporter(link.id);
+      toast.success('Access removed');
+      loadLinks();
+    } catch (error: unknown) {
+      toast.error('Failed to remove access', { description: (error as Error).message });
+    }
+  };
+
+  const emailFor = (entry: SupporterLogEntry) =>
+    links.find(link => link.id === entry.link_id)?.supporter_email || 'Supporter';
+
+  const liveLinks = links.filter(link => link.status !== 'revoked');
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-4">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="font-medium text-gray-900">🤝 My Supporters</h3>
+        <button
+          onClick={() => setShowInvite(!showInvite)}
+          className="text-sm text-blue-600 hover:text-blue-700"
+        >
+          {showInvite ? 'Cancel' : '+ Invite'}
+        </button>
+      </div>
+      <p className="text-sm text-gray-600 mb-4">
+        A sponsor or therapist you invite gets a read-only view of only what you tick below.
+        You can change or remove their access at any time.
+      </p>
+
+      {!sharingEnabled && liveLinks.length > 0 && (
+        <div className="bg-yellow-50 border border-yellow-200 rounded-md p-3 mb-4 text-sm text-yellow-800">
+          Sharing is switched off, so your supporters can&apos;t see anything right now.
+        </div>
+      )}
+
+      {/* Invite Form */}
+      {showInvite && (
+        <form onSubmit={handleInvite} className="bg-gray-50 rounded-md p-4 mb-4 space-y-3">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Their email</label>
+            <input
+              type="email"
+              required
+              value={invite.supporter_email}
+              onChange={(e) => setInvite(prev => ({ ...prev, supporter_email: e.target.value }))}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            <p className="text-xs text-gray-500 mt-1">They sign in with this address to accept.</p>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Your name, as they&apos;ll see it</label>
+            <input
+              type="text"
+              required
+              value={invite.display_name}
+              onChange={(e) => setInvite(prev => ({ ...prev, display_name: e.target.value }))}
+              placeholder="e.g. Sam"
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+          <div>
+            <p className="text-sm font-medium text-gray-700 mb-1">What they can see</p>
+            {SUPPORTER_SCOPES.map(scope => (
+              <label key={scope.value} className="flex items-start mb-1">
+                <input
+                  type="checkbox"
+                  checked={invite.scopes.includes(scope.value)}
+                  onChange={() => toggleInviteScope(scope.value)}
+                  className="h-4 w-4 mt-0.5 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                />
+                <span className="ml-2 text-sm text-gray-700">
+                  {scope.label} <span className="text-gray-500">— {scope.description}</span>
+                </span>
+              </label>
+            ))}
+          </div>
+          <button
+            type="submit"
+            disabled={saving}
+            className="bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700 disabled:opacity-50 text-sm"
+          >
+            {saving ? 'Inviting...' : 'Create Invite'}
+          </button>
+        </form>
+      )}
+
+      {/* Supporter List */}
+      {liveLinks.length === 0 ? (
+        <p className="text-sm text-gray-500">You haven&apos;t invited anyone yet.</p>
+      ) : (
+        <div className="space-y-3">
+          {liveLinks.map(link => (
+            <div key={link.id} className="border border-gray-200 rounded-md p-3">
+              <div className="flex items-center justify-between mb-2">
+                <div>
+                  <p className="font-medium text-gray-900">{link.supporter_email}</p>
+                  <span className={`text-xs px-2 py-0.5 rounded ${STATUS_STYLES[link.status]}`}>
+                    {link.status === 'pending' ? 'Invite not accepted yet' : 'Active'}
+                  </span>
+                </div>
+                <div className="flex space-x-3 text-sm">
+                  {link.status === 'pending' && (
+                    <a href={getInviteMailto(link)} className="text-blue-600 hover:text-blue-700">
+                      Resend
+                    </a>
+                  )}
+                  <button onClick={() => handleRevoke(link)} className="text-red-600 hover:text-red-700">
+                    Remove
+                  </button>
+                </div>
+              </div>
+              <div className="flex flex-wrap gap-2">
+                {SUPPORTER_SCOPES.map(scope => (
+                  <label key={scope.value} className="flex items-center text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={link.scopes.includes(scope.value)}
+                      onChange={() => toggleScope(link, scope.value)}
+                      className="h-4 w-4 mr-1 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                    />
+                    {scope.label}
+                  </label>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Access Log */}
+      {log.length > 0 && (
+        <div className="mt-4">
+          <h4 className="text-sm font-medium text-gray-900 mb-2">Access Log</h4>
+          <ul className="text-sm text-gray-600 space-y-1 max-h-48 overflow-y-auto">
+            {log.map(entry => (
+              <li key={entry.id} className="flex justify-between">
+                <span>{emailFor(entry)}: {SUPPORTER_LOG_LABELS[entry.action]}</span>
+                <span className="text-gray-400 ml-2 whitespace-nowrap">
+                  {new Date(entry.created_at).toLocaleString()}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,281 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { User } from '@supabase/auth-helpers-nextjs';
+import { toast } from 'sonner';
+import {
+  Chart as ChartJS,
+  CategoryScale,
+  LinearScale,
+  PointElement,
+  LineElement,
+  Tooltip
+} from 'chart.js';
+import { Line } from 'react-chartjs-2';
+import { formatDay } from '@/lib/recoveryDay';
+import { SOS_OUTCOME_LABELS } from '@/lib/sos';
+import {
+  acceptSupportInvite,
+  fetchSharedProgress,
+  fetchSupportedPeople,
+  fetchSupportInvites,
+  SharedProgress,
+  SUPPORTER_SCOPES,
+  SupporterLink,
+  SupporterScope
+} from '@/lib/supporters';
+
+ChartJS.register(CategoryScale, LinearScale, PointElement, LineElement, Tooltip);
+
+interface SupporterDashboardProps {
+  user: User;
+  onBack: () => void;
+}
+
+const MOOD_DAYS = 30;
+const NOTES_SHOWN = 10;
+
+export default function SupporterDashboard({ user, onBack }: SupporterDashboardProps) {
+  const [invites, setInvites] = useState<SupporterLink[]>([]);
+  const [people, setPeople] = useState<SupporterLink[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [progress, setProgress] = useState<SharedProgress | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const loadPeople = async () => {
+    const [inviteData, peopleData] = await Promise.all([
+      user.email ? fetchSupportInvites(user.email) : Promise.resolve([]),
+      fetchSupportedPeople(user.id)
+    ]);
+    setInvites(inviteData);
+    setPeople(peopleData);
+    setSelectedId(current => peopleData.some(link => link.id === current) ? current : peopleData[0]?.id || null);
+    setLoading(false);
+  };
+
+  useEffect(() => {
+    loadPeople();
+  }, []);
+
+  const selected = people.find(link => link.id === selectedId) || null;
+
+  useEffect(() => {
+    setProgress(null);
+    if (selected) {
+      fetchSharedProgress(selected)
+        .then(setProgress)
+        .catch((error: unknown) => toast.error('Failed to load their progress', { description: (error as Error).message }));
+    }
+  }, [selectedId]);
+
+  const handleAccept = async (link: SupporterLink) => {
+    try {
+      await acceptSupportInvite(link.id);
+      toast.success(`You're now supporting ${link.display_name}`);
+      await loadPeople();
+      setSelectedId(link.id);
+    } catch (error: unknown) {
+      toast.error('Failed to accept invite', { description: (error as Error).message });
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gray-50 p-4">
+        <div className="max-w-6xl mx-auto">
+          <div className="flex items-center justify-center h-64">
+            <div className="text-lg text-gray-600">Loading the people you support...</div>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  const has = (scope: SupporterScope) => !!selected?.scopes.includes(scope);
+  const moods = (progress?.checkIns || []).filter(c => c.mood_score !== null).slice(-MOOD_DAYS);
+  const notes = (progress?.checkIns || []).filter(c => c.notes).slice(-NOTES_SHOWN).reverse();
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-4">
+      <div className="max-w-6xl mx-auto">
+        {/* Header */}
+        <div className="mb-8">
+          <button
+            onClick={onBack}
+            className="mb-4 text-blue-600 hover:text-blue-700 flex items-center"
+          >
+            ← Back to Dashboard
+          </button>
+          <h1 className="text-3xl font-bold text-gray-900">People I Support</h1>
+          <p className="text-gray-600">A read-only view of what they&apos;ve chosen to share with you</p>
+        </div>
+
+        {/* Pending Invites */}
+        {invites.length > 0 && (
+          <div className="bg-white rounded-lg shadow-md p-6 mb-8">
+            <h2 className="text-xl font-semibold text-gray-900 mb-4">Invites</h2>
+            <div className="space-y-3">
+              {invites.map(link => (
+                <div key={link.id} className="flex items-center justify-between border border-gray-200 rounded-lg p-3">
+                  <div>
+                    <p className="font-medium text-gray-900">{link.display_name} asked you to be a supporter</p>
+                    <p className="text-sm text-gray-600">
+                      You&apos;d see: {SUPPORTER_SCOPES.filter(s => link.scopes.includes(s.value)).map(s => s.label).join(', ')}
+                    </p>
+                  </div>
+                  <button
+                    onClick={() => handleAccept(link)}
+                    className="bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700 text-sm"
+                  >
+                    Accept
+                  </button>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {people.length === 0 ? (
+          <div className="bg-white rounded-lg shadow-md p-8 text-center">
+            <div className="text-4xl mb-4">🤝</div>
+            <p className="text-gray-600">
+              No one is sharing with you yet. When someone invites {user.email}, their invite will appear here.
+            </p>
+          </div>
+        ) : (
+          <>
+            {/* Person Selector */}
+            {people.length > 1 && (
+              <div className="flex flex-wrap gap-2 mb-6">
+                {people.map(link => (
+                  <button
+                    key={link.id}
+                    onClick={() => setSelectedId(link.id)}
+                    className={`px-4 py-2 rounded-lg font-medium transition-colors ${
+                      link.id === selectedId ? 'bg-blue-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-100'
+                    }`}
+                  >
+                    {link.display_name}
+                  </button>
+                ))}
+              </div>
+            )}
+
+            {selected && !progress && (
+              <div className="text-gray-600">Loading {selected.display_name}&apos;s progress...</div>
+            )}
+
+            {selected && progress && (
+              <div className="space-y-8">
+                {/* Clean Time & Streak */}
+                {has('streak') && (
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                    <div className="bg-white rounded-lg shadow-md p-6">
+                      <p className="text-sm text-gray-600">Days Clean</p>
+                      <p className="text-3xl font-bold text-blue-600">{progress.daysClean ?? '—'}</p>
+                    </div>
+                    <div className="bg-white rounded-lg shadow-md p-6">
+                      <p className="text-sm text-gray-600">Check-In Streak</p>
+                      <p className="text-3xl font-bold text-orange-600">🔥 {progress.streak?.current ?? 0}</p>
+                    </div>
+                    <div className="bg-white rounded-lg shadow-md p-6">
+                      <p className="text-sm text-gray-600">Longest Streak</p>
+                      <p className="text-3xl font-bold text-green-600">{progress.streak?.longest ?? 0}</p>
+                    </div>
+                  </div>
+                )}
+
+                {/* Mood Trend */}
+                {has('mood') && (
+                  <div className="bg-white rounded-lg shadow-md p-6">
+                    <h2 className="text-xl font-semibold text-gray-900 mb-4">Mood, Last {MOOD_DAYS} Check-Ins</h2>
+                    {moods.length > 0 ? (
+                      <Line
+                        data={{
+                          labels: moods.map(c => formatDay(c.date, { month: 'short', day: 'numeric' })),
+                          datasets: [{
+                            label: 'Mood',
+                            data: moods.map(c => c.mood_score),
+                            borderColor: 'rgb(59, 130, 246)',
+                            backgroundColor: 'rgba(59, 130, 246, 0.1)',
+                            tension: 0.3
+                          }]
+                        }}
+                        options={{ responsive: true, scales: { y: { min: 0, max: 10 } } }}
+                      />
+                    ) : (
+                      <p className="text-gray-500">No mood check-ins yet.</p>
+                    )}
+                  </div>
+                )}
+
+                {/* Check-In Notes */}
+                {has('notes') && (
+                  <div className="bg-white rounded-lg shadow-md p-6">
+                    <h2 className="text-xl font-semibold text-gray-900 mb-4">Recent Check-In Notes</h2>
+                    {notes.length > 0 ? (
+                      <div className="space-y-3">
+                        {notes.map(checkIn => (
+                          <div key={checkIn.date} className="border-l-4 border-blue-200 pl-3">
+                            <p className="text-sm text-gray-500">{formatDay(checkIn.date, { weekday: 'short', month: 'short', day: 'numeric' })}</p>
+                            <p className="text-gray-800 whitespace-pre-wrap">{checkIn.notes}</p>
+                          </div>
+                        ))}
+                      </div>
+                    ) : (
+                      <p className="text-gray-500">No notes yet.</p>
+                    )}
+                  </div>
+                )}
+
+                {/* Goals */}
+                {has('goals') && (
+                  <div className="bg-white rounded-lg shadow-md p-6">
+                    <h2 className="text-xl font-semibold text-gray-900 mb-4">Goals</h2>
+                    {progress.goals.length > 0 ? (
+                      <ul className="space-y-2">
+                        {progress.goals.map(goal => (
+                          <li key={goal.id} className="flex items-center justify-between">
+                            <span className={goal.is_completed ? 'text-gray-500 line-through' : 'text-gray-900'}>
+                              {goal.is_completed ? '✅' : '🎯'} {goal.title}
+                            </span>
+                            {goal.target_date && !goal.is_completed && (
+                              <span className="text-sm text-gray-500">by {formatDay(goal.target_date)}</span>
+                            )}
+                          </li>
+                        ))}
+                      </ul>
+                    ) : (
+                      <p className="text-gray-500">No goals yet.</p>
+                    )}
+                  </div>
+                )}
+
+                {/* Shared SOS Events */}
+                {progress.sosEvents.length > 0 && (
+                  <div className="bg-white rounded-lg shadow-md p-6">
+                    <h2 className="text-xl font-semibold text-gray-900 mb-4">SOS Alerts</h2>
+                    <div className="space-y-2">
+                      {progress.sosEvents.map(event => (
+                        <div key={event.id} className="flex items-center justify-between">
+                          <span className="text-gray-900">
+                            🆘 {event.outcome ? SOS_OUTCOME_LABELS[event.outcome] : 'In progress'}
+                          </span>
+                          <span className="text-sm text-gray-500">{new Date(event.started_at).toLocaleString()}</span>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
+                {selected.scopes.length === 0 && progress.sosEvents.length === 0 && (
+                  <p className="text-gray-600">{selected.display_name} isn&apos;t sharing anything with you right now.</p>
+                )}
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,292 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { supabase } from '@/lib/supabase';
+import { User } from '@supabase/auth-helpers-nextjs';
+import { toast } from 'sonner';
+import { fetchTriggers, Trigger, TRIGGER_CATEGORIES, TRIGGER_COLORS, TriggerCategory } from '@/lib/triggers';
+
+interface TriggerManagerProps {
+  user: User;
+  onBack: () => void;
+}
+
+const sortTriggers = (triggers: Trigger[]) =>
+  [...triggers].sort((a, b) => a.category.localeCompare(b.category) || a.name.localeCompare(b.name));
+
+export default function TriggerManager({ user, onBack }: TriggerManagerProps) {
+  const [triggers, setTriggers] = useState<Trigger[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showAddForm, setShowAddForm] = useState(false);
+  const [editingTrigger, setEditingTrigger] = useState<Trigger | null>(null);
+  const [showArchived, setShowArchived] = useState(false);
+
+  useEffect(() => {
+    fetchTriggers(user.id).then(data => {
+      setTriggers(data);
+      setLoading(false);
+    });
+  }, []);
+
+  // Archiving keeps past entries pointing at the trigger while hiding it from pickers
+  const toggleArchived = async (trigger: Trigger) => {
+    const { error } = await supabase
+      .from('triggers')
+      .update({ is_archived: !trigger.is_archived })
+      .eq('id', trigger.id);
+
+    if (error) {
+      toast.error('Failed to update trigger');
+    } else {
+      setTriggers(prev => prev.map(t => t.id === trigger.id ? { ...t, is_archived: !t.is_archived } : t));
+      toast.success(trigger.is_archived ? 'Trigger restored' : 'Trigger archived');
+    }
+  };
+
+  const archivedCount = triggers.filter(t => t.is_archived).length;
+  const visibleTriggers = triggers.filter(t => showArchived || !t.is_archived);
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gray-50 p-4">
+        <div className="max-w-4xl mx-auto">
+          <div className="flex items-center justify-center h-64">
+            <div className="text-lg text-gray-600">Loading triggers...</div>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-4">
+      <div className="max-w-4xl mx-auto">
+        {/* Header */}
+        <div className="flex items-center justify-between mb-8">
+          <div>
+            <button
+              onClick={onBack}
+              className="mb-4 text-blue-600 hover:text-blue-700 flex items-center"
+            >
+              ← Back to Dashboard
+            </button>
+            <h1 className="text-3xl font-bold text-gray-900">My Triggers</h1>
+            <p className="text-gray-600">Name the people, places and feelings that set off cravings</p>
+          </div>
+
+          <button
+            onClick={() => setShowAddForm(true)}
+            className="bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700"
+          >
+            + Add Trigger
+          </button>
+        </div>
+
+        {archivedCount > 0 && (
+          <div className="mb-6 flex justify-end">
+            <button
+              onClick={() => setShowArchived(!showArchived)}
+              className="text-sm text-gray-600 hover:text-gray-800"
+            >
+              {showArchived ? 'Hide archived' : `Show archived (${archivedCount})`}
+            </button>
+          </div>
+        )}
+
+        {/* Triggers by Category */}
+        <div className="space-y-6">
+          {TRIGGER_CATEGORIES.map((category) => {
+            const categoryTriggers = visibleTriggers.filter(t => t.category === category.value);
+            if (categoryTriggers.length === 0) return null;
+
+            return (
+              <div key={category.value} className="bg-white rounded-lg shadow-md p-6">
+                <h2 className="text-xl font-semibold text-gray-900 mb-4">
+                  {category.icon} {category.label}
+                </h2>
+                <div className="divide-y divide-gray-200">
+                  {categoryTriggers.map((trigger) => (
+                    <div key={trigger.id} className="flex items-center justify-between py-3">
+                      <div className="flex items-center">
+                        <span
+                          className="w-3 h-3 rounded-full mr-3"
+                          style={{ backgroundColor: trigger.color }}
+                        />
+                        <span className={trigger.is_archived ? 'text-gray-400 line-through' : 'text-gray-900'}>
+                          {trigger.name}
+                        </span>
+                      </div>
+                      <div className="flex space-x-3 text-sm">
+                        <button
+                          onClick={() => setEditingTrigger(trigger)}
+                          className="text-blue-600 hover:text-blue-700"
+                        >
+                          Edit
+                        </button>
+                        <button
+                          onClick={() => toggleArchived(trigger)}
+                          className="text-gray-600 hover:text-gray-800"
+                        >
+                          {trigger.is_archived ? 'Restore' : 'Archive'}
+                        </button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+
+        {/* Add/Edit Trigger Form */}
+        {(showAddForm || editingTrigger) && (
+          <TriggerForm
+            user={user}
+            trigger={editingTrigger}
+            onClose={() => {
+              setShowAddForm(false);
+              setEditingTrigger(null);
+            }}
+            onSave={(saved) => {
+              setTriggers(prev => sortTriggers(
+                editingTrigger ? prev.map(t => t.id === saved.id ? saved : t) : [...prev, saved]
+              ));
+              toast.success(editingTrigger ? 'Trigger updated' : 'Trigger added');
+              setShowAddForm(false);
+              setEditingTrigger(null);
+            }}
+          />
+        )}
+      </div>
+    </div>
+  );
+}
+
+// Trigger Form Component
+function TriggerForm({
+  user,
+  trigger,
+  onClose,
+  onSave
+}: {
+  user: User;
+  trigger: Trigger | null;
+  onClose: () => void;
+  onSave: (trigger: Trigger) => void;
+}) {
+  const [formData, setFormData] = useState<{ name: string; category: TriggerCategory; color: string }>({
+    name: trigger?.name || '',
+    category: trigger?.category || 'emotions',
+    color: trigger?.color || TRIGGER_COLORS[0]
+  });
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+
+    const payload = { ...formData, name: formData.name.trim() };
+
+    try {
+      const { data, error } = trigger
+        ? await supabase
+            .from('triggers')
+            .update(payload)
+            .eq('id', trigger.id)
+            .select()
+            .single()
+        : await supabase
+            .from('triggers')
+            .insert([{ user_id: user.id, ...payload }])
+            .select()
+            .single();
+
+      if (error) {
+        throw error.code === '23505' ? new Error('you already have a trigger with that name') : error;
+      }
+      onSave(data);
+    } catch (error: unknown) {
+      toast.error('Failed to save trigger: ' + (error as Error).message);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg shadow-xl p-6 max-w-md w-full">
+        <h3 className="text-lg font-semibold text-gray-900 mb-4">
+          {trigger ? 'Edit Trigger' : 'Add Trigger'}
+        </h3>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Name *</label>
+            <input
+              type="text"
+              value={formData.name}
+              onChange={(e) => setFormData(prev => ({ ...prev, name: e.target.value }))}
+              placeholder="e.g. Payday, Old neighbourhood"
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              required
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Category</label>
+            <select
+              value={formData.category}
+              onChange={(e) => setFormData(prev => ({ ...prev, category: e.target.value as TriggerCategory }))}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              {TRIGGER_CATEGORIES.map(category => (
+                <option key={category.value} value={category.value}>
+                  {category.icon} {category.label}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Color</label>
+            <div className="flex flex-wrap gap-2">
+              {TRIGGER_COLORS.map(color => (
+                <button
+                  key={color}
+                  type="button"
+                  onClick={() => setFormData(prev => ({ ...prev, color }))}
+                  className={`w-8 h-8 rounded-full border-2 ${
+                    formData.color === color ? 'border-gray-900' : 'border-transparent'
+                  }`}
+                  style={{ backgroundColor: color }}
+                  aria-label={color}
+                />
+              ))}
+            </div>
+          </div>
+
+          <div className="flex space-x-4">
+            <button
+              type="submit"
+              disabled={isSubmitting}
+              className={`flex-1 py-2 px-4 rounded-md font-medium ${
+                isSubmitting
+                  ? 'bg-gray-400 cursor-not-allowed text-white'
+                  : 'bg-blue-600 text-white hover:bg-blue-700'
+              }`}
+            >
+              {isSubmitting ? 'Saving...' : (trigger ? 'Update Trigger' : 'Add Trigger')}
+            </button>
+            <button
+              type="button"
+              onClick={onClose}
+              className="flex-1 bg-gray-600 text-white py-2 px-4 rounded-md hover:bg-gray-700"
+            >
+              Cancel
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
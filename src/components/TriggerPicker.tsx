@@ -0,0 +1,56 @@
+'use client';
+
+import { Trigger, TRIGGER_CATEGORIES } from '@/lib/triggers';
+
+interface TriggerPickerProps {
+  triggers: Trigger[];
+  selectedIds: string[];
+  onToggle: (triggerId: string) => void;
+}
+
+// Trigger toggles grouped by category. Archived triggers only show up when an
+// existing entry already references them.
+export default function TriggerPicker({ triggers, selectedIds, onToggle }: TriggerPickerProps) {
+  const visible = triggers.filter(t => !t.is_archived || selectedIds.includes(t.id));
+
+  if (visible.length === 0) {
+    return <p className="text-sm text-gray-500">No triggers set up yet.</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      {TRIGGER_CATEGORIES.map((category) => {
+        const categoryTriggers = visible.filter(t => t.category === category.value);
+        if (categoryTriggers.length === 0) return null;
+
+        return (
+          <div key={category.value}>
+            <p className="text-xs font-medium text-gray-500 uppercase tracking-wide mb-2">
+              {category.icon} {category.label}
+            </p>
+            <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+              {categoryTriggers.map((trigger) => (
+                <button
+                  key={trigger.id}
+                  type="button"
+                  onClick={() => onToggle(trigger.id)}
+                  className={`flex items-center px-3 py-2 text-sm rounded-md border transition-colors ${
+                    selectedIds.includes(trigger.id)
+                      ? 'bg-red-100 border-red-300 text-red-800'
+                      : 'bg-gray-50 border-gray-300 text-gray-700 hover:bg-gray-100'
+                  }`}
+                >
+                  <span
+                    className="w-2 h-2 rounded-full mr-2 flex-shrink-0"
+                    style={{ backgroundColor: trigger.color }}
+                  />
+                  {trigger.name}
+                </button>
+              ))}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,327 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { User } from '@supabase/auth-helpers-nextjs';
+import { toast } from 'sonner';
+import {
+  Chart as ChartJS,
+  CategoryScale,
+  LinearScale,
+  PointElement,
+  LineElement,
+  Tooltip,
+} from 'chart.js';
+import { Line } from 'react-chartjs-2';
+import { useExerciseTimer } from '@/lib/exerciseTimer';
+import { Cue, isExerciseMuted, useCuePlayer, useCueSettings } from '@/lib/cues';
+import CueToggle from '@/components/CueToggle';
+import { fetchDayContext, getRecoveryDay } from '@/lib/recoveryDay';
+import { saveUrgeSession, summarizeReadings, UrgeReading, URGE_SURF_DURATIONS } from '@/lib/urgeSurfing';
+
+ChartJS.register(CategoryScale, LinearScale, PointElement, LineElement, Tooltip);
+
+interface UrgeSurferProps {
+  user: User;
+  onClose: () => void;
+}
+
+const chartOptions = {
+  responsive: true,
+  maintainAspectRatio: false,
+  animation: false as const,
+  plugins: {
+    legend: {
+      display: false,
+    },
+  },
+  scales: {
+    y: {
+      beginAtZero: true,
+      max: 10,
+      grid: {
+        color: 'rgba(0, 0, 0, 0.1)',
+      },
+    },
+    x: {
+      grid: {
+        color: 'rgba(0, 0, 0, 0.1)',
+      },
+    },
+  },
+};
+
+export default function UrgeSurfer({ user, onClose }: UrgeSurferProps) {
+  const [plannedMinutes, setPlannedMinutes] = useState(10);
+  const [readings, setReadings] = useState<UrgeReading[]>([]);
+  const [startedAt, setStartedAt] = useState<string | null>(null);
+  const [endingEarly, setEndingEarly] = useState(false);
+  const [isSaved, setIsSaved] = useState(false);
+  // Kept after a failed save so the readings can be retried instead of lost
+  const [unsaved, setUnsaved] = useState<{ readings: UrgeReading[]; durationSeconds: number } | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const timer = useExerciseTimer({ limitMs: plannedMinutes * 60000, resolutionMs: 1000 });
+  const { settings: cueSettings, toggleMuted } = useCueSettings(user.id);
+  const cues = useCuePlayer();
+  const cuesOn = !isExerciseMuted(cueSettings, 'urge_surfing');
+
+  // A nudge at each minute's check-in and at the end, so the user can look away
+  const { isRunning, now } = timer;
+  useEffect(() => {
+    if (!isRunning || !cuesOn) {
+      cues.cancel();
+      return;
+    }
+
+    const from = now() / 1000;
+    const upcoming: Cue[] = [];
+    for (let minute = Math.floor(from / 60) + 1; minute < plannedMinutes; minute++) {
+      upcoming.push({ in: minute * 60 - from, kind: 'prompt', label: 'How strong is the urge now?' });
+    }
+    upcoming.push({ in: plannedMinutes * 60 - from, kind: 'done', label: 'Time is up. How strong is the urge now?' });
+    cues.schedule(upcoming, cueSettings);
+  }, [isRunning, cuesOn, cueSettings, plannedMinutes, cues, now]);
+
+  const elapsedMinutes = timer.elapsedMs / 60000;
+  const currentMinute = Math.floor(elapsedMinutes);
+  const lastReading = readings[readings.length - 1];
+  const timeUp = elapsedMinutes >= plannedMinutes;
+  const needsFinalReading = (timeUp || endingEarly) && !isSaved && !unsaved && !isSaving;
+  // One reading per minute; a missed minute is simply skipped, not back-filled
+  const needsReading = !!startedAt && !needsFinalReading && !!lastReading && lastReading.minute < currentMinute;
+  const summary = summarizeReadings(readings);
+
+  const startSurfing = (intensity: number) => {
+    setReadings([{ minute: 0, intensity }]);
+    setStartedAt(new Date().toISOString());
+    cues.unlock();
+    timer.start();
+  };
+
+  const addReading = (intensity: number) => {
+    setReadings(prev => [...prev, { minute: currentMinute, intensity }]);
+  };
+
+  const saveSession = async (session: { readings: UrgeReading[]; durationSeconds: number }) => {
+    setIsSaving(true);
+    try {
+      const context = await fetchDayContext(user.id);
+      await saveUrgeSession({
+        user_id: user.id,
+        date: getRecoveryDay(context, new Date(startedAt as string)),
+        started_at: startedAt as string,
+        planned_minutes: plannedMinutes,
+        duration_seconds: session.durationSeconds,
+        readings: session.readings
+      });
+      toast.success('Urge surfing session saved');
+      setUnsaved(null);
+      setIsSaved(true);
+    } catch (error: unknown) {
+      toast.error('Failed to save session: ' + (error as Error).message);
+      setUnsaved(session);
+    }
+    setIsSaving(false);
+  };
+
+  const finish = async (intensity: number) => {
+    timer.pause();
+    const minute = Math.round(timer.now() / 6000) / 10;
+    const allReadings = [...readings.filter(r => r.minute < minute), { minute, intensity }];
+    setReadings(allReadings);
+    await saveSession({ readings: allReadings, durationSeconds: Math.round(timer.now() / 1000) });
+  };
+
+  const chartData = {
+    labels: readings.map(r => `${r.minute} min`),
+    datasets: [
+      {
+        label: 'Urge intensity',
+        data: readings.map(r => r.intensity),
+        borderColor: 'rgb(14, 165, 233)',
+        backgroundColor: 'rgba(14, 165, 233, 0.1)',
+        borderWidth: 2,
+        tension: 0.3,
+      },
+    ],
+  };
+
+  const remainingSeconds = Math.max(0, Math.ceil((plannedMinutes * 60000 - timer.elapsedMs) / 1000));
+
+  const renderIntensityButtons = (onPick: (intensity: number) => void) => (
+    <div>
+      <div className="grid grid-cols-11 gap-1 mb-2">
+        {Array.from({ length: 11 }, (_, intensity) => (
+          <button
+            key={intensity}
+            onClick={() => onPick(intensity)}
+            className="py-2 rounded-md border border-gray-300 text-sm font-medium text-gray-700 hover:bg-blue-50 hover:border-blue-400"
+          >
+            {intensity}
+          </button>
+        ))}
+      </div>
+      <div className="flex justify-between text-xs text-gray-500">
+        <span>No urge</span>
+        <span>Overwhelming</span>
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg shadow-xl p-6 max-w-lg w-full">
+        <div className="flex items-center mb-4">
+          <span className="text-3xl mr-3">🌊</span>
+          <div>
+            <h2 className="text-xl font-bold text-gray-900">Urge Surfing</h2>
+            <p className="text-sm text-gray-600">Cravings rise, peak and pass, like a wave.</p>
+          </div>
+          <div className="ml-auto">
+            <CueToggle settings={cueSettings} exercise="urge_surfing" onToggle={toggleMuted} />
+          </div>
+        </div>
+
+        {/* Setup */}
+        {!startedAt && (
+          <div>
+            <p className="text-sm font-medium text-gray-700 mb-2">How long do you want to ride it out?</p>
+            <div className="flex flex-wrap gap-2 mb-6">
+              {URGE_SURF_DURATIONS.map(minutes => (
+                <button
+                  key={minutes}
+                  onClick={() => setPlannedMinutes(minutes)}
+                  className={`px-3 py-2 rounded-md border text-sm ${
+                    plannedMinutes === minutes
+                      ? 'bg-blue-600 border-blue-600 text-white'
+                      : 'border-gray-300 text-gray-700 hover:border-blue-400'
+                  }`}
+                >
+                  {minutes} min
+                </button>
+              ))}
+            </div>
+
+            <p className="text-sm font-medium text-gray-700 mb-2">How strong is the urge right now? Tap to begin.</p>
+            {renderIntensityButtons(startSurfing)}
+          </div>
+        )}
+
+        {/* Surfing */}
+        {startedAt && (
+          <div>
+            {!isSaved && (
+              <div className="text-center mb-4">
+                <div className="text-4xl font-bold text-gray-900">
+                  {Math.floor(remainingSeconds / 60)}:{String(remainingSeconds % 60).padStart(2, '0')}
+                </div>
+                <p className="text-sm text-gray-600 mt-1">
+                  Breathe, and notice where you feel the urge in your body. You don&apos;t have to act on it.
+                </p>
+              </div>
+            )}
+
+            <div className="h-48 mb-4">
+              <Line data={chartData} options={chartOptions} />
+            </div>
+
+            {needsReading && (
+              <div className="bg-blue-50 border border-blue-200 rounded-md p-3 mb-4">
+                <p className="text-sm font-medium text-blue-900 mb-2">Minute {currentMinute}: how strong is it now?</p>
+                {renderIntensityButtons(addReading)}
+              </div>
+            )}
+
+            {needsFinalReading && (
+              <div className="bg-green-50 border border-green-200 rounded-md p-3 mb-4">
+                <p className="text-sm font-medium text-green-900 mb-2">
+                  {timeUp ? 'Time’s up. ' : ''}How strong is the urge now?
+                </p>
+                {renderIntensityButtons(finish)}
+              </div>
+            )}
+
+            {unsaved && !isSaved && (
+              <div className="bg-red-50 border border-red-200 rounded-md p-3 mb-4">
+                <p className="text-sm font-medium text-red-900 mb-2">Your session hasn&apos;t been saved yet.</p>
+                <div className="flex space-x-2">
+                  <button
+                    onClick={() => saveSession(unsaved)}
+                    disabled={isSaving}
+                    className="bg-red-600 text-white px-3 py-2 rounded-md hover:bg-red-700 disabled:opacity-50 text-sm"
+                  >
+                    {isSaving ? 'Saving...' : 'Try Again'}
+                  </button>
+                  <button
+                    onClick={onClose}
+                    className="bg-gray-200 text-gray-800 px-3 py-2 rounded-md hover:bg-gray-300 text-sm"
+                  >
+                    Close Without Saving
+                  </button>
+                </div>
+              </div>
+            )}
+
+            {isSaved && summary && (
+              <div className="bg-gray-50 rounded-md p-4 mb-4 text-sm text-gray-700">
+                <p>Your urge peaked at <strong>{summary.peak}/10</strong> around minute {summary.peakMinute}.</p>
+                <p>
+                  {summary.dropFromPeak > 0
+                    ? `It has dropped ${summary.dropFromPeak} points since then, and you rode it out.`
+                    : 'It hasn’t eased yet, and that’s okay. Try another strategy or reach out to someone.'}
+                </p>
+              </div>
+            )}
+
+            <div className="flex space-x-4">
+              {!isSaved && !needsFinalReading && !unsaved && (
+                <>
+                  <button
+                    onClick={() => {
+                      if (timer.isRunning) {
+                        timer.pause();
+                      } else {
+                        cues.unlock();
+                        timer.resume();
+                      }
+                    }}
+                    className={`flex-1 py-3 px-4 rounded-md font-medium text-white ${
+                      timer.isRunning ? 'bg-yellow-600 hover:bg-yellow-700' : 'bg-green-600 hover:bg-green-700'
+                    }`}
+                  >
+                    {timer.isRunning ? 'Pause' : 'Resume'}
+                  </button>
+                  <button
+                    onClick={() => {
+                      timer.pause();
+                      setEndingEarly(true);
+                    }}
+                    className="flex-1 bg-gray-600 text-white py-3 px-4 rounded-md hover:bg-gray-700 font-medium"
+                  >
+                    End Early
+                  </button>
+                </>
+              )}
+              {isSaved && (
+                <button
+                  onClick={onClose}
+                  className="flex-1 bg-gray-600 text-white py-3 px-4 rounded-md hover:bg-gray-700 font-medium"
+                >
+                  Close
+                </button>
+              )}
+            </div>
+          </div>
+        )}
+
+        {!startedAt && (
+          <button
+            onClick={onClose}
+            className="w-full mt-6 bg-gray-600 text-white py-2 px-4 rounded-md hover:bg-gray-700"
+          >
+            Cancel
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
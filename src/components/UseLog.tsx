@@ -0,0 +1,300 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { supabase } from '@/lib/supabase';
+import { User } from '@supabase/auth-helpers-nextjs';
+import { toast } from 'sonner';
+import { daysBetween, fetchDayContext, formatDay, getRecoveryDay } from '@/lib/recoveryDay';
+import { fetchRecoveryPeriods, logUseEvent, NewUseEvent, RecoveryPeriod, SUBSTANCE_OPTIONS, UseEvent } from '@/lib/sobriety';
+import { fetchTriggers, getTriggerNames, Trigger } from '@/lib/triggers';
+import TriggerPicker from '@/components/TriggerPicker';
+
+interface UseLogProps {
+  user: User;
+  onBack: () => void;
+}
+
+export default function UseLog({ user, onBack }: UseLogProps) {
+  const [events, setEvents] = useState<UseEvent[]>([]);
+  const [periods, setPeriods] = useState<RecoveryPeriod[]>([]);
+  const [triggers, setTriggers] = useState<Trigger[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [today, setToday] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [formData, setFormData] = useState<NewUseEvent>({
+    date: '',
+    substance: SUBSTANCE_OPTIONS[0],
+    amount: '',
+    context: '',
+    trigger_ids: [],
+    reset_sobriety: false
+  });
+
+  useEffect(() => {
+    fetchData();
+  }, []);
+
+  const fetchData = async () => {
+    const recoveryDay = getRecoveryDay(await fetchDayContext(user.id));
+    setToday(recoveryDay);
+    setFormData(prev => ({ ...prev, date: prev.date || recoveryDay }));
+
+    const { data } = await supabase
+      .from('use_events')
+      .select('*')
+      .eq('user_id', user.id)
+      .order('date', { ascending: false })
+      .order('created_at', { ascending: false });
+
+    setEvents(data || []);
+    setPeriods(await fetchRecoveryPeriods(user.id));
+    setTriggers(await fetchTriggers(user.id));
+    setLoading(false);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (formData.reset_sobriety && !confirm('This will start a new sobriety date from the day after this entry. Your previous clean time and milestones will be kept as history. Continue?')) {
+      return;
+    }
+
+    setIsSubmitting(true);
+
+    try {
+      const event = await logUseEvent({
+        ...formData,
+        amount: formData.amount || null,
+        context: formData.context || null
+      });
+
+      setEvents(prev => [event, ...prev].sort((a, b) => b.date.localeCompare(a.date)));
+      if (formData.reset_sobriety) {
+        setPeriods(await fetchRecoveryPeriods(user.id));
+      }
+
+      toast.success('Entry logged. Thank you for being honest with yourself.');
+      setFormData({
+        date: today,
+        substance: formData.substance,
+        amount: '',
+        context: '',
+        trigger_ids: [],
+        reset_sobriety: false
+      });
+    } catch (error: unknown) {
+      toast.error('Failed to log entry: ' + (error as Error).message);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const toggleTrigger = (triggerId: string) => {
+    setFormData(prev => ({
+      ...prev,
+      trigger_ids: prev.trigger_ids.includes(triggerId)
+        ? prev.trigger_ids.filter(t => t !== triggerId)
+        : [...prev.trigger_ids, triggerId]
+    }));
+  };
+
+  const getPeriodLength = (period: RecoveryPeriod) => {
+    const end = period.end_date || today;
+    const days = Math.max(0, daysBetween(period.start_date, end));
+    return `${days} day${days !== 1 ? 's' : ''}`;
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gray-50 p-4">
+        <div className="max-w-4xl mx-auto">
+          <div className="flex items-center justify-center h-64">
+            <div className="text-lg text-gray-600">Loading your log...</div>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-4">
+      <div className="max-w-4xl mx-auto">
+        {/* Header */}
+        <div className="mb-8">
+          <button
+            onClick={onBack}
+            className="mb-4 text-blue-600 hover:text-blue-700 flex items-center"
+          >
+            ← Back to Dashboard
+          </button>
+          <h1 className="text-3xl font-bold text-gray-900">Use & Lapse Log</h1>
+          <p className="text-gray-600">A lapse is part of many recovery journeys. Logging it helps you learn from it.</p>
+        </div>
+
+        {/* Log Form */}
+        <div className="bg-white rounded-lg shadow-md p-6 mb-8">
+          <h2 className="text-xl font-semibold text-gray-900 mb-4">Log an Entry</h2>
+
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="grid gap-4 md:grid-cols-3">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Date *</label>
+                <input
+                  type="date"
+                  value={formData.date}
+                  max={today}
+                  onChange={(e) => setFormData(prev => ({ ...prev, date: e.target.value }))}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  required
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Substance *</label>
+                <select
+                  value={formData.substance}
+                  onChange={(e) => setFormData(prev => ({ ...prev, substance: e.target.value }))}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  {SUBSTANCE_OPTIONS.map(option => (
+                    <option key={option} value={option}>{option}</option>
+                  ))}
+                </select>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Amount</label>
+                <input
+                  type="text"
+                  value={formData.amount || ''}
+                  onChange={(e) => setFormData(prev => ({ ...prev, amount: e.target.value }))}
+                  placeholder="e.g. 3 drinks"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">What was going on?</label>
+              <textarea
+                value={formData.context || ''}
+                onChange={(e) => setFormData(prev => ({ ...prev, context: e.target.value }))}
+                rows={3}
+                placeholder="Where were you, who were you with, how were you feeling?"
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 resize-none"
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Related triggers</label>
+              <TriggerPicker
+                triggers={triggers}
+                selectedIds={formData.trigger_ids}
+                onToggle={toggleTrigger}
+              />
+            </div>
+
+            <div className="flex items-start">
+              <div className="flex items-center h-5">
+                <input
+                  type="checkbox"
+                  checked={formData.reset_sobriety}
+                  onChange={(e) => setFormData(prev => ({ ...prev, reset_sobriety: e.target.checked }))}
+                  className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                />
+              </div>
+              <div className="ml-3">
+                <label className="text-sm font-medium text-gray-700">Reset my sobriety date</label>
+                <p className="text-sm text-gray-500">
+                  Starts a new recovery period the day after this entry. Your previous period and its milestones stay in your history.
+                </p>
+              </div>
+            </div>
+
+            <div className="flex justify-end">
+              <button
+                type="submit"
+                disabled={isSubmitting}
+                className={`px-6 py-2 rounded-md font-medium ${
+                  isSubmitting
+                    ? 'bg-gray-400 cursor-not-allowed text-white'
+                    : 'bg-blue-600 text-white hover:bg-blue-700'
+                }`}
+              >
+                {isSubmitting ? 'Saving...' : 'Log Entry'}
+              </button>
+            </div>
+          </form>
+        </div>
+
+        {/* Recovery Periods */}
+        {periods.length > 0 && (
+          <div className="bg-white rounded-lg shadow-md p-6 mb-8">
+            <h2 className="text-xl font-semibold text-gray-900 mb-4">Recovery Periods</h2>
+            <div className="space-y-3">
+              {periods.map((period) => (
+                <div key={period.id} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
+                  <div>
+                    <p className="font-medium text-gray-900">
+                      {formatDay(period.start_date, { month: 'short', day: 'numeric', year: 'numeric' })}
+                      {' – '}
+                      {period.end_date
+                        ? formatDay(period.end_date, { month: 'short', day: 'numeric', year: 'numeric' })
+                        : 'Present'}
+                    </p>
+                    <p className="text-sm text-gray-600">{getPeriodLength(period)}</p>
+                  </div>
+                  {!period.end_date && (
+                    <span className="bg-green-100 text-green-800 text-xs px-2 py-1 rounded">Current</span>
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Event History */}
+        <div className="bg-white rounded-lg shadow-md">
+          <div className="p-6 border-b border-gray-200">
+            <h2 className="text-xl font-semibold text-gray-900">History</h2>
+          </div>
+
+          {events.length === 0 ? (
+            <div className="p-8 text-center">
+              <span className="text-6xl mb-4 block">🌱</span>
+              <p className="text-gray-600">No entries logged.</p>
+            </div>
+          ) : (
+            <div className="divide-y divide-gray-200">
+              {events.map((event) => (
+                <div key={event.id} className="p-6">
+                  <div className="flex items-center justify-between mb-2">
+                    <h3 className="text-lg font-medium text-gray-900">
+                      {event.substance}{event.amount ? ` • ${event.amount}` : ''}
+                    </h3>
+                    <span className="text-sm text-gray-500">
+                      {formatDay(event.date, { weekday: 'short', month: 'short', day: 'numeric', year: 'numeric' })}
+                    </span>
+                  </div>
+                  {event.context && <p className="text-gray-600 mb-2">{event.context}</p>}
+                  <div className="flex flex-wrap gap-2">
+                    {getTriggerNames(event.trigger_ids, triggers).map(trigger => (
+                      <span key={trigger} className="bg-red-100 text-red-800 text-xs px-2 py-1 rounded">
+                        {trigger}
+                      </span>
+                    ))}
+                    {event.reset_sobriety && (
+                      <span className="bg-gray-100 text-gray-700 text-xs px-2 py-1 rounded">
+                        Sobriety date reset
+                      </span>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
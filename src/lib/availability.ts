@@ -0,0 +1,129 @@
+import { getBrowserTimezone } from '@/lib/recoveryDay';
+
+// When each contact can be reached, so the people who'll actually pick up
+// are shown first. Times are the contact's own wall-clock time.
+
+export interface AvailabilityWindow {
+  // 0 = Sunday
+  day: number;
+  // "HH:MM"; an end before the start runs past midnight into the next day
+  start: string;
+  end: string;
+}
+
+export type Reachability = 'available' | 'late_night' | 'outside_hours';
+
+interface AvailabilityFields {
+  availability: AvailabilityWindow[] | null;
+  timezone: string | null;
+  late_night_ok: boolean;
+  preferred_channel: 'call' | 'sms' | null;
+  priority_level: number;
+  created_at: string;
+}
+
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+// 10pm to 7am counts as late night unless the contact has said it's fine
+const LATE_NIGHT_START = 22 * 60;
+const LATE_NIGHT_END = 7 * 60;
+
+const REACHABILITY_RANK: Record<Reachability, number> = {
+  available: 0,
+  late_night: 1,
+  outside_hours: 2
+};
+
+export const REACHABILITY_LABELS: Record<Reachability, { icon: string; label: string; className: string }> = {
+  available: { icon: '🟢', label: 'Available now', className: 'bg-green-100 text-green-800' },
+  late_night: { icon: '🌙', label: 'Late night for them', className: 'bg-indigo-100 text-indigo-800' },
+  outside_hours: { icon: '⏰', label: 'Outside their hours', className: 'bg-gray-100 text-gray-700' }
+};
+
+const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + (minutes || 0);
+};
+
+const getLocalTime = (timezone: string, now: Date) => {
+  let parts: Intl.DateTimeFormatPart[];
+  try {
+    parts = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      weekday: 'short',
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23'
+    }).formatToParts(now);
+  } catch {
+    return getLocalTime(getBrowserTimezone(), now);
+  }
+
+  const get = (type: string) => parts.find(p => p.type === type)?.value || '';
+  return {
+    day: WEEKDAY_LABELS.indexOf(get('weekday')),
+    minutes: parseInt(get('hour')) * 60 + parseInt(get('minute'))
+  };
+};
+
+const isWithin = (window: AvailabilityWindow, day: number, minutes: number) => {
+  const start = toMinutes(window.start);
+  const end = toMinutes(window.end);
+  if (start <= end) return window.day === day && minutes >= start && minutes < end;
+  // Overnight: the evening part on its own day, the early hours on the next
+  return (window.day === day && minutes >= start) || ((window.day + 1) % 7 === day && minutes < end);
+};
+
+// userTimezone (the profile's, from the day context) stands in for contacts
+// who haven't set their own
+export const getReachability = (contact: AvailabilityFields, userTimezone: string, now: Date = new Date()): Reachability => {
+  const { day, minutes } = getLocalTime(contact.timezone || userTimezone, now);
+
+  // Hours the contact gave are taken at their word, late or not
+  if (contact.availability?.length) {
+    return contact.availability.some(window => isWithin(window, day, minutes)) ? 'available' : 'outside_hours';
+  }
+
+  const isLateNight = minutes >= LATE_NIGHT_START || minutes < LATE_NIGHT_END;
+  return isLateNight && !contact.late_night_ok ? 'late_night' : 'available';
+};
+
+// Reachable people first; priority decides among equally reachable ones
+export const sortByReachability = <T extends AvailabilityFields>(contacts: T[], userTimezone: string, now: Date = new Date()) =>
+  [...contacts].sort((a, b) =>
+    REACHABILITY_RANK[getReachability(a, userTimezone, now)] - REACHABILITY_RANK[getReachability(b, userTimezone, now)] ||
+    a.priority_level - b.priority_level ||
+    a.created_at.localeCompare(b.created_at)
+  );
+
+// "3:15 PM their time", only shown when they're somewhere else
+export const formatContactTime = (contact: Pick<AvailabilityFields, 'timezone'>, userTimezone: string, now: Date = new Date()) => {
+  if (!contact.timezone || contact.timezone === userTimezone) return null;
+  try {
+    return `${now.toLocaleTimeString('en-US', { timeZone: contact.timezone, hour: 'numeric', minute: '2-digit' })} their time`;
+  } catch {
+    return null;
+  }
+};
+
+// e.g. "Mon–Fri 9:00–17:00"; windows with different hours are listed separately
+export const describeAvailability = (windows: AvailabilityWindow[] | null) => {
+  if (!windows?.length) return 'Any time';
+
+  const byHours = new Map<string, number[]>();
+  windows.forEach(window => {
+    const hours = `${window.start}–${window.end}`;
+    byHours.set(hours, [...(byHours.get(hours) || []), window.day]);
+  });
+
+  return Array.from(byHours.entries()).map(([hours, days]) => {
+    const sorted = [...days].sort((a, b) => a - b);
+    const isRun = sorted.length > 2 && sorted.every((day, i) => i === 0 || day === sorted[i - 1] + 1);
+    const dayText = sorted.length === 7
+      ? 'Every day'
+      : isRun
+        ? `${WEEKDAY_LABELS[sorted[0]]}–${WEEKDAY_LABELS[sorted[sorted.length - 1]]}`
+        : sorted.map(day => WEEKDAY_LABELS[day]).join(', ');
+    return `${dayText} ${hours}`;
+  }).join('; ');
+};
@@ -0,0 +1,135 @@
+// Breathing patterns live on the coping_strategies row (breathing_pattern jsonb)
+// so custom strategies can define their own. Rows without one use box breathing.
+
+export type BreathingPhaseKind = 'inhale' | 'hold' | 'exhale';
+
+export interface BreathingPhase {
+  kind: BreathingPhaseKind;
+  seconds: number;
+  // Overrides the default instruction, e.g. "Sip in more air"
+  label?: string;
+}
+
+export interface BreathingPattern {
+  phases: BreathingPhase[];
+  // At most one target is set; with neither the session runs until the user stops
+  target_cycles?: number | null;
+  target_seconds?: number | null;
+}
+
+export const PHASE_KINDS: { value: BreathingPhaseKind; label: string; color: string }[] = [
+  { value: 'inhale', label: 'Breathe In', color: 'bg-blue-500' },
+  { value: 'hold', label: 'Hold', color: 'bg-yellow-500' },
+  { value: 'exhale', label: 'Breathe Out', color: 'bg-green-500' }
+];
+
+export const BREATHING_PRESETS: { id: string; name: string; pattern: BreathingPattern }[] = [
+  {
+    id: 'box',
+    name: 'Box breathing (4-4-4-4)',
+    pattern: {
+      phases: [
+        { kind: 'inhale', seconds: 4 },
+        { kind: 'hold', seconds: 4 },
+        { kind: 'exhale', seconds: 4 },
+        { kind: 'hold', seconds: 4 }
+      ],
+      target_cycles: 5
+    }
+  },
+  {
+    id: '478',
+    name: '4-7-8 breathing',
+    pattern: {
+      phases: [
+        { kind: 'inhale', seconds: 4 },
+        { kind: 'hold', seconds: 7 },
+        { kind: 'exhale', seconds: 8 }
+      ],
+      target_cycles: 4
+    }
+  },
+  {
+    id: 'sigh',
+    name: 'Physiological sigh',
+    pattern: {
+      phases: [
+        { kind: 'inhale', seconds: 2 },
+        { kind: 'inhale', seconds: 1, label: 'Sip in more air' },
+        { kind: 'exhale', seconds: 6, label: 'Long breath out' }
+      ],
+      target_cycles: 5
+    }
+  },
+  {
+    id: 'resonant',
+    // 5.5 breaths per minute: one cycle every 60 / 5.5 seconds
+    name: 'Resonant breathing (5.5 per minute)',
+    pattern: {
+      phases: [
+        { kind: 'inhale', seconds: 5.45 },
+        { kind: 'exhale', seconds: 5.45 }
+      ],
+      target_seconds: 300
+    }
+  }
+];
+
+export const DEFAULT_BREATHING_PATTERN = BREATHING_PRESETS[0].pattern;
+
+// Guards against hand-edited or partial rows so the timer never gets a zero-length loop
+export const getBreathingPattern = (strategy: { breathing_pattern?: BreathingPattern | null }) => {
+  const pattern = strategy.breathing_pattern;
+  const phases = (pattern?.phases || []).filter(phase => phase.seconds > 0);
+  return phases.length > 0 ? { ...pattern, phases } : DEFAULT_BREATHING_PATTERN;
+};
+
+export const getPhaseLabel = (phase: BreathingPhase) =>
+  phase.label || PHASE_KINDS.find(k => k.value === phase.kind)?.label || phase.kind;
+
+export const getPhaseColor = (phase: BreathingPhase) =>
+  PHASE_KINDS.find(k => k.value === phase.kind)?.color || 'bg-blue-500';
+
+export const getCycleSeconds = (pattern: BreathingPattern) =>
+  pattern.phases.reduce((sum, phase) => sum + phase.seconds, 0);
+
+// e.g. "4-7-8 · 4 cycles" or "5.45-5.45 · 5 min"
+export const describePattern = (pattern: BreathingPattern) => {
+  const rhythm = pattern.phases.map(phase => phase.seconds).join('-');
+  if (pattern.target_cycles) return `${rhythm} · ${pattern.target_cycles} cycles`;
+  if (pattern.target_seconds) return `${rhythm} · ${Math.round(pattern.target_seconds / 60)} min`;
+  return rhythm;
+};
+
+// Where in the pattern a session is after elapsedSeconds; derived from time alone
+// so it stays in step with the exercise clock however irregularly it is read
+export const getBreathingPosition = (pattern: BreathingPattern, elapsedSeconds: number) => {
+  const cycleSeconds = getCycleSeconds(pattern);
+  const cycles = Math.floor(elapsedSeconds / cycleSeconds);
+  let offset = elapsedSeconds - cycles * cycleSeconds;
+  let phaseIndex = 0;
+  while (phaseIndex < pattern.phases.length - 1 && offset >= pattern.phases[phaseIndex].seconds) {
+    offset -= pattern.phases[phaseIndex].seconds;
+    phaseIndex++;
+  }
+  return { cycles, phaseIndex, remaining: pattern.phases[phaseIndex].seconds - offset };
+};
+
+// Time a session needs to hit its target, or null when it runs until stopped
+export const getTargetSeconds = (pattern: BreathingPattern) =>
+  pattern.target_seconds || (pattern.target_cycles ? pattern.target_cycles * getCycleSeconds(pattern) : null);
+
+// Every phase start between two points in a session, for scheduling cues ahead
+export const getPhaseStarts = (pattern: BreathingPattern, fromSeconds: number, untilSeconds: number) => {
+  const starts: { at: number; phase: BreathingPhase }[] = [];
+  const cycleSeconds = getCycleSeconds(pattern);
+  let at = Math.floor(fromSeconds / cycleSeconds) * cycleSeconds;
+
+  while (at < untilSeconds) {
+    for (const phase of pattern.phases) {
+      if (at >= fromSeconds && at < untilSeconds) starts.push({ at, phase });
+      at += phase.seconds;
+    }
+  }
+  return starts;
+};
@@ -0,0 +1,71 @@
+import { supabase } from '@/lib/supabase';
+import { getQueuedWrites, NewContactAttemptRow, queueContactAttempt, QueuedContactAttemptRow } from '@/lib/offlineQueue';
+import { getDialableNumber, getNationalNumber, getSmsHref, getTelHref } from '@/lib/phone';
+
+// Offered for every contact, after any the user wrote for that person
+export const DEFAULT_MESSAGE_TEMPLATES = [
+  "I'm having a hard time right now. Can you call me?",
+  "I'm struggling with cravings. Can you talk for a few minutes?",
+  "I don't feel safe right now. Please call me as soon as you can.",
+  'Can we meet up today? I could really use some support.'
+];
+
+export const getMessageTemplates = (contact: { message_templates: string[] | null }) => [
+  ...(contact.message_templates || []),
+  ...DEFAULT_MESSAGE_TEMPLATES.filter(template => !contact.message_templates?.includes(template))
+];
+
+interface ContactTarget {
+  id: string | null;
+  name: string;
+  phone: string;
+  // Hotlines skip the calling code and are dialled as written
+  national?: boolean;
+}
+
+// Logs the attempt, then hands off to the phone's dialler or messaging app.
+// Returns false when the number can't be dialled so the caller can say so.
+export const startContactAttempt = (
+  userId: string,
+  contact: ContactTarget,
+  channel: NewContactAttemptRow['channel'],
+  callingCode: string,
+  message?: string
+) => {
+  const dialable = contact.national ? getNationalNumber(contact.phone) : getDialableNumber(contact.phone, callingCode);
+  if (!dialable) return false;
+
+  queueContactAttempt({
+    user_id: userId,
+    contact_id: contact.id,
+    contact_name: contact.name,
+    phone: dialable,
+    channel,
+    message: message || null,
+    attempted_at: new Date().toISOString()
+  }).catch(() => {
+    // Logging must never get in the way of reaching someone
+  });
+
+  window.location.href = channel === 'call' ? getTelHref(dialable) : getSmsHref(dialable, message);
+  return true;
+};
+
+// Newest first, including attempts still waiting to sync
+export const fetchContactAttempts = async (userId: string, limit = 10) => {
+  const { data } = await supabase
+    .from('contact_attempts')
+    .select('*')
+    .eq('user_id', userId)
+    .order('attempted_at', { ascending: false })
+    .limit(limit);
+
+  const queued = (await getQueuedWrites('contact_attempt'))
+    .map(write => write.row)
+    .filter(row => row.user_id === userId);
+  const synced = ((data || []) as QueuedContactAttemptRow[]).filter(row => !queued.some(q => q.id === row.id));
+
+  return [...queued, ...synced]
+    .sort((a, b) => b.attempted_at.localeCompare(a.attempted_at))
+    .slice(0, limit);
+};
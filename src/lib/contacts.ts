@@ -0,0 +1,35 @@
+import { supabase } from '@/lib/supabase';
+import { loadSnapshot } from '@/lib/offlineCache';
+import { AvailabilityWindow } from '@/lib/availability';
+
+export interface EmergencyContact {
+  id: string;
+  user_id: string;
+  name: string;
+  phone: string;
+  relationship: string | null;
+  priority_level: number;
+  message_templates: string[] | null;
+  // null means any time of day
+  availability: AvailabilityWindow[] | null;
+  // The contact's own timezone; null means the same as the user's
+  timezone: string | null;
+  late_night_ok: boolean;
+  preferred_channel: 'call' | 'sms' | null;
+  created_at: string;
+}
+
+// Falls back to the copy saved on this device, so contacts load with no signal
+export const fetchEmergencyContacts = async (userId: string) => {
+  const { data, error } = await supabase
+    .from('emergency_contacts')
+    .select('*')
+    .eq('user_id', userId)
+    .order('priority_level')
+    .order('created_at');
+
+  if (data && !error) return { contacts: data as EmergencyContact[], offlineCopyFrom: null };
+
+  const snapshot = await loadSnapshot<EmergencyContact>('emergency_contacts', userId);
+  return { contacts: snapshot?.rows || [], offlineCopyFrom: snapshot?.saved_at || null };
+};
@@ -0,0 +1,217 @@
+import { useEffect, useRef, useState } from 'react';
+import { supabase } from '@/lib/supabase';
+
+// Audio and vibration cues for guided exercises, so users can follow along
+// with their eyes closed. Tones are scheduled ahead on the Web Audio clock,
+// which keeps time even while the screen is dimmed and frames stop.
+
+export type CueSound = 'tone' | 'voice' | 'off';
+export type CueExercise = 'breathing' | 'grounding' | 'urge_surfing';
+export type CueKind = 'inhale' | 'hold' | 'exhale' | 'step' | 'prompt' | 'done';
+
+export interface CueSettings {
+  sound: CueSound;
+  // 0 to 1
+  volume: number;
+  // SpeechSynthesisVoice.name; null uses the browser default
+  voice: string | null;
+  vibrate: boolean;
+  // Exercises the user has switched cues off for
+  muted_exercises: CueExercise[];
+}
+
+export interface Cue {
+  // Seconds from now
+  in: number;
+  kind: CueKind;
+  // Spoken in voice mode
+  label: string;
+}
+
+export const DEFAULT_CUE_SETTINGS: CueSettings = {
+  sound: 'tone',
+  volume: 0.6,
+  voice: null,
+  vibrate: true,
+  muted_exercises: []
+};
+
+export const CUE_SOUND_OPTIONS: { value: CueSound; label: string }[] = [
+  { value: 'tone', label: 'Soft tones' },
+  { value: 'voice', label: 'Spoken instructions' },
+  { value: 'off', label: 'No sound' }
+];
+
+// Start and end pitch (Hz) per cue: rising to breathe in, falling to breathe out
+const TONES: Record<CueKind, [number, number]> = {
+  inhale: [392, 587],
+  hold: [494, 494],
+  exhale: [587, 392],
+  step: [523, 659],
+  prompt: [659, 659],
+  done: [523, 784]
+};
+
+const VIBRATIONS: Record<CueKind, number[]> = {
+  inhale: [120],
+  hold: [60, 80, 60],
+  exhale: [300],
+  step: [80, 60, 80],
+  prompt: [200, 100, 200],
+  done: [100, 80, 100, 80, 300]
+};
+
+export const fetchCueSettings = async (userId: string): Promise<CueSettings> => {
+  const { data } = await supabase
+    .from('user_profiles')
+    .select('cue_settings')
+    .eq('id', userId)
+    .single();
+
+  return { ...DEFAULT_CUE_SETTINGS, ...(data?.cue_settings || {}) };
+};
+
+export const saveCueSettings = async (userId: string, settings: CueSettings) => {
+  const { error } = await supabase
+    .from('user_profiles')
+    .update({ cue_settings: settings, updated_at: new Date().toISOString() })
+    .eq('id', userId);
+
+  if (error) throw error;
+};
+
+export const isExerciseMuted = (settings: CueSettings, exercise: CueExercise) =>
+  settings.muted_exercises.includes(exercise);
+
+export const toggleExerciseMuted = (settings: CueSettings, exercise: CueExercise): CueSettings => ({
+  ...settings,
+  muted_exercises: isExerciseMuted(settings, exercise)
+    ? settings.muted_exercises.filter(e => e !== exercise)
+    : [...settings.muted_exercises, exercise]
+});
+
+export const createCuePlayer = () => {
+  let audio: AudioContext | null = null;
+  let oscillators: OscillatorNode[] = [];
+  let timeouts: ReturnType<typeof setTimeout>[] = [];
+  let wakeLock: { release: () => Promise<void> } | null = null;
+
+  // Browsers only allow audio to start from a user gesture, so call this from a tap
+  const unlock = () => {
+    if (typeof window === 'undefined' || !window.AudioContext) return;
+    audio ||= new AudioContext();
+    if (audio.state === 'suspended') audio.resume();
+
+    // Keep the screen from locking mid-exercise; dimming is fine
+    if ('wakeLock' in navigator && !wakeLock) {
+      navigator.wakeLock.request('screen').then(lock => { wakeLock = lock; }).catch(() => {});
+    }
+  };
+
+  const playTone = (kind: CueKind, inSeconds: number, volume: number) => {
+    if (!audio) return;
+    const [from, to] = TONES[kind];
+    const start = audio.currentTime + Math.max(0, inSeconds);
+    const oscillator = audio.createOscillator();
+    const gain = audio.createGain();
+
+    oscillator.type = 'sine';
+    oscillator.frequency.setValueAtTime(from, start);
+    oscillator.frequency.linearRampToValueAtTime(to, start + 0.6);
+    gain.gain.setValueAtTime(0, start);
+    gain.gain.linearRampToValueAtTime(volume * 0.3, start + 0.05);
+    gain.gain.exponentialRampToValueAtTime(0.001, start + 0.7);
+
+    oscillator.connect(gain).connect(audio.destination);
+    oscillator.start(start);
+    oscillator.stop(start + 0.75);
+    oscillators.push(oscillator);
+  };
+
+  const speak = (label: string, settings: CueSettings) => {
+    if (!('speechSynthesis' in window)) return;
+    const utterance = new SpeechSynthesisUtterance(label);
+    utterance.volume = settings.volume;
+    utterance.voice = speechSynthesis.getVoices().find(v => v.name === settings.voice) || null;
+    speechSynthesis.cancel();
+    speechSynthesis.speak(utterance);
+  };
+
+  const cancel = () => {
+    oscillators.forEach(oscillator => {
+      try { oscillator.stop(); } catch {}
+    });
+    timeouts.forEach(clearTimeout);
+    oscillators = [];
+    timeouts = [];
+    if (typeof window !== 'undefined' && 'speechSynthesis' in window) speechSynthesis.cancel();
+  };
+
+  // Adds to what's already scheduled, for sessions that are queued up as they go
+  const append = (cues: Cue[], settings: CueSettings) => {
+    cues.forEach(cue => {
+      if (settings.sound === 'tone') playTone(cue.kind, cue.in, settings.volume);
+
+      // Speech and vibration need script to run at the moment itself
+      if (settings.sound === 'voice' || (settings.vibrate && 'vibrate' in navigator)) {
+        timeouts.push(setTimeout(() => {
+          if (settings.sound === 'voice') speak(cue.label, settings);
+          if (settings.vibrate && 'vibrate' in navigator) navigator.vibrate(VIBRATIONS[cue.kind]);
+        }, Math.max(0, cue.in * 1000)));
+      }
+    });
+  };
+
+  // Replaces anything already scheduled
+  const schedule = (cues: Cue[], settings: CueSettings) => {
+    cancel();
+    append(cues, settings);
+  };
+
+  const close = () => {
+    cancel();
+    audio?.close();
+    audio = null;
+    wakeLock?.release().catch(() => {});
+    wakeLock = null;
+  };
+
+  return { unlock, schedule, append, cancel, close, play: (cue: Omit<Cue, 'in'>, settings: CueSettings) => schedule([{ ...cue, in: 0 }], settings) };
+};
+
+export type CuePlayer = ReturnType<typeof createCuePlayer>;
+
+// One player per mounted exercise, shut down (audio, timers, wake lock) on unmount
+export const useCuePlayer = () => {
+  const player = useRef<CuePlayer | null>(null);
+  player.current ||= createCuePlayer();
+
+  useEffect(() => () => player.current?.close(), []);
+
+  return player.current;
+};
+
+// The user's cue preferences, with the per-exercise mute saved as it's toggled
+export const useCueSettings = (userId: string) => {
+  const [settings, setSettings] = useState<CueSettings>(DEFAULT_CUE_SETTINGS);
+  const [loaded, setLoaded] = useState(false);
+
+  useEffect(() => {
+    fetchCueSettings(userId).then(saved => {
+      setSettings(saved);
+      setLoaded(true);
+    });
+  }, [userId]);
+
+  const toggleMuted = async (exercise: CueExercise) => {
+    const next = toggleExerciseMuted(settings, exercise);
+    setSettings(next);
+    try {
+      await saveCueSettings(userId, next);
+    } catch {
+      // Still applies for this session; it just won't be remembered
+    }
+  };
+
+  return { settings, loaded, toggleMuted };
+};
@@ -0,0 +1,43 @@
+// Multi-step guided exercises. A strategy declares its steps in the
+// exercise_steps jsonb column; the built-in 5-4-3-2-1 grounding strategy gets
+// the walkthrough below without needing any.
+
+export interface ExerciseStep {
+  title: string;
+  prompt: string;
+  icon?: string;
+  // How many things to name before moving on; 0 means a single free-text answer
+  items: number;
+  placeholder?: string;
+}
+
+export interface StepResponse {
+  step: string;
+  // Empty strings are items the user tapped through without typing
+  items: string[];
+}
+
+export const GROUNDING_54321_STEPS: ExerciseStep[] = [
+  { title: 'See', icon: '👀', prompt: 'Name 5 things you can see around you.', items: 5, placeholder: 'e.g. a blue mug' },
+  { title: 'Touch', icon: '✋', prompt: 'Name 4 things you can physically feel.', items: 4, placeholder: 'e.g. my feet on the floor' },
+  { title: 'Hear', icon: '👂', prompt: 'Name 3 things you can hear.', items: 3, placeholder: 'e.g. traffic outside' },
+  { title: 'Smell', icon: '👃', prompt: 'Name 2 things you can smell.', items: 2, placeholder: 'e.g. coffee' },
+  { title: 'Taste', icon: '👅', prompt: 'Name 1 thing you can taste.', items: 1, placeholder: 'e.g. toothpaste' }
+];
+
+// Matched by title so other grounding strategies (e.g. "Hold an ice cube") keep
+// just their description
+const isGrounding54321 = (strategy: { category: string; title: string }) =>
+  strategy.category === 'Grounding' && /5-4-3-2-1/.test(strategy.title);
+
+export const getExerciseSteps = (strategy: { category: string; title: string; exercise_steps?: ExerciseStep[] | null }) => {
+  const steps = (strategy.exercise_steps || []).filter(step => step.title && step.prompt);
+  if (steps.length > 0) return steps;
+  return isGrounding54321(strategy) ? GROUNDING_54321_STEPS : null;
+};
+
+// Only what the user actually typed is worth keeping in the log
+export const trimResponses = (responses: StepResponse[]) =>
+  responses
+    .map(response => ({ ...response, items: response.items.map(item => item.trim()).filter(Boolean) }))
+    .filter(response => response.items.length > 0);
@@ -0,0 +1,87 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+// Shared clock for guided exercises (breathing, grounding, urge surfing).
+// Elapsed time is always derived from wall-clock timestamps, never counted up
+// tick by tick, so a throttled background tab or a locked screen can't make it
+// drift: when the page comes back the next frame simply reads the right time.
+
+export interface TimerClock {
+  startedAt: number | null;
+  // Time banked before the current run, i.e. across pauses
+  accumulatedMs: number;
+}
+
+export const IDLE_CLOCK: TimerClock = { startedAt: null, accumulatedMs: 0 };
+
+export const getElapsedMs = (clock: TimerClock, now = Date.now()) =>
+  clock.accumulatedMs + (clock.startedAt !== null ? Math.max(0, now - clock.startedAt) : 0);
+
+export const resumeClock = (clock: TimerClock, now = Date.now()): TimerClock =>
+  clock.startedAt !== null ? clock : { ...clock, startedAt: now };
+
+export const pauseClock = (clock: TimerClock, now = Date.now()): TimerClock =>
+  clock.startedAt === null ? clock : { startedAt: null, accumulatedMs: getElapsedMs(clock, now) };
+
+interface ExerciseTimerOptions {
+  // Stops the clock once this much time has passed
+  limitMs?: number | null;
+  // How finely elapsedMs updates; renders are skipped in between
+  resolutionMs?: number;
+}
+
+export const useExerciseTimer = ({ limitMs = null, resolutionMs = 100 }: ExerciseTimerOptions = {}) => {
+  const [clock, setClock] = useState<TimerClock>(IDLE_CLOCK);
+  const [elapsedMs, setElapsedMs] = useState(0);
+  const clockRef = useRef(clock);
+  clockRef.current = clock;
+
+  const isRunning = clock.startedAt !== null;
+
+  useEffect(() => {
+    if (!isRunning) return;
+
+    let frame = 0;
+    const update = () => {
+      const elapsed = getElapsedMs(clockRef.current);
+      if (limitMs !== null && elapsed >= limitMs) {
+        setClock({ startedAt: null, accumulatedMs: limitMs });
+        setElapsedMs(limitMs);
+        return;
+      }
+      setElapsedMs(Math.floor(elapsed / resolutionMs) * resolutionMs);
+      frame = requestAnimationFrame(update);
+    };
+
+    // Frames stop while hidden; catch up the moment the page is visible again
+    const handleVisibility = () => {
+      if (document.visibilityState !== 'visible') return;
+      cancelAnimationFrame(frame);
+      update();
+    };
+
+    update();
+    document.addEventListener('visibilitychange', handleVisibility);
+    return () => {
+      cancelAnimationFrame(frame);
+      document.removeEventListener('visibilitychange', handleVisibility);
+    };
+  }, [isRunning, limitMs, resolutionMs]);
+
+  const start = useCallback(() => setClock(prev => resumeClock(prev)), []);
+
+  const pause = useCallback(() => {
+    const paused = pauseClock(clockRef.current);
+    setClock(paused);
+    setElapsedMs(paused.accumulatedMs);
+  }, []);
+
+  const reset = useCallback(() => {
+    setClock(IDLE_CLOCK);
+    setElapsedMs(0);
+  }, []);
+
+  // Reads the clock directly, for values needed at the exact moment of a tap
+  const now = useCallback(() => getElapsedMs(clockRef.current), []);
+
+  return { elapsedMs, isRunning, start, pause, resume: start, reset, now };
+};
@@ -0,0 +1,141 @@
+import { supabase } from '@/lib/supabase';
+import { getBrowserTimezone } from '@/lib/recoveryDay';
+
+// Crisis lines by country. Numbers are national and dialled as written: the
+// user is calling from inside that country, and several (Australian 1800
+// numbers, UK short codes) can't be reached in international form.
+
+export type HotlineService = 'emergency' | 'suicide' | 'substance_use' | 'domestic_violence' | 'lgbtq' | 'youth';
+
+export type HotlineCountry = 'US' | 'CA' | 'GB' | 'IE' | 'AU' | 'NZ';
+
+export interface CrisisHotline {
+  name: string;
+  phone: string;
+  description: string;
+  service: HotlineService;
+  hours: string;
+  // Lines that take texts; the value prefills the message
+  text?: string;
+  // Texts go to a different number than calls
+  text_number?: string;
+  textOnly?: boolean;
+  chat_url?: string;
+}
+
+export const HOTLINE_SERVICE_LABELS: Record<HotlineService, string> = {
+  emergency: 'Emergency',
+  suicide: 'Suicide & crisis',
+  substance_use: 'Drugs & alcohol',
+  domestic_violence: 'Domestic violence',
+  lgbtq: 'LGBTQ+',
+  youth: 'Youth'
+};
+
+export const HOTLINE_COUNTRIES: { code: HotlineCountry; name: string }[] = [
+  { code: 'US', name: 'United States' },
+  { code: 'CA', name: 'Canada' },
+  { code: 'GB', name: 'United Kingdom' },
+  { code: 'IE', name: 'Ireland' },
+  { code: 'AU', name: 'Australia' },
+  { code: 'NZ', name: 'New Zealand' }
+];
+
+// For countries not listed; 112 works from most mobile phones worldwide
+export const FALLBACK_HOTLINES: CrisisHotline[] = [
+  { name: 'Emergency Services', phone: '112', description: 'Life-threatening emergencies', service: 'emergency', hours: '24/7' }
+];
+
+export const HOTLINE_FINDER_URL = 'https://findahelpline.com';
+
+export const HOTLINE_DIRECTORY: Record<HotlineCountry, CrisisHotline[]> = {
+  US: [
+    { name: 'Emergency Services', phone: '911', description: 'Life-threatening emergencies', service: 'emergency', hours: '24/7' },
+    { name: '988 Suicide & Crisis Lifeline', phone: '988', description: 'Call, text or chat with a crisis counselor', service: 'suicide', hours: '24/7', text: '', chat_url: 'https://988lifeline.org/chat' },
+    { name: 'Crisis Text Line', phone: '741741', description: 'Text-based crisis support', service: 'suicide', hours: '24/7', text: 'HOME', textOnly: true },
+    { name: 'SAMHSA National Helpline', phone: '1-800-662-4357', description: 'Substance use treatment and support', service: 'substance_use', hours: '24/7' },
+    { name: 'National Domestic Violence Hotline', phone: '1-800-799-7233', description: 'Support for anyone experiencing abuse', service: 'domestic_violence', hours: '24/7', text: 'START', text_number: '88788', chat_url: 'https://www.thehotline.org' },
+    { name: 'The Trevor Project', phone: '1-866-488-7386', description: 'Crisis support for LGBTQ+ young people', service: 'lgbtq', hours: '24/7', text: 'START', text_number: '678678', chat_url: 'https://www.thetrevorproject.org/get-help' },
+    { name: 'Boys Town National Hotline', phone: '1-800-448-3000', description: 'Support for young people and parents', service: 'youth', hours: '24/7' }
+  ],
+  CA: [
+    { name: 'Emergency Services', phone: '911', description: 'Life-threatening emergencies', service: 'emergency', hours: '24/7' },
+    { name: '9-8-8 Suicide Crisis Helpline', phone: '988', description: 'Call or text a trained responder', service: 'suicide', hours: '24/7', text: '' },
+    { name: 'National Overdose Response Service', phone: '1-888-688-6677', description: 'Stays on the line if you are using alone', service: 'substance_use', hours: '24/7' },
+    { name: 'Trans Lifeline', phone: '1-877-330-6366', description: 'Peer support run by and for trans people', service: 'lgbtq', hours: 'Hours vary' },
+    { name: 'Kids Help Phone', phone: '1-800-668-6868', description: 'Support for young people', service: 'youth', hours: '24/7', text: 'CONNECT', text_number: '686868' }
+  ],
+  GB: [
+    { name: 'Emergency Services', phone: '999', description: 'Life-threatening emergencies', service: 'emergency', hours: '24/7' },
+    { name: 'Samaritans', phone: '116 123', description: 'Free to call, whatever you are going through', service: 'suicide', hours: '24/7' },
+    { name: 'Shout', phone: '85258', description: 'Text-based crisis support', service: 'suicide', hours: '24/7', text: 'SHOUT', textOnly: true },
+    { name: 'FRANK', phone: '0300 123 6600', description: 'Honest information and advice about drugs', service: 'substance_use', hours: '24/7', text: '', text_number: '82111', chat_url: 'https://www.talktofrank.com' },
+    { name: 'National Domestic Abuse Helpline', phone: '0808 2000 247', description: 'Free, confidential support', service: 'domestic_violence', hours: '24/7' },
+    { name: 'Switchboard LGBT+ Helpline', phone: '0800 0119 100', description: 'Listening support for LGBTQ+ people', service: 'lgbtq', hours: '10am–10pm daily' },
+    { name: 'Childline', phone: '0800 1111', description: 'Support for anyone under 19', service: 'youth', hours: '24/7' }
+  ],
+  IE: [
+    { name: 'Emergency Services', phone: '112', description: 'Life-threatening emergencies', service: 'emergency', hours: '24/7' },
+    { name: 'Samaritans', phone: '116 123', description: 'Free to call, whatever you are going through', service: 'suicide', hours: '24/7' },
+    { name: 'Text 50808', phone: '50808', description: 'Text-based crisis support', service: 'suicide', hours: '24/7', text: 'HELLO', textOnly: true },
+    { name: 'HSE Drugs & Alcohol Helpline', phone: '1800 459 459', description: 'Confidential support and information', service: 'substance_use', hours: 'Mon–Fri 9:30am–5:30pm' },
+    { name: 'Women’s Aid', phone: '1800 341 900', description: 'Support for women experiencing abuse', service: 'domestic_violence', hours: '24/7' },
+    { name: 'LGBT Ireland', phone: '1800 929 539', description: 'Peer support for LGBTQ+ people', service: 'lgbtq', hours: 'Hours vary' },
+    { name: 'Childline', phone: '1800 66 66 66', description: 'Support for anyone under 18', service: 'youth', hours: '24/7' }
+  ],
+  AU: [
+    { name: 'Emergency Services', phone: '000', description: 'Life-threatening emergencies', service: 'emergency', hours: '24/7' },
+    { name: 'Lifeline', phone: '13 11 14', description: 'Crisis support and suicide prevention', service: 'suicide', hours: '24/7', text: '', text_number: '0477 13 11 14', chat_url: 'https://www.lifeline.org.au' },
+    { name: 'National Alcohol and Other Drug Hotline', phone: '1800 250 015', description: 'Counselling, information and referral', service: 'substance_use', hours: '24/7' },
+    { name: '1800RESPECT', phone: '1800 737 732', description: 'Domestic, family and sexual violence counselling', service: 'domestic_violence', hours: '24/7', chat_url: 'https://www.1800respect.org.au' },
+    { name: 'QLife', phone: '1800 184 527', description: 'Peer support for LGBTIQ+ people', service: 'lgbtq', hours: '3pm–midnight daily' },
+    { name: 'Kids Helpline', phone: '1800 55 1800', description: 'Counselling for young people aged 5 to 25', service: 'youth', hours: '24/7' }
+  ],
+  NZ: [
+    { name: 'Emergency Services', phone: '111', description: 'Life-threatening emergencies', service: 'emergency', hours: '24/7' },
+    { name: '1737 Need to Talk?', phone: '1737', description: 'Call or text a trained counsellor', service: 'suicide', hours: '24/7', text: '' },
+    { name: 'Alcohol Drug Helpline', phone: '0800 787 797', description: 'Confidential advice and support', service: 'substance_use', hours: '24/7', text: '', text_number: '8681' },
+    { name: 'Youthline', phone: '0800 376 633', description: 'Support for young people', service: 'youth', hours: '24/7', text: '', text_number: '234' }
+  ]
+};
+
+const US_TIMEZONES = /^(America\/(New_York|Chicago|Denver|Los_Angeles|Phoenix|Anchorage|Boise|Detroit|Juneau|Sitka|Nome|Adak|Yakutat|Metlakatla|Menominee|Indiana\/|Kentucky\/|North_Dakota\/)|Pacific\/Honolulu|US\/)/;
+const CA_TIMEZONES = /^(America\/(Toronto|Vancouver|Edmonton|Winnipeg|Halifax|St_Johns|Regina|Montreal|Moncton|Glace_Bay|Goose_Bay|Swift_Current|Whitehorse|Yellowknife|Iqaluit|Inuvik|Dawson|Dawson_Creek|Fort_Nelson|Creston|Atikokan|Cambridge_Bay|Rankin_Inlet|Resolute|Thunder_Bay|Nipigon|Rainy_River|Pangnirtung|Blanc-Sablon)|Canada\/)/;
+
+// Best guess when the user hasn't picked a country; null if we have no directory for it
+export const getCountryFromTimezone = (timezone: string): HotlineCountry | null => {
+  if (US_TIMEZONES.test(timezone)) return 'US';
+  if (CA_TIMEZONES.test(timezone)) return 'CA';
+  if (timezone === 'Europe/London' || timezone === 'Europe/Belfast') return 'GB';
+  if (timezone === 'Europe/Dublin') return 'IE';
+  if (timezone.startsWith('Australia/')) return 'AU';
+  if (timezone === 'Pacific/Auckland' || timezone === 'Pacific/Chatham') return 'NZ';
+  return null;
+};
+
+export const getHotlines = (country: HotlineCountry | null) =>
+  country ? HOTLINE_DIRECTORY[country] : FALLBACK_HOTLINES;
+
+export const getEmergencyNumber = (country: HotlineCountry | null) =>
+  getHotlines(country).find(hotline => hotline.service === 'emergency')?.phone || '112';
+
+// The profile's chosen country wins; otherwise it's inferred from the timezone.
+// Offline, the device timezone is used so the panel still shows something local.
+export const fetchHotlineCountry = async (userId: string): Promise<HotlineCountry | null> => {
+  const { data } = await supabase
+    .from('user_profiles')
+    .select('country, timezone')
+    .eq('id', userId)
+    .single();
+
+  if (data?.country && data.country in HOTLINE_DIRECTORY) return data.country as HotlineCountry;
+  return getCountryFromTimezone(data?.timezone || getBrowserTimezone());
+};
+
+export const formatHotlineNumber = (hotline: CrisisHotline) =>
+  hotline.textOnly ? `Text ${hotline.text} to ${hotline.phone}` : hotline.phone;
+
+export const formatHotlineText = (hotline: CrisisHotline) =>
+  hotline.text
+    ? `Text ${hotline.text} to ${hotline.text_number || hotline.phone}`
+    : `Text ${hotline.text_number || hotline.phone}`;
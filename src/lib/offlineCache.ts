@@ -0,0 +1,45 @@
+import { withStore } from '@/lib/localDb';
+
+// Last-known copies of the data someone may need in a crisis with no signal.
+// Components write a snapshot every time their list changes, including after
+// local edits, so the offline copy never lags behind what the user last saw.
+
+export type SnapshotName = 'emergency_contacts' | 'coping_strategies' | 'safety_plans';
+
+interface Snapshot<T> {
+  key: string;
+  rows: T[];
+  saved_at: string;
+}
+
+const snapshotKey = (name: SnapshotName, userId: string) => `${name}:${userId}`;
+
+export const saveSnapshot = async <T>(name: SnapshotName, userId: string, rows: T[]) => {
+  try {
+    await withStore('snapshots', 'readwrite', store =>
+      store.put({ key: snapshotKey(name, userId), rows, saved_at: new Date().toISOString() })
+    );
+  } catch {
+    // Private browsing can block IndexedDB; the app still works online
+  }
+};
+
+export const loadSnapshot = async <T>(name: SnapshotName, userId: string): Promise<Snapshot<T> | null> => {
+  try {
+    const snapshot = await withStore<Snapshot<T>>('snapshots', 'readonly', store =>
+      store.get(snapshotKey(name, userId))
+    );
+    return snapshot || null;
+  } catch {
+    return null;
+  }
+};
+
+// Signing out shouldn't leave someone's contacts readable on a shared device
+export const clearSnapshots = async () => {
+  try {
+    await withStore('snapshots', 'readwrite', store => store.clear());
+  } catch {
+    // Nothing could have been saved if IndexedDB is unavailable
+  }
+};
@@ -0,0 +1,381 @@
+import { supabase } from '@/lib/supabase';
+import { withStore } from '@/lib/localDb';
+import { StepResponse } from '@/lib/exerciseSteps';
+import type { SosEvent } from '@/lib/sos';
+
+// Writes that must survive a dropped connection go through a local IndexedDB
+// outbox first and are replayed against Supabase once we're back online.
+
+// Full row for an insert; user_id + date identify an existing one
+export interface QueuedCheckInRow {
+  user_id: string;
+  date: string;
+  updated_at: string;
+  [field: string]: unknown;
+}
+
+export interface NewMomentaryRow {
+  user_id: string;
+  date: string;
+  logged_at: string;
+  mood_score: number;
+  craving_intensity: number;
+  trigger_id: string | null;
+  note: string | null;
+}
+
+export interface QueuedMomentaryRow extends NewMomentaryRow {
+  id: string;
+}
+
+export interface NewStrategyUseRow {
+  user_id: string;
+  strategy_id: string;
+  used_at: string;
+  context: string | null;
+  distress_before: number | null;
+  distress_after: number | null;
+  duration_seconds: number | null;
+  responses: StepResponse[] | null;
+}
+
+export interface QueuedStrategyUseRow extends NewStrategyUseRow {
+  id: string;
+}
+
+export interface NewContactAttemptRow {
+  user_id: string;
+  contact_id: string | null;
+  contact_name: string;
+  phone: string;
+  channel: 'call' | 'sms';
+  message: string | null;
+  attempted_at: string;
+}
+
+export interface QueuedContactAttemptRow extends NewContactAttemptRow {
+  id: string;
+}
+
+interface QueuedRows {
+  daily_checkin: QueuedCheckInRow;
+  momentary_checkin: QueuedMomentaryRow;
+  strategy_use: QueuedStrategyUseRow;
+  contact_attempt: QueuedContactAttemptRow;
+  sos_event: SosEvent;
+}
+
+export type QueuedWriteKind = keyof QueuedRows;
+
+export type QueuedWrite<K extends QueuedWriteKind = QueuedWriteKind> = {
+  [Kind in K]: {
+    id: string;
+    kind: Kind;
+    queued_at: string;
+    row: QueuedRows[Kind];
+    last_error?: string;
+  };
+}[K];
+
+export interface SyncResult {
+  synced: number;
+  pending: number;
+  // Check-ins where a newer edit from another device won over the queued one
+  conflicts: string[];
+  // Writes the server refused (not a connection problem); they are dropped
+  rejected: QueuedWrite[];
+}
+
+const listeners = new Set<() => void>();
+// Set up by startBackgroundSync to hear about syncs nobody awaits
+const reporters = new Set<(result: SyncResult) => void>();
+let syncInFlight: Promise<SyncResult> | null = null;
+let rerunRequested = false;
+
+const notify = () => listeners.forEach(listener => listener());
+
+// supabase-js reports fetch failures as ordinary errors without a Postgres code
+const isNetworkError = (error: { message?: string; code?: string } | null) =>
+  !navigator.onLine || (!!error && !error.code && /fetch|network/i.test(error.message || ''));
+
+export const subscribeToQueue = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const getQueuedWrites = async <K extends QueuedWriteKind = QueuedWriteKind>(kind?: K) => {
+  const writes = await withStore<QueuedWrite[]>('outbox', 'readonly', store => store.getAll());
+  return (writes || [])
+    .filter(write => !kind || write.kind === kind)
+    .sort((a, b) => a.queued_at.localeCompare(b.queued_at)) as QueuedWrite<K>[];
+};
+
+// Only removes the version that was replayed; a newer edit queued mid-sync stays
+const removeWrite = (write: QueuedWrite) =>
+  withStore('outbox', 'readwrite', store => {
+    const request = store.get(write.id);
+    request.onsuccess = () => {
+      if (request.result?.queued_at === write.queued_at) store.delete(write.id);
+    };
+  });
+
+const putWrite = (write: QueuedWrite) => withStore('outbox', 'readwrite', store => store.put(write));
+
+// Lets the form that queued a write show the server's reason it was refused
+const throwIfRejected = (result: SyncResult, writeId: string) => {
+  const rejected = result.rejected.find(write => write.id === writeId);
+  if (rejected) throw new Error(rejected.last_error);
+  return result;
+};
+
+export const queueCheckIn = async (row: { user_id: string; date: string; [field: string]: unknown }) => {
+  const now = new Date().toISOString();
+  const id = `daily_checkin:${row.user_id}:${row.date}`;
+  const queuedRow = { ...row, updated_at: now };
+  try {
+    // One slot per day: editing again offline replaces the earlier queued version
+    await putWrite({ id, kind: 'daily_checkin', queued_at: now, row: queuedRow });
+  } catch {
+    // No IndexedDB (some private browsing modes): save straight to the server
+    const { error, conflict } = await syncCheckIn(queuedRow);
+    if (error) throw error;
+    const result: SyncResult = { synced: 1, pending: 0, conflicts: conflict ? [row.date] : [], rejected: [] };
+    return result;
+  }
+  notify();
+  return throwIfRejected(await syncQueue(), id);
+};
+
+export const queueMomentaryCheckIn = async (row: NewMomentaryRow) => {
+  // The id is generated here so a replayed insert can't create a duplicate
+  const id = crypto.randomUUID();
+  const entry: QueuedMomentaryRow = { ...row, id };
+  await putWrite({
+    id: `momentary_checkin:${id}`,
+    kind: 'momentary_checkin',
+    queued_at: new Date().toISOString(),
+    row: entry
+  });
+  notify();
+  throwIfRejected(await syncQueue(), `momentary_checkin:${id}`);
+  return entry;
+};
+
+export const queueStrategyUse = async (row: NewStrategyUseRow) => {
+  // Same as momentary entries: a client id keeps replays idempotent
+  const id = crypto.randomUUID();
+  await putWrite({
+    id: `strategy_use:${id}`,
+    kind: 'strategy_use',
+    queued_at: new Date().toISOString(),
+    row: { ...row, id }
+  });
+  notify();
+  return throwIfRejected(await syncQueue(), `strategy_use:${id}`);
+};
+
+// A call can go out over the phone network with no data, so log it locally first
+export const queueContactAttempt = async (row: NewContactAttemptRow) => {
+  const id = crypto.randomUUID();
+  const entry: QueuedContactAttemptRow = { ...row, id };
+  await putWrite({
+    id: `contact_attempt:${id}`,
+    kind: 'contact_attempt',
+    queued_at: new Date().toISOString(),
+    row: entry
+  });
+  notify();
+  syncAndReport(false);
+  return entry;
+};
+
+// Queued again after every step; only the latest version of the event is kept
+export const queueSosEvent = async (row: SosEvent) => {
+  await putWrite({
+    id: `sos_event:${row.id}`,
+    kind: 'sos_event',
+    queued_at: new Date().toISOString(),
+    row
+  });
+  notify();
+  syncAndReport(false);
+};
+
+// The row's identity, plus is_backfilled: it describes when the row was first
+// created, so an edit leaves it alone
+const CHECKIN_FIXED_FIELDS = ['user_id', 'date', 'is_backfilled'];
+
+const syncCheckIn = async (row: QueuedCheckInRow) => {
+  const { data: existing, error } = await supabase
+    .from('daily_checkins')
+    .select('id, updated_at')
+    .eq('user_id', row.user_id)
+    .eq('date', row.date)
+    .maybeSingle();
+
+  if (error) return { error, conflict: false };
+
+  if (!existing) {
+    const { error: insertError } = await supabase.from('daily_checkins').insert([row]);
+    return { error: insertError, conflict: false };
+  }
+
+  // Last edit wins. A row saved later from another device is kept as-is.
+  if (existing.updated_at && Date.parse(existing.updated_at) > Date.parse(row.updated_at)) {
+    return { error: null, conflict: true };
+  }
+
+  const changes = Object.fromEntries(
+    Object.entries(row).filter(([field]) => !CHECKIN_FIXED_FIELDS.includes(field))
+  );
+  const { error: updateError } = await supabase
+    .from('daily_checkins')
+    .update(changes)
+    .eq('id', existing.id);
+  return { error: updateError, conflict: false };
+};
+
+const replayWrite = async (write: QueuedWrite) => {
+  switch (write.kind) {
+    case 'daily_checkin':
+      return syncCheckIn(write.row);
+    case 'momentary_checkin': {
+      const { error } = await supabase
+        .from('momentary_checkins')
+        .upsert([write.row], { onConflict: 'id', ignoreDuplicates: true });
+      return { error, conflict: false };
+    }
+    case 'strategy_use': {
+      const { error } = await supabase
+        .from('strategy_usage')
+        .upsert([write.row], { onConflict: 'id', ignoreDuplicates: true });
+      return { error, conflict: false };
+    }
+    case 'contact_attempt': {
+      const { error } = await supabase
+        .from('contact_attempts')
+        .upsert([write.row], { onConflict: 'id', ignoreDuplicates: true });
+      return { error, conflict: false };
+    }
+    case 'sos_event': {
+      const { error } = await supabase
+        .from('sos_events')
+        .upsert([write.row], { onConflict: 'id' });
+      return { error, conflict: false };
+    }
+  }
+};
+
+const runSync = async (): Promise<SyncResult> => {
+  const writes = await getQueuedWrites();
+  const result: SyncResult = { synced: 0, pending: writes.length, conflicts: [], rejected: [] };
+
+  for (const write of writes) {
+    if (!navigator.onLine) break;
+
+    const { error, conflict } = await replayWrite(write);
+
+    if (error) {
+      if (isNetworkError(error)) break;
+      // The server refused the row itself, so retrying can't help; hand it back
+      // to the caller to report rather than keeping it pending forever
+      await removeWrite(write);
+      result.pending--;
+      result.rejected.push({ ...write, last_error: error.message });
+      continue;
+    }
+
+    await removeWrite(write);
+    result.synced++;
+    result.pending--;
+    if (conflict && write.kind === 'daily_checkin') {
+      result.conflicts.push(write.row.date);
+    }
+  }
+
+  if (result.synced > 0 || result.rejected.length > 0) notify();
+  return result;
+};
+
+// Concurrent callers share one pass so a write is never replayed twice at once.
+// A write queued while a pass is running isn't in its snapshot, so the pass
+// goes round again until nothing new arrived.
+export const syncQueue = () => {
+  if (syncInFlight) {
+    rerunRequested = true;
+    return syncInFlight;
+  }
+
+  syncInFlight = (async () => {
+    const total: SyncResult = { synced: 0, pending: 0, conflicts: [], rejected: [] };
+    do {
+      rerunRequested = false;
+      const result = await runSync();
+      total.synced += result.synced;
+      total.pending = result.pending;
+      total.conflicts.push(...result.conflicts);
+      total.rejected.push(...result.rejected);
+    } while (rerunRequested && navigator.onLine);
+    return total;
+  })().finally(() => {
+    syncInFlight = null;
+  });
+  return syncInFlight;
+};
+
+// One last attempt to send what's queued before sign-out; returns how many
+// writes are still waiting so the user can decide whether to lose them
+export const flushQueue = async () => {
+  try {
+    if (navigator.onLine) await syncQueue();
+    return (await getQueuedWrites()).length;
+  } catch {
+    return 0;
+  }
+};
+
+// Called on sign-out so nothing queued is left on a shared device
+export const clearQueue = async () => {
+  try {
+    await withStore('outbox', 'readwrite', store => store.clear());
+    notify();
+  } catch {
+    // Nothing could have been queued if IndexedDB is unavailable
+  }
+};
+
+// For syncs nobody awaits. Rejections (and, when asked, successes) go to the
+// reporters, and a failure to reach IndexedDB is never left unhandled.
+const syncAndReport = async (reportSynced: boolean) => {
+  try {
+    const result = await syncQueue();
+    if (result.rejected.length > 0 || (reportSynced && result.synced > 0)) {
+      reporters.forEach(report => report(result));
+    }
+  } catch {
+    // IndexedDB is unavailable, so nothing could have been queued
+  }
+};
+
+// Retry whenever the browser regains connectivity or the tab comes back into view
+export const startBackgroundSync = (onSynced?: (result: SyncResult) => void) => {
+  const run = () => {
+    if (navigator.onLine) syncAndReport(true);
+  };
+  const handleVisibility = () => {
+    if (document.visibilityState === 'visible') run();
+  };
+
+  if (onSynced) reporters.add(onSynced);
+  window.addEventListener('online', run);
+  document.addEventListener('visibilitychange', handleVisibility);
+  run();
+
+  return () => {
+    if (onSynced) reporters.delete(onSynced);
+    window.removeEventListener('online', run);
+    document.removeEventListener('visibilitychange', handleVisibility);
+  };
+};
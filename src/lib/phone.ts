@@ -0,0 +1,84 @@
+import { supabase } from '@/lib/supabase';
+import { getBrowserTimezone } from '@/lib/recoveryDay';
+import type { HotlineCountry } from '@/lib/hotlines';
+
+// Phone numbers are stored as the user typed them and normalised to E.164
+// (+<country code><number>) only when dialling, so a number entered as
+// "(555) 123-4567" or "07700 900123" still reaches the right phone.
+
+// Calling code for numbers typed without one, from the profile timezone
+const TIMEZONE_CALLING_CODES: [prefix: string, code: string][] = [
+  ['America/', '1'],
+  ['Pacific/Honolulu', '1'],
+  ['Europe/London', '44'],
+  ['Europe/Dublin', '353'],
+  ['Australia/', '61'],
+  ['Pacific/Auckland', '64']
+];
+
+// For the countries that can be picked in Settings
+const COUNTRY_CALLING_CODES: Record<HotlineCountry, string> = {
+  US: '1',
+  CA: '1',
+  GB: '44',
+  IE: '353',
+  AU: '61',
+  NZ: '64'
+};
+
+// The profile's chosen country wins; otherwise it's guessed from the timezone
+export const getDefaultCallingCode = (timezone: string, country?: string | null) =>
+  (country && country in COUNTRY_CALLING_CODES ? COUNTRY_CALLING_CODES[country as HotlineCountry] : null) ||
+  TIMEZONE_CALLING_CODES.find(([prefix]) => timezone.startsWith(prefix))?.[1] || '1';
+
+export const fetchDefaultCallingCode = async (userId: string) => {
+  const { data } = await supabase
+    .from('user_profiles')
+    .select('country, timezone')
+    .eq('id', userId)
+    .single();
+
+  return getDefaultCallingCode(data?.timezone || getBrowserTimezone(), data?.country);
+};
+
+// Crisis lines like 988, 741741 or 116 123 are dialled exactly as written
+const isShortCode = (phone: string, digits: string) =>
+  !phone.trim().startsWith('+') && digits.length >= 3 && digits.length <= 6;
+
+const asE164 = (digits: string) =>
+  digits.length >= 8 && digits.length <= 15 ? `+${digits}` : null;
+
+export const toE164 = (phone: string, callingCode = '1') => {
+  const trimmed = phone.trim();
+  let digits = trimmed.replace(/\D/g, '');
+  if (!digits) return null;
+
+  if (trimmed.startsWith('+')) return asE164(digits);
+  if (digits.startsWith('00')) return asE164(digits.slice(2));
+
+  // North American numbers: 10 digits, optionally with the leading 1
+  if (callingCode === '1') {
+    if (digits.length === 10) return asE164(`1${digits}`);
+    if (digits.length === 11 && digits.startsWith('1')) return asE164(digits);
+    return null;
+  }
+
+  // Elsewhere the national trunk prefix 0 is dropped after the country code
+  if (digits.startsWith('0')) digits = digits.slice(1);
+  return asE164(`${callingCode}${digits}`);
+};
+
+// What goes after tel: or sms:, or null if the number can't be dialled
+export const getDialableNumber = (phone: string, callingCode = '1') => {
+  const digits = phone.replace(/\D/g, '');
+  return isShortCode(phone, digits) ? digits : toE164(phone, callingCode);
+};
+
+// Crisis lines are national numbers, dialled from inside their own country
+export const getNationalNumber = (phone: string) => phone.replace(/\D/g, '') || null;
+
+export const getTelHref = (dialable: string) => `tel:${dialable}`;
+
+// "?&body=" is read correctly by both iOS and Android messaging apps
+export const getSmsHref = (dialable: string, body?: string) =>
+  body ? `sms:${dialable}?&body=${encodeURIComponent(body)}` : `sms:${dialable}`;
@@ -0,0 +1,210 @@
+import { supabase } from '@/lib/supabase';
+import { addDays } from '@/lib/recoveryDay';
+
+export type QuestionnaireId = 'phq9' | 'gad7' | 'auditc';
+
+export interface QuestionOption {
+  label: string;
+  value: number;
+}
+
+export interface SeverityBand {
+  min: number;
+  max: number;
+  label: string;
+  color: string;
+}
+
+export interface Questionnaire {
+  id: QuestionnaireId;
+  name: string;
+  description: string;
+  prompt: string;
+  items: { text: string; options: QuestionOption[] }[];
+  bands: SeverityBand[];
+  maxScore: number;
+  defaultCadenceDays: number;
+}
+
+export interface QuestionnaireResponse {
+  id: string;
+  user_id: string;
+  questionnaire: QuestionnaireId;
+  date: string;
+  answers: number[];
+  total_score: number;
+  severity: string;
+  completed_at: string;
+}
+
+// Days between administrations, per questionnaire
+export type QuestionnaireCadence = Partial<Record<QuestionnaireId, number>>;
+
+export const CADENCE_OPTIONS = [
+  { value: 7, label: 'Every week' },
+  { value: 14, label: 'Every two weeks' },
+  { value: 30, label: 'Every month' },
+  { value: 0, label: 'Only when I choose' }
+];
+
+const FREQUENCY_OPTIONS: QuestionOption[] = [
+  { label: 'Not at all', value: 0 },
+  { label: 'Several days', value: 1 },
+  { label: 'More than half the days', value: 2 },
+  { label: 'Nearly every day', value: 3 }
+];
+
+export const QUESTIONNAIRES: Questionnaire[] = [
+  {
+    id: 'phq9',
+    name: 'PHQ-9',
+    description: 'Depression screening',
+    prompt: 'Over the last 2 weeks, how often have you been bothered by any of the following problems?',
+    items: [
+      'Little interest or pleasure in doing things',
+      'Feeling down, depressed, or hopeless',
+      'Trouble falling or staying asleep, or sleeping too much',
+      'Feeling tired or having little energy',
+      'Poor appetite or overeating',
+      'Feeling bad about yourself — or that you are a failure or have let yourself or your family down',
+      'Trouble concentrating on things, such as reading the newspaper or watching television',
+      'Moving or speaking so slowly that other people could have noticed? Or the opposite — being so fidgety or restless that you have been moving around a lot more than usual',
+      'Thoughts that you would be better off dead or of hurting yourself in some way'
+    ].map(text => ({ text, options: FREQUENCY_OPTIONS })),
+    bands: [
+      { min: 0, max: 4, label: 'Minimal', color: 'bg-green-100 text-green-800' },
+      { min: 5, max: 9, label: 'Mild', color: 'bg-yellow-100 text-yellow-800' },
+      { min: 10, max: 14, label: 'Moderate', color: 'bg-orange-100 text-orange-800' },
+      { min: 15, max: 19, label: 'Moderately severe', color: 'bg-red-100 text-red-800' },
+      { min: 20, max: 27, label: 'Severe', color: 'bg-red-200 text-red-900' }
+    ],
+    maxScore: 27,
+    defaultCadenceDays: 14
+  },
+  {
+    id: 'gad7',
+    name: 'GAD-7',
+    description: 'Anxiety screening',
+    prompt: 'Over the last 2 weeks, how often have you been bothered by the following problems?',
+    items: [
+      'Feeling nervous, anxious, or on edge',
+      'Not being able to stop or control worrying',
+      'Worrying too much about different things',
+      'Trouble relaxing',
+      'Being so restless that it is hard to sit still',
+      'Becoming easily annoyed or irritable',
+      'Feeling afraid, as if something awful might happen'
+    ].map(text => ({ text, options: FREQUENCY_OPTIONS })),
+    bands: [
+      { min: 0, max: 4, label: 'Minimal', color: 'bg-green-100 text-green-800' },
+      { min: 5, max: 9, label: 'Mild', color: 'bg-yellow-100 text-yellow-800' },
+      { min: 10, max: 14, label: 'Moderate', color: 'bg-orange-100 text-orange-800' },
+      { min: 15, max: 21, label: 'Severe', color: 'bg-red-100 text-red-800' }
+    ],
+    maxScore: 21,
+    defaultCadenceDays: 14
+  },
+  {
+    id: 'auditc',
+    name: 'AUDIT-C',
+    description: 'Alcohol use screening',
+    prompt: 'Thinking about the past year:',
+    items: [
+      {
+        text: 'How often did you have a drink containing alcohol?',
+        options: [
+          { label: 'Never', value: 0 },
+          { label: 'Monthly or less', value: 1 },
+          { label: '2-4 times a month', value: 2 },
+          { label: '2-3 times a week', value: 3 },
+          { label: '4 or more times a week', value: 4 }
+        ]
+      },
+      {
+        text: 'How many standard drinks containing alcohol did you have on a typical day?',
+        options: [
+          { label: '1 or 2', value: 0 },
+          { label: '3 or 4', value: 1 },
+          { label: '5 or 6', value: 2 },
+          { label: '7 to 9', value: 3 },
+          { label: '10 or more', value: 4 }
+        ]
+      },
+      {
+        text: 'How often did you have six or more drinks on one occasion?',
+        options: [
+          { label: 'Never', value: 0 },
+          { label: 'Less than monthly', value: 1 },
+          { label: 'Monthly', value: 2 },
+          { label: 'Weekly', value: 3 },
+          { label: 'Daily or almost daily', value: 4 }
+        ]
+      }
+    ],
+    // A score of 3+ (women) or 4+ (men) is generally considered a positive screen
+    bands: [
+      { min: 0, max: 2, label: 'Low risk', color: 'bg-green-100 text-green-800' },
+      { min: 3, max: 4, label: 'Possible risk', color: 'bg-yellow-100 text-yellow-800' },
+      { min: 5, max: 7, label: 'Higher risk', color: 'bg-orange-100 text-orange-800' },
+      { min: 8, max: 12, label: 'High risk', color: 'bg-red-100 text-red-800' }
+    ],
+    maxScore: 12,
+    defaultCadenceDays: 30
+  }
+];
+
+export const getQuestionnaire = (id: QuestionnaireId) =>
+  QUESTIONNAIRES.find(q => q.id === id) as Questionnaire;
+
+export const getSeverityBand = (questionnaire: Questionnaire, score: number) =>
+  questionnaire.bands.find(band => score >= band.min && score <= band.max) || questionnaire.bands[0];
+
+export const scoreQuestionnaire = (questionnaire: Questionnaire, answers: number[]) => {
+  const total = answers.reduce((sum, value) => sum + value, 0);
+  return { total, band: getSeverityBand(questionnaire, total) };
+};
+
+// PHQ-9 item 9 asks about thoughts of self-harm; any answer above "Not at all"
+// needs the crisis resources straight away, regardless of the total score.
+export const PHQ9_SELF_HARM_ITEM = 8;
+
+export const isCrisisAnswer = (id: QuestionnaireId, itemIndex: number, value: number) =>
+  id === 'phq9' && itemIndex === PHQ9_SELF_HARM_ITEM && value > 0;
+
+export const getCadenceDays = (cadence: QuestionnaireCadence, id: QuestionnaireId) =>
+  cadence[id] ?? getQuestionnaire(id).defaultCadenceDays;
+
+// Next due day, or null when the user only takes it on demand
+export const getNextDueDate = (
+  id: QuestionnaireId,
+  cadence: QuestionnaireCadence,
+  lastResponse: QuestionnaireResponse | undefined,
+  today: string
+) => {
+  const days = getCadenceDays(cadence, id);
+  if (days === 0) return null;
+  return lastResponse ? addDays(lastResponse.date, days) : today;
+};
+
+export const fetchQuestionnaireResponses = async (userId: string, since?: string) => {
+  let query = supabase
+    .from('questionnaire_responses')
+    .select('*')
+    .eq('user_id', userId)
+    .order('completed_at', { ascending: false });
+
+  if (since) query = query.gte('date', since);
+
+  const { data } = await query;
+  return (data || []) as QuestionnaireResponse[];
+};
+
+export const fetchQuestionnaireCadence = async (userId: string): Promise<QuestionnaireCadence> => {
+  const { data } = await supabase
+    .from('user_profiles')
+    .select('questionnaire_cadence')
+    .eq('id', userId)
+    .single();
+
+  return data?.questionnaire_cadence || {};
+};
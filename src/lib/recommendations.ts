@@ -0,0 +1,158 @@
+import { fetchAllPages, supabase } from '@/lib/supabase';
+import { DayContext, getRecoveryDay } from '@/lib/recoveryDay';
+import { loadSnapshot } from '@/lib/offlineCache';
+import { applyStrategyStats, compareByEffectiveness, fetchStrategyStats, StrategyStats } from '@/lib/strategies';
+import { Trigger, TriggerCategory } from '@/lib/triggers';
+
+export interface RecommendableStrategy extends StrategyStats {
+  id: string;
+  user_id: string | null;
+  title: string;
+  category: string;
+  description: string | null;
+}
+
+export interface Recommendation {
+  strategy: RecommendableStrategy;
+  reason: string;
+}
+
+// One measured session: how much distress dropped, and which triggers were
+// logged in the daily check-in for the same recovery day
+interface ReliefSample {
+  strategy_id: string;
+  relief: number;
+  trigger_ids: string[];
+}
+
+// Below this many sessions a trigger-specific average is too noisy to trust
+const MIN_PERSONAL_SAMPLES = 2;
+
+// Curated starting points used until the user has their own data
+const CATEGORY_STRATEGIES: Record<TriggerCategory, string[]> = {
+  emotions: ['Breathing', 'Mindfulness', 'Grounding'],
+  people: ['Breathing', 'Movement', 'Emergency'],
+  places: ['Movement', 'Grounding', 'Distraction'],
+  things: ['Mindfulness', 'Distraction', 'Breathing'],
+  situations: ['Grounding', 'Distraction', 'Movement']
+};
+
+// A few of the default triggers call for something more specific than their category
+const TRIGGER_STRATEGIES: { [triggerName: string]: string[] } = {
+  'Boredom': ['Distraction', 'Movement'],
+  'Loneliness': ['Emergency', 'Mindfulness'],
+  'Anger': ['Movement', 'Breathing'],
+  'Physical Pain': ['Mindfulness', 'Breathing'],
+  'Peer Pressure': ['Emergency', 'Grounding']
+};
+
+const getCuratedCategories = (trigger: Trigger) =>
+  TRIGGER_STRATEGIES[trigger.name] || CATEGORY_STRATEGIES[trigger.category] || [];
+
+export const recommendStrategies = (
+  triggers: Trigger[],
+  strategies: RecommendableStrategy[],
+  samples: ReliefSample[],
+  limit = 3
+): Recommendation[] => {
+  const recommendations: Recommendation[] = [];
+  const picked = new Set<string>();
+
+  // 1. What has actually helped this user when these triggers came up
+  const personal: { strategy: RecommendableStrategy; trigger: Trigger; average: number }[] = [];
+  for (const strategy of strategies) {
+    let best: { trigger: Trigger; average: number } | null = null;
+    for (const trigger of triggers) {
+      const reliefs = samples
+        .filter(s => s.strategy_id === strategy.id && s.trigger_ids.includes(trigger.id))
+        .map(s => s.relief);
+      if (reliefs.length < MIN_PERSONAL_SAMPLES) continue;
+
+      const average = reliefs.reduce((sum, relief) => sum + relief, 0) / reliefs.length;
+      if (!best || average > best.average) best = { trigger, average };
+    }
+    if (best && best.average > 0) personal.push({ strategy, ...best });
+  }
+
+  personal
+    .sort((a, b) => b.average - a.average)
+    .forEach(({ strategy, trigger, average }) => {
+      recommendations.push({
+        strategy,
+        reason: `Lowered your distress by ${average.toFixed(1)} on average around "${trigger.name}"`
+      });
+      picked.add(strategy.id);
+    });
+
+  // 2. Curated matches, best-performing first by the user's overall results
+  triggers.forEach(trigger => {
+    getCuratedCategories(trigger).forEach(category => {
+      strategies
+        .filter(strategy => strategy.category === category && !picked.has(strategy.id))
+        .sort(compareByEffectiveness)
+        .slice(0, 1)
+        .forEach(strategy => {
+          recommendations.push({ strategy, reason: `Often helps with "${trigger.name}"` });
+          picked.add(strategy.id);
+        });
+    });
+  });
+
+  return recommendations.slice(0, limit);
+};
+
+export const fetchRecommendations = async (
+  userId: string,
+  triggers: Trigger[],
+  context: DayContext
+): Promise<Recommendation[]> => {
+  if (triggers.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('coping_strategies')
+    .select('*')
+    .or(`user_id.eq.${userId},user_id.is.null`);
+
+  // Offline right after an offline check-in is exactly when this matters
+  const stats = data && !error ? await fetchStrategyStats(userId).catch(() => null) : null;
+  const strategies: RecommendableStrategy[] = data && stats
+    ? applyStrategyStats(data, stats)
+    : (await loadSnapshot<RecommendableStrategy>('coping_strategies', userId))?.rows || [];
+
+  // Measured relief needs the whole history; without it (e.g. offline) the
+  // suggestions come from the curated lists alone
+  const [usage, checkIns] = await Promise.all([
+    fetchAllPages<{ strategy_id: string; used_at: string; distress_before: number; distress_after: number }>((from, to) =>
+      supabase
+        .from('strategy_usage')
+        .select('strategy_id, used_at, distress_before, distress_after')
+        .eq('user_id', userId)
+        .not('distress_before', 'is', null)
+        .not('distress_after', 'is', null)
+        .order('used_at')
+        .order('id')
+        .range(from, to)
+    ),
+    fetchAllPages<{ date: string; trigger_ids: string[] | null }>((from, to) =>
+      supabase
+        .from('daily_checkins')
+        .select('date, trigger_ids')
+        .eq('user_id', userId)
+        .order('date')
+        .range(from, to)
+    )
+  ]).catch(() => [[], []]);
+
+  const triggersByDate: { [date: string]: string[] } = {};
+  checkIns.forEach(checkIn => {
+    triggersByDate[checkIn.date] = checkIn.trigger_ids || [];
+  });
+
+  const samples: ReliefSample[] = usage.map(session => ({
+    strategy_id: session.strategy_id,
+    relief: session.distress_before - session.distress_after,
+    trigger_ids: triggersByDate[getRecoveryDay(context, new Date(session.used_at))] || []
+  }));
+
+  return recommendStrategies(triggers, strategies, samples);
+};
@@ -0,0 +1,104 @@
+import { supabase } from '@/lib/supabase';
+
+// A "recovery day" is the calendar date (YYYY-MM-DD) a moment belongs to in the
+// user's own timezone, shifted by their day rollover hour so that someone who
+// checks in at 2am after a night shift still writes to the day they just lived.
+
+export interface DayContext {
+  timezone: string;
+  rolloverHour: number;
+}
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+export const getBrowserTimezone = () =>
+  Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+
+export const DEFAULT_DAY_CONTEXT: DayContext = {
+  timezone: getBrowserTimezone(),
+  rolloverHour: 0
+};
+
+const isValidTimezone = (timezone: string) => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Wall-clock date and hour of an instant in the given timezone. Reading the
+// wall clock (rather than adding an offset) keeps DST transitions correct.
+const getZonedParts = (instant: Date, timezone: string) => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    hourCycle: 'h23'
+  }).formatToParts(instant);
+
+  const get = (type: string) => parts.find(p => p.type === type)?.value || '00';
+
+  return {
+    date: `${get('year')}-${get('month')}-${get('day')}`,
+    hour: parseInt(get('hour'))
+  };
+};
+
+const toUTCDate = (day: string) => {
+  const [year, month, date] = day.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, date));
+};
+
+const fromUTCDate = (date: Date) => date.toISOString().split('T')[0];
+
+export const addDays = (day: string, amount: number) => {
+  const date = toUTCDate(day);
+  date.setUTCDate(date.getUTCDate() + amount);
+  return fromUTCDate(date);
+};
+
+// Whole calendar days from `from` to `to` (negative if `to` is earlier).
+export const daysBetween = (from: string, to: string) =>
+  Math.round((toUTCDate(to).getTime() - toUTCDate(from).getTime()) / MS_PER_DAY);
+
+export const getRecoveryDay = (context: DayContext = DEFAULT_DAY_CONTEXT, instant: Date = new Date()) => {
+  const timezone = isValidTimezone(context.timezone) ? context.timezone : 'UTC';
+  const { date, hour } = getZonedParts(instant, timezone);
+
+  return hour < context.rolloverHour ? addDays(date, -1) : date;
+};
+
+export const getDaysAgo = (days: number, context: DayContext = DEFAULT_DAY_CONTEXT) =>
+  addDays(getRecoveryDay(context), -days);
+
+// Day strings are calendar dates, not instants, so format them in UTC to avoid
+// `new Date('2024-03-10')` rendering as the 9th west of Greenwich.
+export const formatDay = (day: string, options: Intl.DateTimeFormatOptions = {}) =>
+  toUTCDate(day).toLocaleDateString('en-US', { ...options, timeZone: 'UTC' });
+
+// 0 = Sunday
+export const getWeekday = (day: string) => toUTCDate(day).getUTCDay();
+
+export const formatTime = (instant: string | Date, context: DayContext = DEFAULT_DAY_CONTEXT) =>
+  new Date(instant).toLocaleTimeString('en-US', {
+    hour: 'numeric',
+    minute: '2-digit',
+    timeZone: isValidTimezone(context.timezone) ? context.timezone : 'UTC'
+  });
+
+export const fetchDayContext = async (userId: string): Promise<DayContext> => {
+  const { data } = await supabase
+    .from('user_profiles')
+    .select('timezone, day_rollover_hour')
+    .eq('id', userId)
+    .single();
+
+  return {
+    timezone: data?.timezone || DEFAULT_DAY_CONTEXT.timezone,
+    rolloverHour: data?.day_rollover_hour ?? DEFAULT_DAY_CONTEXT.rolloverHour
+  };
+};
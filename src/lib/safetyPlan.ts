@@ -0,0 +1,120 @@
+import { supabase } from '@/lib/supabase';
+import { loadSnapshot, saveSnapshot } from '@/lib/offlineCache';
+
+// Safety plan following the Stanley-Brown model: six steps worked through in
+// order when things get bad, plus what makes life worth living.
+
+export interface SafetyPlanProfessional {
+  name: string;
+  phone: string;
+}
+
+export interface SafetyPlanSections {
+  warning_signs: string[];
+  // Internal coping: linked strategies plus anything not in the toolkit
+  coping_strategy_ids: string[];
+  coping_notes: string[];
+  distractions: string[];
+  // People to ask for help, from emergency_contacts
+  help_contact_ids: string[];
+  professionals: SafetyPlanProfessional[];
+  means_restriction: string[];
+  reasons_for_living: string[];
+}
+
+export interface SafetyPlan {
+  id: string;
+  user_id: string;
+  version: number;
+  sections: SafetyPlanSections;
+  created_at: string;
+}
+
+export type SafetyPlanListSection = 'warning_signs' | 'coping_notes' | 'distractions' | 'means_restriction' | 'reasons_for_living';
+
+export const EMPTY_SAFETY_PLAN: SafetyPlanSections = {
+  warning_signs: [],
+  coping_strategy_ids: [],
+  coping_notes: [],
+  distractions: [],
+  help_contact_ids: [],
+  professionals: [],
+  means_restriction: [],
+  reasons_for_living: []
+};
+
+export const SAFETY_PLAN_STEPS = [
+  {
+    step: 1,
+    title: 'Warning signs',
+    description: 'Thoughts, images, moods, situations or behaviours that tell me a crisis may be developing',
+    placeholder: 'e.g. Isolating in my room, not answering texts'
+  },
+  {
+    step: 2,
+    title: 'Things I can do on my own',
+    description: 'Internal coping strategies to take my mind off problems without contacting anyone',
+    placeholder: 'e.g. Take a hot shower'
+  },
+  {
+    step: 3,
+    title: 'People and places that distract me',
+    description: 'People and social settings that help me take my mind off things',
+    placeholder: 'e.g. The coffee shop on Main St, calling my cousin'
+  },
+  {
+    step: 4,
+    title: 'People I can ask for help',
+    description: 'People I can reach out to and tell that I am struggling'
+  },
+  {
+    step: 5,
+    title: 'Professionals and agencies',
+    description: 'Clinicians, crisis lines and services I can contact during a crisis'
+  },
+  {
+    step: 6,
+    title: 'Making my environment safe',
+    description: 'Steps to limit access to alcohol, drugs or other means of harm',
+    placeholder: 'e.g. Give my spare key and the liquor cabinet key to my sponsor'
+  }
+];
+
+// Older versions may predate a section; fill the gaps so the UI never sees undefined
+const normalizeSections = (sections: Partial<SafetyPlanSections> | null): SafetyPlanSections => ({
+  ...EMPTY_SAFETY_PLAN,
+  ...(sections || {})
+});
+
+export const isSafetyPlanEmpty = (sections: SafetyPlanSections) =>
+  Object.values(sections).every(value => value.length === 0);
+
+// Newest first. Falls back to the copy saved on this device when offline,
+// since the plan is exactly what someone needs with no signal.
+export const fetchSafetyPlanHistory = async (userId: string) => {
+  const { data, error } = await supabase
+    .from('safety_plans')
+    .select('*')
+    .eq('user_id', userId)
+    .order('version', { ascending: false });
+
+  if (data && !error) {
+    const plans = data.map(plan => ({ ...plan, sections: normalizeSections(plan.sections) })) as SafetyPlan[];
+    saveSnapshot('safety_plans', userId, plans);
+    return { plans, offlineCopyFrom: null };
+  }
+
+  const snapshot = await loadSnapshot<SafetyPlan>('safety_plans', userId);
+  return { plans: snapshot?.rows || [], offlineCopyFrom: snapshot?.saved_at || null };
+};
+
+export const saveSafetyPlan = async (userId: string, sections: SafetyPlanSections, currentVersion: number) => {
+  const { data, error } = await supabase
+    .from('safety_plans')
+    .insert([{ user_id: userId, version: currentVersion + 1, sections }])
+    .select()
+    .single();
+
+  if (error) throw error;
+  return { ...data, sections: normalizeSections(data.sections) } as SafetyPlan;
+};
@@ -0,0 +1,62 @@
+import { supabase } from '@/lib/supabase';
+
+export interface UseEvent {
+  id: string;
+  user_id: string;
+  date: string;
+  substance: string;
+  amount: string | null;
+  context: string | null;
+  trigger_ids: string[];
+  reset_sobriety: boolean;
+  created_at: string;
+}
+
+export interface RecoveryPeriod {
+  id: string;
+  user_id: string;
+  start_date: string;
+  end_date: string | null;
+  ended_by_event_id: string | null;
+  created_at: string;
+}
+
+export type NewUseEvent = Pick<UseEvent, 'date' | 'substance' | 'amount' | 'context' | 'trigger_ids' | 'reset_sobriety'>;
+
+export const SUBSTANCE_OPTIONS = [
+  'Alcohol', 'Cannabis', 'Opioids', 'Stimulants', 'Benzodiazepines',
+  'Nicotine', 'Gambling', 'Other'
+];
+
+// Records a use/lapse. When the user chooses to reset, the open recovery period
+// is closed on the lapse date and a new one starts the following day, which also
+// becomes the profile's sobriety date so clean time and milestones follow it.
+// The log_use_event function does all of this in one transaction, and refuses
+// a reset dated before the current sobriety date.
+export const logUseEvent = async (event: NewUseEvent) => {
+  const { data, error } = await supabase.rpc('log_use_event', { event });
+
+  if (error) throw error;
+  return data as UseEvent;
+};
+
+export const fetchRecoveryPeriods = async (userId: string) => {
+  const { data } = await supabase
+    .from('recovery_periods')
+    .select('*')
+    .eq('user_id', userId)
+    .order('start_date', { ascending: false });
+
+  return (data || []) as RecoveryPeriod[];
+};
+
+// Keeps the open period in step when the sobriety date is edited by hand.
+export const syncCurrentPeriodStart = async (userId: string, startDate: string) => {
+  const { error } = await supabase
+    .from('recovery_periods')
+    .update({ start_date: startDate })
+    .eq('user_id', userId)
+    .is('end_date', null);
+
+  if (error) throw error;
+};
@@ -0,0 +1,138 @@
+import { supabase } from '@/lib/supabase';
+import { EmergencyContact, fetchEmergencyContacts } from '@/lib/contacts';
+import { getQueuedWrites, queueSosEvent } from '@/lib/offlineQueue';
+import { CrisisHotline, HotlineService } from '@/lib/hotlines';
+
+// SOS mode walks the user's contacts in priority order, one at a time, and
+// then the crisis hotlines. Each event is recorded as it unfolds so that it
+// survives the app being closed mid-call.
+
+export type SosOutcome = 'reached_contact' | 'reached_hotline' | 'safe' | 'cancelled';
+
+export interface SosTarget {
+  kind: 'contact' | 'hotline';
+  contact_id: string | null;
+  name: string;
+  phone: string;
+  // Where texts go, when that differs from the phone number
+  sms_phone: string;
+  detail: string | null;
+  // Prefilled when texting
+  message: string;
+  can_call: boolean;
+  can_text: boolean;
+}
+
+export interface SosStep {
+  kind: SosTarget['kind'];
+  contact_id: string | null;
+  name: string;
+  channel: 'call' | 'sms';
+  at: string;
+  // null while the user is still waiting to hear back
+  result: 'no_answer' | 'reached' | null;
+}
+
+export interface SosEvent {
+  id: string;
+  user_id: string;
+  started_at: string;
+  ended_at: string | null;
+  steps: SosStep[];
+  outcome: SosOutcome | null;
+  shared_with_sponsor: boolean;
+}
+
+export const SOS_MESSAGE = "I don't feel safe right now. Please call me as soon as you can.";
+
+export const SOS_OUTCOME_LABELS: Record<SosOutcome, string> = {
+  reached_contact: 'Reached someone',
+  reached_hotline: 'Reached a crisis line',
+  safe: 'Felt safe again',
+  cancelled: 'Closed early'
+};
+
+// Services worth trying in order once no contact has answered
+const SOS_HOTLINE_SERVICES: HotlineService[] = ['suicide', 'substance_use', 'emergency'];
+
+// Priority 5 contacts are marked "info only", so they're left out of the chain
+export const buildEscalationChain = (contacts: EmergencyContact[], hotlines: CrisisHotline[]): SosTarget[] => [
+  ...contacts
+    .filter(contact => contact.priority_level < 5)
+    .sort((a, b) => a.priority_level - b.priority_level || a.created_at.localeCompare(b.created_at))
+    .map(contact => ({
+      kind: 'contact' as const,
+      contact_id: contact.id,
+      name: contact.name,
+      phone: contact.phone,
+      sms_phone: contact.phone,
+      detail: contact.relationship,
+      message: contact.message_templates?.[0] || SOS_MESSAGE,
+      can_call: true,
+      can_text: true
+    })),
+  ...SOS_HOTLINE_SERVICES.flatMap(service => hotlines.filter(hotline => hotline.service === service)).map(hotline => ({
+    kind: 'hotline' as const,
+    contact_id: null,
+    name: hotline.name,
+    phone: hotline.phone,
+    sms_phone: hotline.text_number || hotline.phone,
+    detail: `${hotline.description} · ${hotline.hours}`,
+    message: hotline.text || '',
+    can_call: !hotline.textOnly,
+    can_text: hotline.text !== undefined
+  }))
+];
+
+// Same data as the contacts screen, including its offline copy
+export const fetchEscalationChain = async (userId: string, hotlines: CrisisHotline[]) => {
+  const { contacts } = await fetchEmergencyContacts(userId);
+  return buildEscalationChain(contacts, hotlines);
+};
+
+export const canShareSosWithSponsor = async (userId: string) => {
+  const { data } = await supabase
+    .from('user_profiles')
+    .select('privacy_settings')
+    .eq('id', userId)
+    .single();
+
+  return !!data?.privacy_settings?.share_sos_events;
+};
+
+export const startSosEvent = (userId: string, sharedWithSponsor: boolean): SosEvent => ({
+  id: crypto.randomUUID(),
+  user_id: userId,
+  started_at: new Date().toISOString(),
+  ended_at: null,
+  steps: [],
+  outcome: null,
+  shared_with_sponsor: sharedWithSponsor
+});
+
+export const saveSosEvent = async (event: SosEvent) => {
+  try {
+    await queueSosEvent(event);
+  } catch {
+    // Recording must never block someone in crisis from reaching help
+  }
+};
+
+// Newest first, with any versions still waiting to sync taking precedence
+export const fetchSosEvents = async (userId: string, limit = 10) => {
+  const { data } = await supabase
+    .from('sos_events')
+    .select('*')
+    .eq('user_id', userId)
+    .order('started_at', { ascending: false })
+    .limit(limit);
+
+  const queued = (await getQueuedWrites('sos_event'))
+    .map(write => write.row)
+    .filter(row => row.user_id === userId);
+  const synced = ((data || []) as SosEvent[]).filter(row => !queued.some(q => q.id === row.id));
+
+  return [...queued, ...synced]
+    .sort((a, b) => b.started_at.localeCompare(a.started_at))
+    .slice(0, limit);
+};
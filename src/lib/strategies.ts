@@ -0,0 +1,118 @@
+import { fetchAllPages, supabase } from '@/lib/supabase';
+
+// Usage and ratings are per user. The default strategies are shared rows, so
+// nothing user-specific may be written onto coping_strategies itself.
+
+export interface StrategyUsage {
+  id: string;
+  user_id: string;
+  strategy_id: string;
+  used_at: string;
+  context: string | null;
+  distress_before: number | null;
+  distress_after: number | null;
+  duration_seconds: number | null;
+}
+
+export interface StrategyStats {
+  usage_count: number;
+  last_used: string | null;
+  effectiveness_rating: number | null;
+  // Mean drop in SUDS (0-10) across sessions rated both before and after
+  average_relief: number | null;
+  relief_count: number;
+}
+
+const EMPTY_STATS: StrategyStats = {
+  usage_count: 0,
+  last_used: null,
+  effectiveness_rating: null,
+  average_relief: null,
+  relief_count: 0
+};
+
+// Folds one more before/after pair into a running average
+export const addReliefSample = (stats: StrategyStats, before: number, after: number): StrategyStats => {
+  const total = (stats.average_relief || 0) * stats.relief_count + (before - after);
+  return { ...stats, average_relief: total / (stats.relief_count + 1), relief_count: stats.relief_count + 1 };
+};
+
+interface UsageRow {
+  strategy_id: string;
+  used_at: string;
+  distress_before: number | null;
+  distress_after: number | null;
+}
+
+export const fetchStrategyStats = async (userId: string) => {
+  const [usage, { data: ratings }] = await Promise.all([
+    fetchAllPages<UsageRow>((from, to) =>
+      supabase
+        .from('strategy_usage')
+        .select('strategy_id, used_at, distress_before, distress_after')
+        .eq('user_id', userId)
+        .order('used_at')
+        .order('id')
+        .range(from, to)
+    ),
+    supabase
+      .from('strategy_ratings')
+      .select('strategy_id, rating')
+      .eq('user_id', userId)
+  ]);
+
+  const stats: { [strategyId: string]: StrategyStats } = {};
+  const statsFor = (strategyId: string) => (stats[strategyId] ||= { ...EMPTY_STATS });
+
+  usage.forEach(({ strategy_id, used_at, distress_before, distress_after }) => {
+    const entry = statsFor(strategy_id);
+    entry.usage_count++;
+    if (!entry.last_used || used_at > entry.last_used) entry.last_used = used_at;
+    if (distress_before !== null && distress_after !== null) {
+      stats[strategy_id] = addReliefSample(entry, distress_before, distress_after);
+    }
+  });
+
+  (ratings || []).forEach(({ strategy_id, rating }) => {
+    statsFor(strategy_id).effectiveness_rating = rating;
+  });
+
+  return stats;
+};
+
+// Overlays the user's own numbers on the strategy rows for display. Uses from
+// before the per-user log are still counted on the user's own strategies, so
+// those are added on; the shared rows' old counts were everyone's together.
+export const applyStrategyStats = <T extends { id: string; user_id: string | null; usage_count: number | null; last_used: string | null }>(
+  strategies: T[],
+  stats: { [strategyId: string]: StrategyStats }
+): (T & StrategyStats)[] =>
+  strategies.map(strategy => {
+    const own = stats[strategy.id] || EMPTY_STATS;
+    if (!strategy.user_id) return { ...strategy, ...own };
+
+    const lastUsed = [strategy.last_used, own.last_used].filter((date): date is string => !!date).sort().pop();
+    return {
+      ...strategy,
+      ...own,
+      usage_count: (strategy.usage_count || 0) + own.usage_count,
+      last_used: lastUsed || null
+    };
+  });
+
+// Measured relief comes first; the manual star rating only breaks ties and
+// orders strategies that have no measured sessions yet
+export const compareByEffectiveness = (a: StrategyStats, b: StrategyStats) =>
+  (b.average_relief ?? -Infinity) - (a.average_relief ?? -Infinity) ||
+  (b.effectiveness_rating || 0) - (a.effectiveness_rating || 0);
+
+export const rateStrategy = async (userId: string, strategyId: string, rating: number) => {
+  const { error } = await supabase
+    .from('strategy_ratings')
+    .upsert(
+      [{ user_id: userId, strategy_id: strategyId, rating, updated_at: new Date().toISOString() }],
+      { onConflict: 'user_id,strategy_id' }
+    );
+
+  if (error) throw error;
+};
@@ -0,0 +1,126 @@
+import { fetchAllPages, supabase } from '@/lib/supabase';
+import { addDays, DayContext, daysBetween, getRecoveryDay } from '@/lib/recoveryDay';
+
+export interface StreakRun {
+  start: string;
+  end: string;
+  length: number;
+  graceDaysUsed: number;
+}
+
+export interface StreakSummary {
+  current: number;
+  longest: number;
+  totalCheckIns: number;
+  history: StreakRun[];
+}
+
+export interface CheckInDay {
+  date: string;
+  is_backfilled: boolean | null;
+}
+
+export interface StreakOptions {
+  // Missed days tolerated in any rolling 7-day window before a streak breaks.
+  graceDaysPerWeek: number;
+}
+
+export const EMPTY_STREAK_SUMMARY: StreakSummary = {
+  current: 0,
+  longest: 0,
+  totalCheckIns: 0,
+  history: []
+};
+
+interface OpenRun {
+  start: string;
+  lastCheckIn: string;
+  missed: string[];
+}
+
+// Grace days after the last check-in don't count toward the run yet.
+const closeRun = (run: OpenRun): StreakRun => ({
+  start: run.start,
+  end: run.lastCheckIn,
+  length: daysBetween(run.start, run.lastCheckIn) + 1,
+  graceDaysUsed: run.missed.filter(day => day < run.lastCheckIn).length
+});
+
+// Walks every day from the first check-in to today. A missed day is covered by
+// grace if the run hasn't already missed `graceDaysPerWeek` days in the week
+// ending on it; otherwise the run closes on its last checked-in day. Today is
+// never counted as missed, since the user may still check in. Backfilled days
+// count toward the total but not toward streaks: they were filled in later.
+export const computeStreaks = (
+  days: CheckInDay[],
+  today: string,
+  options: StreakOptions = { graceDaysPerWeek: 0 }
+): StreakSummary => {
+  const pastDays = days.filter(day => day.date <= today);
+  const checkedIn = new Set(pastDays.filter(day => !day.is_backfilled).map(day => day.date));
+  const totalCheckIns = new Set(pastDays.map(day => day.date)).size;
+  if (checkedIn.size === 0) return { ...EMPTY_STREAK_SUMMARY, totalCheckIns };
+
+  const sorted = [...checkedIn].sort();
+  const history: StreakRun[] = [];
+  let run: OpenRun | null = null;
+
+  for (let day = sorted[0]; day <= today; day = addDays(day, 1)) {
+    if (checkedIn.has(day)) {
+      if (!run) {
+        run = { start: day, lastCheckIn: day, missed: [] };
+      } else {
+        run.lastCheckIn = day;
+      }
+      continue;
+    }
+
+    if (!run || day === today) continue;
+
+    const weekStart = addDays(day, -6);
+    const missedThisWeek = run.missed.filter(missed => missed >= weekStart).length;
+
+    if (missedThisWeek < options.graceDaysPerWeek) {
+      run.missed.push(day);
+    } else {
+      history.push(closeRun(run));
+      run = null;
+    }
+  }
+
+  if (run) history.push(closeRun(run));
+
+  return {
+    current: run ? history[history.length - 1].length : 0,
+    longest: Math.max(...history.map(r => r.length)),
+    totalCheckIns,
+    history
+  };
+};
+
+// Throws rather than returning part of the history, which would make streaks
+// come out too short
+export const fetchCheckInDays = (userId: string) =>
+  fetchAllPages<CheckInDay>((from, to) =>
+    supabase
+      .from('daily_checkins')
+      .select('date, is_backfilled')
+      .eq('user_id', userId)
+      .order('date', { ascending: true })
+      .range(from, to)
+  );
+
+export const fetchStreakSummary = async (userId: string, context: DayContext) => {
+  const [days, { data: profile }] = await Promise.all([
+    fetchCheckInDays(userId),
+    supabase
+      .from('user_profiles')
+      .select('streak_grace_days')
+      .eq('id', userId)
+      .single()
+  ]);
+
+  return computeStreaks(days, getRecoveryDay(context), {
+    graceDaysPerWeek: profile?.streak_grace_days ?? 0
+  });
+};
@@ -1,3 +1,21 @@
 import { createClientComponentClient } from '@supabase/auth-helpers-nextjs';
 
-export const supabase = createClientComponentClient();
\ No newline at end of file
+export const supabase = createClientComponentClient();
+
+const PAGE_SIZE = 1000;
+
+// Responses stop at the row cap (1000 by default), so reads that need a user's
+// whole history go a page at a time. An error fails the whole read instead of
+// passing off part of the history as all of it.
+export const fetchAllPages = async <T>(
+  fetchPage: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: { message: string } | null }>
+) => {
+  const rows: T[] = [];
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await fetchPage(from, from + PAGE_SIZE - 1);
+    if (error) throw error;
+    rows.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) return rows;
+  }
+};
@@ -0,0 +1,216 @@
+import { supabase } from '@/lib/supabase';
+import { computeStreaks, StreakSummary } from '@/lib/streaks';
+import { daysBetween, getRecoveryDay } from '@/lib/recoveryDay';
+import { SosEvent } from '@/lib/sos';
+
+// Supporter accounts. What a supporter can read is decided entirely by the
+// database (see the supporter_links migration); these helpers only shape
+// requests and results.
+
+export type SupporterScope = 'streak' | 'mood' | 'notes' | 'goals';
+
+export type SupporterLinkStatus = 'pending' | 'active' | 'revoked';
+
+export interface SupporterLink {
+  id: string;
+  user_id: string;
+  display_name: string;
+  supporter_email: string;
+  supporter_id: string | null;
+  scopes: SupporterScope[];
+  status: SupporterLinkStatus;
+  invited_at: string;
+  accepted_at: string | null;
+  revoked_at: string | null;
+}
+
+export interface SupporterLogEntry {
+  id: string;
+  link_id: string;
+  user_id: string;
+  supporter_id: string | null;
+  actor_id: string | null;
+  action: 'invited' | 'accepted' | 'scopes_changed' | 'revoked' | 'viewed';
+  detail: Record<string, unknown> | null;
+  created_at: string;
+}
+
+interface SharedProfile {
+  recovery_start_date: string | null;
+  timezone: string | null;
+  day_rollover_hour: number | null;
+  streak_grace_days: number | null;
+}
+
+export interface SharedCheckIn {
+  date: string;
+  is_backfilled: boolean | null;
+  mood_score: number | null;
+  notes: string | null;
+}
+
+export interface SharedGoal {
+  id: string;
+  title: string;
+  category: string;
+  target_date: string | null;
+  is_completed: boolean;
+  completed_date: string | null;
+}
+
+export type SharedSosEvent = Pick<SosEvent, 'id' | 'started_at' | 'outcome'>;
+
+// Everything a supporter can currently see for one person; sections they
+// weren't granted come back empty because the database returns no rows
+export interface SharedProgress {
+  daysClean: number | null;
+  streak: StreakSummary | null;
+  checkIns: SharedCheckIn[];
+  goals: SharedGoal[];
+  sosEvents: SharedSosEvent[];
+}
+
+export const SUPPORTER_SCOPES: { value: SupporterScope; label: string; description: string }[] = [
+  { value: 'streak', label: 'Streak & clean time', description: 'Days clean and check-in streak' },
+  { value: 'mood', label: 'Mood trend', description: 'Daily mood scores over time' },
+  { value: 'notes', label: 'Check-in notes', description: 'What you write in your daily check-ins' },
+  { value: 'goals', label: 'Goals', description: 'Your goals and milestones' }
+];
+
+export const SUPPORTER_LOG_LABELS: Record<SupporterLogEntry['action'], string> = {
+  invited: 'Invited',
+  accepted: 'Accepted the invite',
+  scopes_changed: 'Sharing changed',
+  revoked: 'Access removed',
+  viewed: 'Viewed your progress'
+};
+
+// Owner side
+
+export const fetchSupporterLinks = async (userId: string) => {
+  const { data } = await supabase
+    .from('supporter_links')
+    .select('*')
+    .eq('user_id', userId)
+    .order('invited_at', { ascending: false });
+
+  return (data || []) as SupporterLink[];
+};
+
+export const inviteSupporter = async (userId: string, invite: Pick<SupporterLink, 'display_name' | 'supporter_email' | 'scopes'>) => {
+  const { data, error } = await supabase
+    .from('supporter_links')
+    .insert([{ user_id: userId, ...invite }])
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data as SupporterLink;
+};
+
+export const updateSupporterScopes = async (linkId: string, scopes: SupporterScope[]) => {
+  const { data, error } = await supabase
+    .from('supporter_links')
+    .update({ scopes })
+    .eq('id', linkId)
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data as SupporterLink;
+};
+
+export const revokeSupporter = async (linkId: string) => {
+  const { data, error } = await supabase
+    .from('supporter_links')
+    .update({ status: 'revoked' })
+    .eq('id', linkId)
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data as SupporterLink;
+};
+
+export const fetchSupporterLog = async (userId: string, limit = 20) => {
+  const { data } = await supabase
+    .from('supporter_access_log')
+    .select('*')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  return (data || []) as SupporterLogEntry[];
+};
+
+// There's no mail server, so the user sends the invite from their own mail app
+export const getInviteMailto = (link: SupporterLink) => {
+  const subject = `${link.display_name} invited you to support their recovery`;
+  const body = [
+    `Hi,`,
+    ``,
+    `I'd like you to be one of my supporters in Recovery Companion. You'll be able to see the parts of my progress I've chosen to share.`,
+    ``,
+    `Sign in (or create an account) with this email address, ${link.supporter_email}, at ${window.location.origin} and open "People I Support" to accept.`,
+    ``,
+    link.display_name
+  ].join('\n');
+  return `mailto:${encodeURIComponent(link.supporter_email)}?subject=${encodeURIComponent(subject)}&body=${encodeURIComponent(body)}`;
+};
+
+// Supporter side
+
+export const fetchSupportInvites = async (email: string) => {
+  const { data } = await supabase
+    .from('supporter_links')
+    .select('*')
+    .eq('status', 'pending')
+    .eq('supporter_email', email.toLowerCase());
+
+  return (data || []) as SupporterLink[];
+};
+
+export const fetchSupportedPeople = async (supporterId: string) => {
+  const { data } = await supabase
+    .from('supporter_links')
+    .select('*')
+    .eq('supporter_id', supporterId)
+    .eq('status', 'active')
+    .order('display_name');
+
+  return (data || []) as SupporterLink[];
+};
+
+export const acceptSupportInvite = async (linkId: string) => {
+  const { error } = await supabase.rpc('accept_supporter_invite', { link_id: linkId });
+  if (error) throw error;
+};
+
+// Served by one database function that also records the view in the user's
+// access log, so a supporter can't read anything without it being logged
+export const fetchSharedProgress = async (link: SupporterLink): Promise<SharedProgress> => {
+  const { data, error } = await supabase.rpc('get_shared_progress', { link_id: link.id });
+  if (error) throw error;
+
+  const { profile, check_ins: checkIns, goals, sos_events: sosEvents } = data as {
+    profile: SharedProfile | null;
+    check_ins: SharedCheckIn[];
+    goals: SharedGoal[];
+    sos_events: SharedSosEvent[];
+  };
+
+  // Their "today", in their own timezone and rollover hour
+  const today = profile
+    ? getRecoveryDay({ timezone: profile.timezone || 'UTC', rolloverHour: profile.day_rollover_hour ?? 0 })
+    : null;
+
+  return {
+    daysClean: profile?.recovery_start_date && today ? daysBetween(profile.recovery_start_date, today) : null,
+    streak: profile && today
+      ? computeStreaks(checkIns, today, { graceDaysPerWeek: profile.streak_grace_days ?? 0 })
+      : null,
+    checkIns,
+    goals,
+    sosEvents
+  };
+};
@@ -0,0 +1,80 @@
+import { supabase } from '@/lib/supabase';
+
+export type TriggerCategory = 'people' | 'places' | 'emotions' | 'things' | 'situations';
+
+export interface Trigger {
+  id: string;
+  user_id: string;
+  name: string;
+  category: TriggerCategory;
+  color: string;
+  is_archived: boolean;
+  created_at: string;
+}
+
+export const TRIGGER_CATEGORIES: { value: TriggerCategory; label: string; icon: string }[] = [
+  { value: 'people', label: 'People', icon: '👥' },
+  { value: 'places', label: 'Places', icon: '📍' },
+  { value: 'emotions', label: 'Emotions', icon: '💭' },
+  { value: 'things', label: 'Things', icon: '📦' },
+  { value: 'situations', label: 'Situations', icon: '🔄' }
+];
+
+export const TRIGGER_COLORS = [
+  '#ef4444', '#f97316', '#eab308', '#22c55e', '#14b8a6',
+  '#3b82f6', '#8b5cf6', '#ec4899', '#6b7280'
+];
+
+// Seed catalog for new users; mirrors the original fixed trigger list.
+export const DEFAULT_TRIGGERS: { name: string; category: TriggerCategory; color: string }[] = [
+  { name: 'Stress', category: 'emotions', color: '#ef4444' },
+  { name: 'Social Situations', category: 'people', color: '#3b82f6' },
+  { name: 'Work/School', category: 'places', color: '#14b8a6' },
+  { name: 'Family', category: 'people', color: '#3b82f6' },
+  { name: 'Money Worries', category: 'things', color: '#eab308' },
+  { name: 'Loneliness', category: 'emotions', color: '#8b5cf6' },
+  { name: 'Boredom', category: 'emotions', color: '#6b7280' },
+  { name: 'Anger', category: 'emotions', color: '#ef4444' },
+  { name: 'Sadness', category: 'emotions', color: '#8b5cf6' },
+  { name: 'Physical Pain', category: 'things', color: '#f97316' },
+  { name: 'Celebrations', category: 'situations', color: '#ec4899' },
+  { name: 'Peer Pressure', category: 'people', color: '#3b82f6' },
+  { name: 'Environment', category: 'places', color: '#14b8a6' },
+  { name: 'Routine Changes', category: 'situations', color: '#22c55e' }
+];
+
+export const getCategoryLabel = (category: TriggerCategory) =>
+  TRIGGER_CATEGORIES.find(c => c.value === category)?.label || category;
+
+const selectTriggers = (userId: string) =>
+  supabase
+    .from('triggers')
+    .select('*')
+    .eq('user_id', userId)
+    .order('category')
+    .order('name');
+
+// Loads the user's catalog, seeding the defaults the first time.
+export const fetchTriggers = async (userId: string): Promise<Trigger[]> => {
+  const { data, error } = await selectTriggers(userId);
+
+  if (error) return [];
+  if (data.length > 0) return data;
+
+  // Two screens can seed at once; the loser's rows already exist, so skip them
+  // and read back whatever ended up saved
+  await supabase
+    .from('triggers')
+    .upsert(DEFAULT_TRIGGERS.map(trigger => ({ user_id: userId, ...trigger })), {
+      onConflict: 'user_id,name',
+      ignoreDuplicates: true
+    });
+
+  const { data: seeded } = await selectTriggers(userId);
+  return seeded || [];
+};
+
+export const getTriggerNames = (triggerIds: string[] | null, triggers: Trigger[]) =>
+  (triggerIds || [])
+    .map(id => triggers.find(t => t.id === id)?.name)
+    .filter((name): name is string => !!name);
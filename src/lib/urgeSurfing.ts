@@ -0,0 +1,64 @@
+import { supabase } from '@/lib/supabase';
+
+export interface UrgeReading {
+  minute: number;
+  intensity: number;
+}
+
+export interface UrgeSurfSession {
+  id: string;
+  user_id: string;
+  date: string;
+  started_at: string;
+  planned_minutes: number;
+  duration_seconds: number;
+  readings: UrgeReading[];
+  peak_intensity: number | null;
+  final_intensity: number | null;
+}
+
+export const URGE_SURF_DURATIONS = [5, 10, 15, 20, 30];
+
+// The point of the exercise: show that the craving crested and then eased off
+export const summarizeReadings = (readings: UrgeReading[]) => {
+  if (readings.length === 0) return null;
+  const peak = readings.reduce((max, reading) => reading.intensity > max.intensity ? reading : max, readings[0]);
+  const first = readings[0];
+  const last = readings[readings.length - 1];
+  return {
+    peak: peak.intensity,
+    peakMinute: peak.minute,
+    start: first.intensity,
+    final: last.intensity,
+    dropFromPeak: peak.intensity - last.intensity
+  };
+};
+
+export const saveUrgeSession = async (session: Omit<UrgeSurfSession, 'id' | 'peak_intensity' | 'final_intensity'>) => {
+  const summary = summarizeReadings(session.readings);
+  const { data, error } = await supabase
+    .from('urge_surf_sessions')
+    .insert([{
+      ...session,
+      peak_intensity: summary?.peak ?? null,
+      final_intensity: summary?.final ?? null
+    }])
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data as UrgeSurfSession;
+};
+
+export const fetchUrgeSessions = async (userId: string, since?: string) => {
+  let query = supabase
+    .from('urge_surf_sessions')
+    .select('*')
+    .eq('user_id', userId)
+    .order('started_at', { ascending: true });
+
+  if (since) query = query.gte('date', since);
+
+  const { data } = await query;
+  return (data || []) as UrgeSurfSession[];
+};
@@ -0,0 +1,204 @@
+import { getDialableNumber } from '@/lib/phone';
+
+// Reading and writing .vcf files so the support network can move between
+// this app and a phone's address book. Handles vCard 2.1 (older Android
+// exports, often quoted-printable), 3.0 and 4.0.
+
+export interface VCardPhone {
+  number: string;
+  // cell, home, work... lower-cased from TYPE; null when the card doesn't say
+  type: string | null;
+}
+
+export interface ParsedVCard {
+  name: string;
+  phones: VCardPhone[];
+  relationship: string | null;
+}
+
+export interface VCardContact {
+  name: string;
+  phone: string;
+  relationship: string | null;
+  priority_level: number;
+}
+
+interface VCardLine {
+  name: string;
+  params: Record<string, string[]>;
+  value: string;
+}
+
+// Keywords found in a card's title, categories, note or name, mapped onto
+// the relationship options of the contact form
+const RELATIONSHIP_KEYWORDS: [RegExp, string][] = [
+  [/sponsor/i, 'Sponsor'],
+  [/therapist|counsel+or|psycholog|psychiatr/i, 'Therapist'],
+  [/\bdr\.?\b|doctor|physician|\bgp\b|clinic/i, 'Doctor'],
+  [/mentor|coach/i, 'Mentor'],
+  [/group|meeting|\baa\b|\bna\b|smart recovery/i, 'Support Group Leader'],
+  [/hotline|helpline|crisis|lifeline/i, 'Crisis Hotline'],
+  [/\b(mom|mum|dad|son)\b|mother|father|sister|brother|aunt|uncle|grand|cousin|daughter|wife|husband|partner|family/i, 'Family Member'],
+  [/friend/i, 'Friend']
+];
+
+const PRIORITY_LABELS: Record<number, string> = {
+  1: 'Critical',
+  2: 'High',
+  3: 'Medium',
+  4: 'Low',
+  5: 'Reference'
+};
+
+// A line starting with a space or tab continues the previous one
+const unfold = (text: string) => text.replace(/\r\n/g, '\n').replace(/\n[ \t]/g, '');
+
+const isQuotedPrintable = (line: string) => /ENCODING=QUOTED-PRINTABLE/i.test(line.slice(0, line.indexOf(':')));
+
+// vCard 2.1 soft line breaks: a trailing "=" on a quoted-printable property
+// joins the next line. Base64 photos also end in "=", so only those properties.
+const joinSoftBreaks = (lines: string[]) =>
+  lines.reduce<string[]>((joined, line) => {
+    const last = joined[joined.length - 1];
+    if (last && isQuotedPrintable(last) && last.endsWith('=')) {
+      joined[joined.length - 1] = last.slice(0, -1) + line.trim();
+    } else {
+      joined.push(line);
+    }
+    return joined;
+  }, []);
+
+const decodeQuotedPrintable = (value: string, charset = 'utf-8') => {
+  const bytes: number[] = [];
+  for (let i = 0; i < value.length; i++) {
+    if (value[i] === '=' && /^[0-9A-F]{2}$/i.test(value.slice(i + 1, i + 3))) {
+      bytes.push(parseInt(value.slice(i + 1, i + 3), 16));
+      i += 2;
+    } else {
+      bytes.push(value.charCodeAt(i));
+    }
+  }
+  try {
+    return new TextDecoder(charset).decode(new Uint8Array(bytes));
+  } catch {
+    return new TextDecoder().decode(new Uint8Array(bytes));
+  }
+};
+
+const unescapeValue = (value: string) =>
+  value.replace(/\\n/gi, '\n').replace(/\\([,;\\])/g, '$1');
+
+const escapeValue = (value: string) =>
+  value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/([,;])/g, '\\$1');
+
+const parseLine = (line: string): VCardLine | null => {
+  const colon = line.indexOf(':');
+  if (colon < 0) return null;
+
+  const [rawName, ...rawParams] = line.slice(0, colon).split(';');
+  // Apple exports prefix grouped properties, e.g. "item1.TEL"
+  const name = rawName.replace(/^.*\./, '').toUpperCase();
+  const params: Record<string, string[]> = {};
+  rawParams.forEach(param => {
+    const [key, value] = param.includes('=') ? param.split('=') : ['TYPE', param];
+    const values = value.replace(/"/g, '').toLowerCase().split(',');
+    params[key.toUpperCase()] = [...(params[key.toUpperCase()] || []), ...values];
+  });
+
+  let value = line.slice(colon + 1);
+  if (params.ENCODING?.includes('quoted-printable')) {
+    value = decodeQuotedPrintable(value, params.CHARSET?.[0]);
+  }
+  return { name, params, value };
+};
+
+export const guessRelationship = (...hints: (string | null | undefined)[]) => {
+  const text = hints.filter(Boolean).join(' ');
+  return RELATIONSHIP_KEYWORDS.find(([pattern]) => pattern.test(text))?.[1] || null;
+};
+
+const parseCard = (lines: VCardLine[]): ParsedVCard | null => {
+  const get = (name: string) => lines.find(line => line.name === name)?.value;
+
+  // FN is required from 3.0 on; 2.1 cards may only have N (family;given;...)
+  const structured = get('N')?.split(';').map(unescapeValue);
+  const name = (unescapeValue(get('FN') || '') ||
+    [structured?.[3], structured?.[1], structured?.[0]].filter(Boolean).join(' ')).trim();
+
+  const phones = lines
+    .filter(line => line.name === 'TEL')
+    .map(line => ({
+      number: unescapeValue(line.value).replace(/^tel:/i, '').trim(),
+      type: (line.params.TYPE || []).find(type => !['voice', 'pref'].includes(type)) || null,
+      pref: !!line.params.TYPE?.includes('pref') || !!line.params.PREF
+    }))
+    .filter(phone => phone.number)
+    // Preferred number first, then mobiles, since those can take texts
+    .sort((a, b) => Number(b.pref) - Number(a.pref) || Number(b.type === 'cell') - Number(a.type === 'cell'))
+    .map(({ number, type }) => ({ number, type }));
+
+  if (!name || phones.length === 0) return null;
+
+  const relationship = guessRelationship(
+    ...lines.filter(line => ['ROLE', 'TITLE', 'CATEGORIES', 'NOTE', 'RELATED', 'X-RELATIONSHIP'].includes(line.name))
+      .map(line => unescapeValue(line.value)),
+    name
+  );
+
+  return { name, phones, relationship };
+};
+
+// Cards without a name or a phone number are skipped
+export const parseVCards = (text: string): ParsedVCard[] => {
+  const lines = joinSoftBreaks(unfold(text).split('\n'));
+  const cards: ParsedVCard[] = [];
+  let current: VCardLine[] | null = null;
+
+  lines.forEach(raw => {
+    const line = raw.trim();
+    if (/^BEGIN:VCARD$/i.test(line)) {
+      current = [];
+    } else if (/^END:VCARD$/i.test(line)) {
+      const card = current && parseCard(current);
+      if (card) cards.push(card);
+      current = null;
+    } else if (current && line) {
+      const parsed = parseLine(line);
+      if (parsed) current.push(parsed);
+    }
+  });
+
+  return cards;
+};
+
+// Used to spot the same person across files with differently formatted numbers
+export const getPhoneKey = (phone: string, callingCode: string) =>
+  getDialableNumber(phone, callingCode) || phone.replace(/\D/g, '');
+
+// Lines are folded at 75 characters, as the spec asks, without splitting an emoji
+const fold = (line: string) => {
+  const chars = Array.from(line);
+  const parts: string[] = [];
+  for (let i = 0; i < chars.length; i += 74) parts.push(chars.slice(i, i + 74).join(''));
+  return parts.join('\r\n ');
+};
+
+export const toVCard = (contacts: VCardContact[], callingCode: string) =>
+  contacts.map(contact => {
+    const note = [
+      contact.relationship,
+      `${PRIORITY_LABELS[contact.priority_level] || 'Normal'} priority emergency contact`
+    ].filter(Boolean).join(' · ');
+
+    return [
+      'BEGIN:VCARD',
+      'VERSION:3.0',
+      `FN:${escapeValue(contact.name)}`,
+      `N:;${escapeValue(contact.name)};;;`,
+      `TEL;TYPE=CELL,VOICE:${getDialableNumber(contact.phone, callingCode) || contact.phone}`,
+      contact.relationship ? `ROLE:${escapeValue(contact.relationship)}` : null,
+      'CATEGORIES:Support Network',
+      `NOTE:${escapeValue(note)}`,
+      'END:VCARD'
+    ].filter((line): line is string => !!line).map(fold).join('\r\n');
+  }).join('\r\n') + '\r\n';
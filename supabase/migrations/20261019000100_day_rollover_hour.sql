@@ -0,0 +1,5 @@
+-- Hour (local time) at which a user's recovery day rolls over. Check-ins made
+-- before this hour are recorded against the previous calendar day.
+alter table public.user_profiles
+  add column if not exists day_rollover_hour smallint not null default 0
+    check (day_rollover_hour between 0 and 11);
@@ -0,0 +1,4 @@
+-- Missed check-in days per rolling week that don't break a streak.
+alter table public.user_profiles
+  add column if not exists streak_grace_days smallint not null default 0
+    check (streak_grace_days between 0 and 2);
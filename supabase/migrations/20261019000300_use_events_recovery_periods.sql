@@ -0,0 +1,37 @@
+-- Use/lapse log and the recovery periods a reset splits clean time into.
+create table if not exists public.use_events (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  date date not null,
+  substance text not null,
+  amount text,
+  context text,
+  trigger_tags text[] not null default '{}',
+  reset_sobriety boolean not null default false,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists use_events_user_date_idx on public.use_events (user_id, date desc);
+
+create table if not exists public.recovery_periods (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  start_date date not null,
+  end_date date,
+  ended_by_event_id uuid references public.use_events (id) on delete set null,
+  created_at timestamptz not null default now(),
+  check (end_date is null or end_date >= start_date)
+);
+
+-- At most one open period per user
+create unique index if not exists recovery_periods_open_idx
+  on public.recovery_periods (user_id) where end_date is null;
+
+alter table public.use_events enable row level security;
+alter table public.recovery_periods enable row level security;
+
+create policy "Users manage their own use events" on public.use_events
+  for all using (auth.uid() = user_id) with check (auth.uid() = user_id);
+
+create policy "Users manage their own recovery periods" on public.recovery_periods
+  for all using (auth.uid() = user_id) with check (auth.uid() = user_id);
@@ -0,0 +1,9 @@
+-- Craving tracking on the daily check-in.
+alter table public.daily_checkins
+  add column if not exists craving_frequency smallint not null default 0
+    check (craving_frequency between 0 and 5),
+  add column if not exists craving_peak_intensity smallint not null default 0
+    check (craving_peak_intensity between 0 and 10),
+  add column if not exists craving_peak_time text
+    check (craving_peak_time in ('morning', 'afternoon', 'evening', 'night')),
+  add column if not exists craving_acted_on boolean;
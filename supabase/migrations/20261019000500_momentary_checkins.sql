@@ -0,0 +1,20 @@
+-- Lightweight in-the-moment entries; any number per day alongside the daily summary.
+create table if not exists public.momentary_checkins (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  date date not null,
+  logged_at timestamptz not null default now(),
+  mood_score smallint not null check (mood_score between 1 and 10),
+  craving_intensity smallint not null default 0 check (craving_intensity between 0 and 10),
+  trigger_tag text,
+  note text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists momentary_checkins_user_date_idx
+  on public.momentary_checkins (user_id, date, logged_at);
+
+alter table public.momentary_checkins enable row level security;
+
+create policy "Users manage their own momentary check-ins" on public.momentary_checkins
+  for all using (auth.uid() = user_id) with check (auth.uid() = user_id);
@@ -0,0 +1,3 @@
+-- Check-ins created after their day had passed. Streaks don't count these.
+alter table public.daily_checkins
+  add column if not exists is_backfilled boolean not null default false;
@@ -0,0 +1,79 @@
+-- Per-user trigger catalog replacing the fixed list of trigger labels.
+create table if not exists public.triggers (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  name text not null,
+  category text not null default 'situations'
+    check (category in ('people', 'places', 'emotions', 'things', 'situations')),
+  color text not null default '#6b7280',
+  is_archived boolean not null default false,
+  created_at timestamptz not null default now(),
+  unique (user_id, name)
+);
+
+alter table public.triggers enable row level security;
+
+create policy "Users manage their own triggers" on public.triggers
+  for all using (auth.uid() = user_id) with check (auth.uid() = user_id);
+
+alter table public.daily_checkins
+  add column if not exists trigger_ids uuid[] not null default '{}';
+
+alter table public.use_events
+  add column if not exists trigger_ids uuid[] not null default '{}';
+
+alter table public.momentary_checkins
+  add column if not exists trigger_id uuid references public.triggers (id) on delete set null;
+
+-- Seed the original list for every existing user (the app seeds new users on first load)
+insert into public.triggers (user_id, name, category, color)
+select u.id, d.name, d.category, d.color
+from auth.users u
+cross join (values
+  ('Stress', 'emotions', '#ef4444'),
+  ('Social Situations', 'people', '#3b82f6'),
+  ('Work/School', 'places', '#14b8a6'),
+  ('Family', 'people', '#3b82f6'),
+  ('Money Worries', 'things', '#eab308'),
+  ('Loneliness', 'emotions', '#8b5cf6'),
+  ('Boredom', 'emotions', '#6b7280'),
+  ('Anger', 'emotions', '#ef4444'),
+  ('Sadness', 'emotions', '#8b5cf6'),
+  ('Physical Pain', 'things', '#f97316'),
+  ('Celebrations', 'situations', '#ec4899'),
+  ('Peer Pressure', 'people', '#3b82f6'),
+  ('Environment', 'places', '#14b8a6'),
+  ('Routine Changes', 'situations', '#22c55e')
+) as d (name, category, color)
+on conflict (user_id, name) do nothing;
+
+-- Any other labels already stored become catalog entries too
+insert into public.triggers (user_id, name)
+select distinct user_id, tag from (
+  select user_id, unnest(trigger_tags) as tag from public.daily_checkins
+  union
+  select user_id, unnest(trigger_tags) from public.use_events
+  union
+  select user_id, trigger_tag from public.momentary_checkins where trigger_tag is not null
+) tags
+on conflict (user_id, name) do nothing;
+
+-- Convert stored labels to catalog ids. The old text columns are kept untouched.
+update public.daily_checkins c
+set trigger_ids = coalesce((
+  select array_agg(t.id) from public.triggers t
+  where t.user_id = c.user_id and t.name = any (c.trigger_tags)
+), '{}')
+where c.trigger_tags is not null and cardinality(c.trigger_tags) > 0;
+
+update public.use_events e
+set trigger_ids = coalesce((
+  select array_agg(t.id) from public.triggers t
+  where t.user_id = e.user_id and t.name = any (e.trigger_tags)
+), '{}')
+where cardinality(e.trigger_tags) > 0;
+
+update public.momentary_checkins m
+set trigger_id = t.id
+from public.triggers t
+where t.user_id = m.user_id and t.name = m.trigger_tag;
@@ -0,0 +1,4 @@
+-- Edit time of each check-in, used to resolve offline edits against changes
+-- made from another device (the newer edit wins).
+alter table public.daily_checkins
+  add column if not exists updated_at timestamptz not null default now();
@@ -0,0 +1,24 @@
+-- Standardized screening questionnaires (PHQ-9, GAD-7, AUDIT-C). Answers are
+-- kept alongside the score so results can be re-scored if bands change.
+create table if not exists public.questionnaire_responses (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  questionnaire text not null check (questionnaire in ('phq9', 'gad7', 'auditc')),
+  date date not null,
+  answers smallint[] not null,
+  total_score smallint not null check (total_score >= 0),
+  severity text not null,
+  completed_at timestamptz not null default now()
+);
+
+create index if not exists questionnaire_responses_user_date_idx
+  on public.questionnaire_responses (user_id, questionnaire, date);
+
+alter table public.questionnaire_responses enable row level security;
+
+create policy "Users manage their own questionnaire responses" on public.questionnaire_responses
+  for all using (auth.uid() = user_id) with check (auth.uid() = user_id);
+
+-- Days between administrations per questionnaire, e.g. {"phq9": 14}; 0 means on demand
+alter table public.user_profiles
+  add column if not exists questionnaire_cadence jsonb not null default '{}'::jsonb;
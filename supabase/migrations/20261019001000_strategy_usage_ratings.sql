@@ -0,0 +1,40 @@
+-- Per-user usage log and ratings for coping strategies. The default strategies
+-- are shared rows, so usage_count / last_used / effectiveness_rating on
+-- coping_strategies are no longer written.
+create table if not exists public.strategy_usage (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  strategy_id uuid not null references public.coping_strategies (id) on delete cascade,
+  used_at timestamptz not null default now(),
+  context text,
+  distress_before smallint check (distress_before between 0 and 10),
+  distress_after smallint check (distress_after between 0 and 10)
+);
+
+create index if not exists strategy_usage_user_strategy_idx
+  on public.strategy_usage (user_id, strategy_id, used_at);
+
+alter table public.strategy_usage enable row level security;
+
+create policy "Users manage their own strategy usage" on public.strategy_usage
+  for all using (auth.uid() = user_id) with check (auth.uid() = user_id);
+
+create table if not exists public.strategy_ratings (
+  user_id uuid not null references auth.users (id) on delete cascade,
+  strategy_id uuid not null references public.coping_strategies (id) on delete cascade,
+  rating smallint not null check (rating between 1 and 5),
+  updated_at timestamptz not null default now(),
+  primary key (user_id, strategy_id)
+);
+
+alter table public.strategy_ratings enable row level security;
+
+create policy "Users manage their own strategy ratings" on public.strategy_ratings
+  for all using (auth.uid() = user_id) with check (auth.uid() = user_id);
+
+-- Ratings on custom strategies did save before, so carry them over
+insert into public.strategy_ratings (user_id, strategy_id, rating)
+select user_id, id, effectiveness_rating
+from public.coping_strategies
+where user_id is not null and effectiveness_rating between 1 and 5
+on conflict do nothing;
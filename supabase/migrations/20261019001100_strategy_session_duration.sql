@@ -0,0 +1,3 @@
+-- How long each coping strategy session lasted, captured automatically
+alter table public.strategy_usage
+  add column if not exists duration_seconds integer check (duration_seconds >= 0);
@@ -0,0 +1,30 @@
+-- Breathing strategies carry their own rhythm: a list of phases with durations
+-- plus an optional cycle or time target. Null means box breathing.
+alter table public.coping_strategies
+  add column if not exists breathing_pattern jsonb
+    check (breathing_pattern is null or jsonb_typeof(breathing_pattern -> 'phases') = 'array');
+
+-- Shared strategies for the patterns the timer now supports
+insert into public.coping_strategies (user_id, category, title, description, is_custom, breathing_pattern)
+select null, 'Breathing', v.title, v.description, false, v.pattern::jsonb
+from (values
+  (
+    '4-7-8 Breathing',
+    'Breathe in through your nose for 4 seconds, hold for 7, then breathe out slowly through your mouth for 8. The long exhale helps calm the body.',
+    '{"phases":[{"kind":"inhale","seconds":4},{"kind":"hold","seconds":7},{"kind":"exhale","seconds":8}],"target_cycles":4}'
+  ),
+  (
+    'Physiological Sigh',
+    'Take a breath in through your nose, then a second short sip of air on top of it, and let it all out in one long exhale. One of the quickest ways to settle.',
+    '{"phases":[{"kind":"inhale","seconds":2},{"kind":"inhale","seconds":1,"label":"Sip in more air"},{"kind":"exhale","seconds":6,"label":"Long breath out"}],"target_cycles":5}'
+  ),
+  (
+    'Resonant Breathing',
+    'Breathe slowly and evenly at about 5.5 breaths per minute, with equal time in and out. Keep it going for five minutes.',
+    '{"phases":[{"kind":"inhale","seconds":5.45},{"kind":"exhale","seconds":5.45}],"target_seconds":300}'
+  )
+) as v (title, description, pattern)
+where not exists (
+  select 1 from public.coping_strategies s
+  where s.user_id is null and s.title = v.title
+);
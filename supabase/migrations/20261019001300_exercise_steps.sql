@@ -0,0 +1,9 @@
+-- Step-by-step exercises: strategies can declare their own steps, and the
+-- answers from a session can be kept with that session's usage row
+alter table public.coping_strategies
+  add column if not exists exercise_steps jsonb
+    check (exercise_steps is null or jsonb_typeof(exercise_steps) = 'array');
+
+alter table public.strategy_usage
+  add column if not exists responses jsonb
+    check (responses is null or jsonb_typeof(responses) = 'array');
@@ -0,0 +1,21 @@
+-- Urge surfing: riding out a craving on a timer while rating its intensity
+-- once a minute. readings is [{ "minute": 0, "intensity": 7 }, ...]
+create table if not exists public.urge_surf_sessions (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  date date not null,
+  started_at timestamptz not null default now(),
+  planned_minutes smallint not null check (planned_minutes > 0),
+  duration_seconds integer not null check (duration_seconds >= 0),
+  readings jsonb not null default '[]'::jsonb check (jsonb_typeof(readings) = 'array'),
+  peak_intensity smallint check (peak_intensity between 0 and 10),
+  final_intensity smallint check (final_intensity between 0 and 10)
+);
+
+create index if not exists urge_surf_sessions_user_date_idx
+  on public.urge_surf_sessions (user_id, date);
+
+alter table public.urge_surf_sessions enable row level security;
+
+create policy "Users manage their own urge surf sessions" on public.urge_surf_sessions
+  for all using (auth.uid() = user_id) with check (auth.uid() = user_id);
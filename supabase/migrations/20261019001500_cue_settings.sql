@@ -0,0 +1,3 @@
+-- Audio and vibration preferences for guided exercises; null means defaults
+alter table public.user_profiles
+  add column if not exists cue_settings jsonb;
@@ -0,0 +1,20 @@
+-- Stanley-Brown safety plan. Every save is a new version so earlier plans stay
+-- readable; the highest version is the current one.
+create table if not exists public.safety_plans (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  version integer not null check (version > 0),
+  sections jsonb not null default '{}'::jsonb,
+  created_at timestamptz not null default now(),
+  unique (user_id, version)
+);
+
+alter table public.safety_plans enable row level security;
+
+-- Versions are never edited or removed, only added; deleting the account
+-- still removes them through the cascade
+create policy "Users read their own safety plans" on public.safety_plans
+  for select using (auth.uid() = user_id);
+
+create policy "Users add their own safety plan versions" on public.safety_plans
+  for insert with check (auth.uid() = user_id);
@@ -0,0 +1,24 @@
+-- Prewritten help messages per contact, prefilled into the SMS body
+alter table public.emergency_contacts
+  add column if not exists message_templates text[] not null default '{}';
+
+-- Every call or text started from the app, for the user's own history.
+-- The contact may be deleted later, so its name and number are copied here.
+create table if not exists public.contact_attempts (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  contact_id uuid references public.emergency_contacts (id) on delete set null,
+  contact_name text not null,
+  phone text not null,
+  channel text not null check (channel in ('call', 'sms')),
+  message text,
+  attempted_at timestamptz not null default now()
+);
+
+create index if not exists contact_attempts_user_time_idx
+  on public.contact_attempts (user_id, attempted_at desc);
+
+alter table public.contact_attempts enable row level security;
+
+create policy "Users manage their own contact attempts" on public.contact_attempts
+  for all using (auth.uid() = user_id) with check (auth.uid() = user_id);
@@ -0,0 +1,22 @@
+-- SOS mode: one row per time the user pressed SOS, updated as they work
+-- through their contacts. steps is
+-- [{ "kind": "contact", "contact_id": "...", "name": "...", "channel": "call", "at": "...", "result": "no_answer" }, ...]
+create table if not exists public.sos_events (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  started_at timestamptz not null default now(),
+  ended_at timestamptz,
+  steps jsonb not null default '[]'::jsonb check (jsonb_typeof(steps) = 'array'),
+  outcome text check (outcome in ('reached_contact', 'reached_hotline', 'safe', 'cancelled')),
+  -- Copied from privacy_settings.share_sos_events when the event starts;
+  -- supporters also need the setting to still be on to see it
+  shared_with_sponsor boolean not null default false
+);
+
+create index if not exists sos_events_user_time_idx
+  on public.sos_events (user_id, started_at desc);
+
+alter table public.sos_events enable row level security;
+
+create policy "Users manage their own SOS events" on public.sos_events
+  for all using (auth.uid() = user_id) with check (auth.uid() = user_id);
@@ -0,0 +1,3 @@
+-- Country whose crisis lines to show. null means it is guessed from the timezone.
+alter table public.user_profiles
+  add column if not exists country text check (country in ('US', 'CA', 'GB', 'IE', 'AU', 'NZ'));
@@ -0,0 +1,8 @@
+-- When each emergency contact can be reached.
+-- availability is [{ "day": 1, "start": "09:00", "end": "17:00" }, ...] with
+-- day 0 = Sunday, in the contact's timezone; null means any time.
+alter table public.emergency_contacts
+  add column if not exists availability jsonb check (availability is null or jsonb_typeof(availability) = 'array'),
+  add column if not exists timezone text,
+  add column if not exists late_night_ok boolean not null default false,
+  add column if not exists preferred_channel text check (preferred_channel in ('call', 'sms'));
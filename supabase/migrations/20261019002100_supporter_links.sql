@@ -0,0 +1,220 @@
+-- Supporter accounts: a sponsor or therapist the user invites by email gets
+-- read-only access to the parts of their data they picked. Everything is
+-- enforced here, not in the client: supporters have no direct access to the
+-- user's tables and read only through get_shared_progress, which checks the
+-- link and share_progress and writes the access-log entry in the same call.
+
+create table if not exists public.supporter_links (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  -- How the user appears on the supporter's dashboard
+  display_name text not null,
+  supporter_email text not null,
+  -- Set when the supporter accepts, from their own signed-in account
+  supporter_id uuid references auth.users (id) on delete cascade,
+  scopes text[] not null default '{}'
+    check (scopes <@ array['streak', 'mood', 'notes', 'goals']::text[]),
+  status text not null default 'pending' check (status in ('pending', 'active', 'revoked')),
+  invited_at timestamptz not null default now(),
+  accepted_at timestamptz,
+  revoked_at timestamptz,
+  check (supporter_id is null or supporter_id <> user_id)
+);
+
+-- One live invite per supporter; revoked links stay for the record
+create unique index if not exists supporter_links_live_email_idx
+  on public.supporter_links (user_id, lower(supporter_email)) where status <> 'revoked';
+
+create index if not exists supporter_links_supporter_idx
+  on public.supporter_links (supporter_id) where status = 'active';
+
+create table if not exists public.supporter_access_log (
+  id uuid primary key default gen_random_uuid(),
+  link_id uuid not null references public.supporter_links (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  supporter_id uuid references auth.users (id) on delete set null,
+  actor_id uuid default auth.uid(),
+  action text not null check (action in ('invited', 'accepted', 'scopes_changed', 'revoked', 'viewed')),
+  detail jsonb,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists supporter_access_log_user_time_idx
+  on public.supporter_access_log (user_id, created_at desc);
+
+-- Owners may only change scopes or revoke; accepting goes through
+-- accept_supporter_invite so a supporter can't be attached by hand.
+create or replace function public.guard_supporter_link()
+returns trigger language plpgsql as $$
+begin
+  if tg_op = 'INSERT' then
+    new.supporter_email := lower(trim(new.supporter_email));
+    new.supporter_id := null;
+    new.status := 'pending';
+    new.accepted_at := null;
+    new.revoked_at := null;
+  elsif auth.uid() = old.user_id then
+    new.supporter_email := old.supporter_email;
+    new.supporter_id := old.supporter_id;
+    new.invited_at := old.invited_at;
+    new.accepted_at := old.accepted_at;
+    if old.status = 'revoked' or new.status <> 'revoked' then
+      new.status := old.status;
+    end if;
+    new.revoked_at := case
+      when new.status = 'revoked' and old.status <> 'revoked' then now()
+      else old.revoked_at
+    end;
+  end if;
+  return new;
+end;
+$$;
+
+create trigger supporter_links_guard
+  before insert or update on public.supporter_links
+  for each row execute function public.guard_supporter_link();
+
+create or replace function public.log_supporter_link_change()
+returns trigger language plpgsql security definer set search_path = public as $$
+begin
+  if tg_op = 'INSERT' then
+    insert into supporter_access_log (link_id, user_id, action, detail)
+      values (new.id, new.user_id, 'invited', jsonb_build_object('email', new.supporter_email, 'scopes', new.scopes));
+    return new;
+  end if;
+
+  if new.status = 'active' and old.status = 'pending' then
+    insert into supporter_access_log (link_id, user_id, supporter_id, action)
+      values (new.id, new.user_id, new.supporter_id, 'accepted');
+  end if;
+  if new.status = 'revoked' and old.status <> 'revoked' then
+    insert into supporter_access_log (link_id, user_id, supporter_id, action)
+      values (new.id, new.user_id, new.supporter_id, 'revoked');
+  end if;
+  if new.scopes is distinct from old.scopes then
+    insert into supporter_access_log (link_id, user_id, supporter_id, action, detail)
+      values (new.id, new.user_id, new.supporter_id, 'scopes_changed',
+        jsonb_build_object('from', old.scopes, 'to', new.scopes));
+  end if;
+  return new;
+end;
+$$;
+
+create trigger supporter_links_log
+  after insert or update on public.supporter_links
+  for each row execute function public.log_supporter_link_change();
+
+-- The signed-in user's email, only once they've confirmed they own it;
+-- otherwise anyone could sign up with an invited address and accept
+create or replace function public.confirmed_email()
+returns text language sql stable security definer set search_path = public as $$
+  select lower(email) from auth.users where id = auth.uid() and email_confirmed_at is not null;
+$$;
+
+create or replace function public.accept_supporter_invite(link_id uuid)
+returns void language plpgsql security definer set search_path = public as $$
+begin
+  update supporter_links
+    set supporter_id = auth.uid(), status = 'active', accepted_at = now()
+    where id = link_id
+      and status = 'pending'
+      and supporter_email = public.confirmed_email()
+      and user_id <> auth.uid();
+
+  if not found then
+    raise exception 'This invite is no longer available';
+  end if;
+end;
+$$;
+
+-- Everything the signed-in supporter may see for one link, as a single jsonb
+-- value. Reading and logging happen together, so every view is on record.
+-- Sections outside the granted scopes (or all of them, once the user turns
+-- share_progress off) come back empty.
+create or replace function public.get_shared_progress(link_id uuid)
+returns jsonb language plpgsql security definer set search_path = public as $$
+declare
+  link supporter_links;
+  sharing boolean;
+  sharing_sos boolean;
+  scopes text[];
+begin
+  select * into link from supporter_links l
+    where l.id = link_id and l.supporter_id = auth.uid() and l.status = 'active';
+
+  if not found then
+    raise exception 'You no longer have access to this person''s progress';
+  end if;
+
+  insert into supporter_access_log (link_id, user_id, supporter_id, action)
+    values (link.id, link.user_id, link.supporter_id, 'viewed');
+
+  select
+      coalesce((privacy_settings ->> 'share_progress')::boolean, false),
+      coalesce((privacy_settings ->> 'share_sos_events')::boolean, false)
+    into sharing, sharing_sos
+    from user_profiles where id = link.user_id;
+  scopes := case when coalesce(sharing, false) then link.scopes else '{}' end;
+
+  return jsonb_build_object(
+    'profile', (
+      select to_jsonb(p) from (
+        select recovery_start_date, timezone, day_rollover_hour, streak_grace_days
+        from user_profiles where id = link.user_id
+      ) p
+      where 'streak' = any (scopes)
+    ),
+    'check_ins', coalesce((
+      select jsonb_agg(c order by c.date) from (
+        select
+          date,
+          is_backfilled,
+          case when 'mood' = any (scopes) then mood_score end as mood_score,
+          case when 'notes' = any (scopes) then notes end as notes
+        from daily_checkins where user_id = link.user_id
+      ) c
+      where scopes && array['streak', 'mood', 'notes']
+    ), '[]'::jsonb),
+    'goals', coalesce((
+      select jsonb_agg(g order by g.is_completed, g.target_date) from (
+        select id, title, category, target_date, is_completed, completed_date
+        from goals where user_id = link.user_id
+      ) g
+      where 'goals' = any (scopes)
+    ), '[]'::jsonb),
+    -- Only when and how it ended; the steps name the people who were called.
+    -- Turning SOS sharing off hides earlier events too.
+    'sos_events', coalesce((
+      select jsonb_agg(e order by e.started_at desc) from (
+        select id, started_at, outcome from sos_events
+        where user_id = link.user_id and shared_with_sponsor and sharing and sharing_sos
+        order by started_at desc
+        limit 10
+      ) e
+    ), '[]'::jsonb)
+  );
+end;
+$$;
+
+alter table public.supporter_links enable row level security;
+alter table public.supporter_access_log enable row level security;
+
+-- No delete policy: revoked links are kept so the access log stays complete
+create policy "Users read their own supporter links" on public.supporter_links
+  for select using (auth.uid() = user_id);
+
+create policy "Users invite their own supporters" on public.supporter_links
+  for insert with check (auth.uid() = user_id);
+
+create policy "Users update their own supporter links" on public.supporter_links
+  for update using (auth.uid() = user_id) with check (auth.uid() = user_id);
+
+create policy "Supporters read links addressed to them" on public.supporter_links
+  for select using (
+    supporter_id = auth.uid()
+    or (status = 'pending' and supporter_email = public.confirmed_email())
+  );
+
+-- Written only by the functions above
+create policy "Users and supporters read their access log" on public.supporter_access_log
+  for select using (auth.uid() = user_id or auth.uid() = supporter_id);
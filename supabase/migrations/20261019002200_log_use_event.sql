@@ -0,0 +1,47 @@
+-- Logging a lapse with a reset touches use_events, recovery_periods and the
+-- profile. Doing it in one function keeps those writes in a single
+-- transaction, so a failure part-way can't leave clean time half-reset.
+-- Runs with the caller's rights; the existing RLS policies still apply.
+create or replace function public.log_use_event(event jsonb)
+returns public.use_events language plpgsql set search_path = public as $$
+declare
+  sobriety_date date;
+  logged use_events;
+  closed_id uuid;
+begin
+  select recovery_start_date into sobriety_date from user_profiles where id = auth.uid();
+
+  insert into use_events (user_id, date, substance, amount, context, trigger_ids, reset_sobriety)
+    select auth.uid(), e.date, e.substance, e.amount, e.context,
+      coalesce(e.trigger_ids, '{}'), coalesce(e.reset_sobriety, false)
+    from jsonb_populate_record(null::use_events, event) e
+    returning * into logged;
+
+  if not logged.reset_sobriety then
+    return logged;
+  end if;
+
+  if sobriety_date is not null and logged.date < sobriety_date then
+    raise exception 'This entry is before your current sobriety date, so it can''t reset it';
+  end if;
+
+  update recovery_periods
+    set end_date = logged.date, ended_by_event_id = logged.id
+    where user_id = auth.uid() and end_date is null
+    returning id into closed_id;
+
+  -- First lapse since tracking began: keep the hand-entered period as history
+  if closed_id is null and sobriety_date is not null then
+    insert into recovery_periods (user_id, start_date, end_date, ended_by_event_id)
+      values (auth.uid(), sobriety_date, logged.date, logged.id);
+  end if;
+
+  insert into recovery_periods (user_id, start_date) values (auth.uid(), logged.date + 1);
+
+  update user_profiles
+    set recovery_start_date = logged.date + 1, updated_at = now()
+    where id = auth.uid();
+
+  return logged;
+end;
+$$;